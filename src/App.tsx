@@ -1,41 +1,99 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { Viewport3D } from './components/Viewport3D';
+import { Viewport3D, ObjectTransformUpdate } from './components/Viewport3D';
 import { Toolbar } from './components/Toolbar';
 import { PropertiesPanel } from './components/PropertiesPanel';
 import { SceneHierarchy } from './components/SceneHierarchy';
 import { AdvancedSketchPanel } from './components/AdvancedSketchPanel';
+import { RevolveDialog } from './components/RevolveDialog';
+import { ExportDialog, ExportScope } from './components/ExportDialog';
+import { SweepLoftDialog, SweepLoftMode } from './components/SweepLoftDialog';
+import { EdgeTreatment, EdgeTreatmentPanel } from './components/EdgeTreatmentPanel';
+import { ShellPanel } from './components/ShellPanel';
+import { PushPullPanel } from './components/PushPullPanel';
+import { SelectedEdge, SelectedFace } from './components/FaceSelector';
 import { LightingPanel } from './components/LightingPanel';
 import { GridPanel } from './components/GridPanel';
 import { MeasurementPanel } from './components/MeasurementPanel';
 import { ContextToolbar } from './components/ContextToolbar';
 import { KeyboardShortcuts } from './components/KeyboardShortcuts';
 import { RenderObject, LightSettings, GridSettings } from './three/ThreeRenderer';
-import { createCubeGeometry, createSphereGeometry, createCylinderGeometry } from './three/primitives';
-import { ExtrusionEngine } from './three/extrusion';
-import { OffsetEngine } from './three/OffsetEngine';
+import { CSGEngine, CSGOperation } from './three/CSGEngine';
+import { FeatureEngine, Feature, OffsetFaceFeature, PrimitiveParams } from './three/FeatureEngine';
+import { RevolveSettings } from './three/RevolveEngine';
+import { SweepSettings } from './three/SweepEngine';
+import { LoftSettings } from './three/LoftEngine';
+import { EdgeSegment, FilletEngine } from './three/FilletEngine';
+import { ShellDirection } from './three/ShellEngine';
+import { planarRegion, weldMesh } from './three/topology';
 import { SketchShape3D } from './utils/sketch3d';
 import { MeasurementEngine, Measurement } from './utils/measurement';
 import { Vec3 } from './utils/math';
-import { Save, Download, Settings, Layers, Upload, ChevronDown, Ruler, Lightbulb, Grid, ClipboardList, Package, PanelRightOpen, PanelRightClose } from 'lucide-react';
+import { Save, Download, Settings, Layers, Upload, ChevronDown, Ruler, Lightbulb, Grid, ClipboardList, Package, PanelRightOpen, PanelRightClose, FolderOpen, History } from 'lucide-react';
 import * as THREE from 'three';
-import { FileImport, ImportedFile } from './components/FileImport';
+import { FileImport } from './components/FileImport';
+import { ImportedFile } from './utils/FileLoader';
+import { scaleImportedFile } from './utils/importScale';
+import { GLTFSceneExporter } from './utils/GLTFSceneExporter';
+import { ThreeMFSceneExporter } from './utils/ThreeMFSceneExporter';
+import { STLExportOptions, STLSceneExporter } from './utils/STLSceneExporter';
 import { OBJExporter } from 'three/addons/exporters/OBJExporter.js';
-import { STLExporter } from 'three/addons/exporters/STLExporter.js';
 import { CollapsiblePanel } from './components/CollapsiblePanel';
+import { ProjectSerializer } from './utils/ProjectSerializer';
+import { DEFAULT_UNIT_SETTINGS, MM_PER_UNIT, UnitSettings } from './utils/units';
+import { downloadFile, readFileAsText } from './utils/download';
+import { CommandHistory, HistoryState, SceneCommand } from './utils/history';
+import { HistoryPanel } from './components/HistoryPanel';
+import {
+  SketchConstraintSolver,
+  SketchConstraint,
+  SketchConstraintType,
+  SketchRef,
+  ConstraintSolveResult
+} from './utils/constraints';
 
 function App() {
   const [objects, setObjects] = useState<RenderObject[]>([]);
-  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
+  // Mirrors `objects` synchronously so consecutive edits in one tick see each other's results
+  const objectsRef = useRef<RenderObject[]>(objects);
+  // Ordered selection; the last entry is the primary object shown in the properties panel
+  const [selectedObjectIds, setSelectedObjectIds] = useState<string[]>([]);
+  const selectedObjectId = selectedObjectIds.length > 0 ? selectedObjectIds[selectedObjectIds.length - 1] : null;
   const [activeTool, setActiveTool] = useState('select');
   const [transformMode, setTransformMode] = useState<'translate' | 'rotate' | 'scale'>('translate');
 
   const [sketchPanelOpen, setSketchPanelOpen] = useState(false);
+  const [revolveDialogOpen, setRevolveDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  // Shapes are captured when the dialog opens so its selections stay stable
+  const [sweepLoftDialog, setSweepLoftDialog] = useState<{ mode: SweepLoftMode; shapes: SketchShape3D[] } | null>(null);
+  // Object whose edges are being picked for a fillet/chamfer, with the edges chosen so far
+  const [edgeEdit, setEdgeEdit] = useState<{ objectId: string; edges: EdgeSegment[] } | null>(null);
+  // Object being shelled, with one picked triangle per face to remove
+  const [shellEdit, setShellEdit] = useState<{ objectId: string; faces: number[] } | null>(null);
+  // Object whose faces are pushed/pulled; once a face is picked, the object before
+  // the move, the feature being tuned, the face's world centre, normal and triangle corners,
+  // the world length of one unit of the feature's local distance, and the distance the
+  // handle is being dragged to (null when not dragging)
+  const [pushPull, setPushPull] = useState<{
+    objectId: string;
+    face: {
+      base: RenderObject;
+      feature: OffsetFaceFeature;
+      origin: THREE.Vector3;
+      normal: THREE.Vector3;
+      vertices: THREE.Vector3[];
+      scale: number;
+      preview: number | null;
+    } | null;
+  } | null>(null);
+  const [pushPullError, setPushPullError] = useState<string | null>(null);
   const [fileImportOpen, setFileImportOpen] = useState(false);
   const [lightingPanelOpen, setLightingPanelOpen] = useState(true);
   const [gridPanelOpen, setGridPanelOpen] = useState(false);
   const [measurementPanelOpen, setMeasurementPanelOpen] = useState(true);
   const [sceneHierarchyOpen, setSceneHierarchyOpen] = useState(true);
   const [propertiesPanelOpen, setPropertiesPanelOpen] = useState(true);
+  const [historyPanelOpen, setHistoryPanelOpen] = useState(false);
 
   const [isRightSidebarOpen, setIsRightSidebarOpen] = useState(true);
 
@@ -48,10 +106,15 @@ function App() {
     workplaneVisible: true
   });
   const [sketchShapes, setSketchShapes] = useState<SketchShape3D[]>([]);
+  const [sketchConstraints, setSketchConstraints] = useState<SketchConstraint[]>([]);
+  const [constraintResult, setConstraintResult] = useState<Omit<ConstraintSolveResult, 'shapes'> | null>(null);
 
   const [measurementEngine] = useState(() => new MeasurementEngine());
   const [measurements, setMeasurements] = useState<Measurement[]>([]);
 
+  const [history] = useState(() => new CommandHistory());
+  const [historyState, setHistoryState] = useState<HistoryState>(() => history.getState());
+
   const [lightSettings, setLightSettings] = useState<LightSettings>({
     ambient: { intensity: 0.2, color: [1, 1, 1] },
     directional: { intensity: 0.8, color: [1, 1, 1], position: [10, 10, 10] },
@@ -67,6 +130,8 @@ function App() {
     color: new Vec3(0.5, 0.5, 0.5)
   });
 
+  const [unitSettings, setUnitSettings] = useState<UnitSettings>(DEFAULT_UNIT_SETTINGS);
+
   const [sketchEngineRef, setSketchEngineRef] = useState<any>(null);
 
   const [leftSidebarWidth, setLeftSidebarWidth] = useState(256);
@@ -76,9 +141,12 @@ function App() {
   const [viewportDimensions, setViewportDimensions] = useState({ width: 0, height: 0 });
 
   const [exportDropdownOpen, setExportDropdownOpen] = useState(false);
+  // Whether glTF exports include the directional and point lights
+  const [exportLights, setExportLights] = useState(true);
   const [selectedExportFormat, setSelectedExportFormat] = useState('json');
 
   const mainContentRef = useRef<HTMLDivElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
 
   // This useEffect now combines ResizeObserver with a direct dimension update
   // triggered by layout-affecting state changes.
@@ -118,6 +186,48 @@ function App() {
     }
   }, [leftSidebarWidth, rightSidebarWidth, isRightSidebarOpen]); // Dependencies ensure this effect re-runs when layout changes
 
+  useEffect(() => history.subscribe(() => setHistoryState(history.getState())), [history]);
+
+  const applyObjects = useCallback((next: RenderObject[]) => {
+    objectsRef.current = next;
+    setObjects(next);
+  }, []);
+
+  /**
+   * Applies an edit to the object list through the undo history.
+   * @param label Name of the step shown in the history panel.
+   * @param update Produces the new object list from the current one; returning the same array records nothing.
+   * @param mergeKey Consecutive edits with the same key (e.g. one gizmo drag) collapse into a single step.
+   */
+  const commitObjects = useCallback((label: string, update: (prev: RenderObject[]) => RenderObject[], mergeKey?: string) => {
+    const before = objectsRef.current;
+    const after = update(before);
+    if (after === before) return;
+    history.execute(new SceneCommand(label, before, after, applyObjects, mergeKey));
+  }, [history, applyObjects]);
+
+  const undo = useCallback(() => {
+    history.undo();
+  }, [history]);
+
+  const redo = useCallback(() => {
+    history.redo();
+  }, [history]);
+
+  // Undo/redo can remove selected objects from the scene
+  useEffect(() => {
+    setSelectedObjectIds(prev => {
+      const remaining = prev.filter(id => objects.some(obj => obj.id === id));
+      return remaining.length === prev.length ? prev : remaining;
+    });
+  }, [objects]);
+
+  // Measurements are restated whenever the project unit or precision changes
+  useEffect(() => {
+    measurementEngine.setUnits(unitSettings);
+    setMeasurements(measurementEngine.getMeasurements());
+  }, [measurementEngine, unitSettings]);
+
   const generateId = (type: string): string => {
     const timestamp = Date.now();
     const random = Math.random().toString(36).substr(2, 5);
@@ -133,21 +243,11 @@ function App() {
   };
 
   const addPrimitive = useCallback((type: string) => {
-    let geometry: THREE.BufferGeometry;
-
-    switch (type) {
-      case 'cube':
-        geometry = createCubeGeometry(2);
-        break;
-      case 'sphere':
-        geometry = createSphereGeometry(1, 32);
-        break;
-      case 'cylinder':
-        geometry = createCylinderGeometry(1, 2, 32);
-        break;
-      default:
-        return;
-    }
+    if (type !== 'cube' && type !== 'sphere' && type !== 'cylinder') return;
+
+    const params: PrimitiveParams = { shape: type, size: 2, radius: 1, height: 2, segments: 32 };
+    const feature = FeatureEngine.create('primitive', params);
+    const geometry = FeatureEngine.build([feature]);
 
     const color = getRandomColor();
     const material = new THREE.MeshPhongMaterial({
@@ -167,50 +267,135 @@ function App() {
       scale: new Vec3(1, 1, 1),
       color,
       selected: false,
-      visible: true
+      visible: true,
+      features: [feature]
     };
 
-    setObjects(prev => [...prev, newObject]);
-    setSelectedObjectId(newObject.id);
-  }, [objects]);
+    commitObjects(`Add ${type}`, prev => [...prev, newObject]);
+    setSelectedObjectIds([newObject.id]);
+  }, [objects, commitObjects]);
 
   const handleFilesImported = useCallback((importedFiles: ImportedFile[]) => {
     const newObjects: RenderObject[] = [];
 
     importedFiles.forEach((file, index) => {
-      const color = getRandomColor();
-      const material = file.material || new THREE.MeshPhongMaterial({
-        color: new THREE.Color(color.x, color.y, color.z),
-        side: THREE.DoubleSide
-      });
-      const mesh = new THREE.Mesh(file.geometry, material);
+      scaleImportedFile(file, file.unit ?? 'mm');
 
       const gridSize = Math.ceil(Math.sqrt(importedFiles.length));
       const x = (index % gridSize) * 3 - (gridSize - 1) * 1.5;
       const z = Math.floor(index / gridSize) * 3 - (Math.floor((importedFiles.length - 1) / gridSize)) * 1.5;
 
-      const newObject: RenderObject = {
-        id: generateId('imported'),
-        mesh,
-        position: new Vec3(x, 0, z),
-        rotation: new Vec3(0, 0, 0),
-        scale: new Vec3(1, 1, 1),
-        color,
-        selected: false,
-        visible: true
+      // Nodes of the file become hierarchy entries; mesh nodes reuse their object's id
+      const nodeIds = new Map<string, string>();
+      const ids = file.meshes.map(() => generateId('imported'));
+      file.meshes.forEach((imported, i) => {
+        if (imported.key) nodeIds.set(imported.key, ids[i]);
+      });
+      const nodeId = (key: string) => {
+        if (!nodeIds.has(key)) nodeIds.set(key, generateId('group'));
+        return nodeIds.get(key)!;
       };
 
-      newObjects.push(newObject);
+      file.meshes.forEach((imported, i) => {
+        const position = new THREE.Vector3();
+        const quaternion = new THREE.Quaternion();
+        const scale = new THREE.Vector3(1, 1, 1);
+        imported.matrix?.decompose(position, quaternion, scale);
+        const euler = new THREE.Euler().setFromQuaternion(quaternion);
+
+        // Scans with per-vertex colors render them through a white vertex-color material
+        const vertexColors = !imported.material && imported.geometry.hasAttribute('color');
+        const sourceMaterial = imported.material ?? (vertexColors
+          ? new THREE.MeshStandardMaterial({ vertexColors: true, roughness: 0.8, metalness: 0, side: THREE.DoubleSide })
+          : undefined);
+
+        // Imported materials keep their color; plain meshes get a random one
+        const materialColor = (sourceMaterial as THREE.MeshStandardMaterial | THREE.MeshPhongMaterial | undefined)?.color;
+        const color = materialColor ? new Vec3(materialColor.r, materialColor.g, materialColor.b) : getRandomColor();
+        const material = sourceMaterial || new THREE.MeshPhongMaterial({
+          color: new THREE.Color(color.x, color.y, color.z),
+          side: THREE.DoubleSide
+        });
+        const mesh = new THREE.Mesh(imported.geometry, material);
+        mesh.name = imported.name;
+
+        newObjects.push({
+          id: ids[i],
+          name: imported.name,
+          hierarchy: imported.path?.map(node => ({ id: nodeId(node.key), name: node.name })),
+          mesh,
+          position: new Vec3(position.x + x, position.y, position.z + z),
+          rotation: new Vec3(euler.x, euler.y, euler.z),
+          scale: new Vec3(scale.x, scale.y, scale.z),
+          color,
+          selected: false,
+          visible: true,
+          features: [FeatureEngine.create('import', { name: imported.name, geometry: imported.geometry })]
+        });
+      });
     });
 
-    setObjects(prev => [...prev, ...newObjects]);
-
     if (newObjects.length > 0) {
-      setSelectedObjectId(newObjects[0].id);
+      const label = importedFiles.length === 1 ? `Import ${importedFiles[0].name}` : `Import ${importedFiles.length} files`;
+      commitObjects(label, prev => [...prev, ...newObjects]);
+      setSelectedObjectIds([newObjects[0].id]);
+    }
+
+    // Drawings are added to the current sketch, ready to extrude
+    const importedSketch = importedFiles.flatMap(file => file.sketch ?? []);
+    if (importedSketch.length > 0 && sketchEngineRef) {
+      const shapes = [...sketchEngineRef.getShapes(), ...importedSketch];
+      sketchEngineRef.replaceShapes(shapes);
+      setSketchShapes(shapes);
+      setSketchMode(true);
+      setSketchPanelOpen(true);
     }
 
     setFileImportOpen(false);
-  }, []);
+  }, [commitObjects, sketchEngineRef]);
+
+  // Turns a sketch-based base feature into a new object and leaves sketch mode
+  const commitSketchFeature = useCallback((feature: Feature, label: string, idPrefix: string) => {
+    const geometry = FeatureEngine.build([feature]);
+    const color = getRandomColor();
+    const material = new THREE.MeshPhongMaterial({
+      color: new THREE.Color(color.x, color.y, color.z)
+    });
+
+    const mesh = new THREE.Mesh(geometry, material);
+
+    const newObject: RenderObject = {
+      id: generateId(idPrefix),
+      mesh,
+      position: new Vec3(0, 0, 0),
+      rotation: new Vec3(0, 0, 0),
+      scale: new Vec3(1, 1, 1),
+      color,
+      selected: false,
+      visible: true,
+      features: [feature]
+    };
+
+    commitObjects(label, prev => [...prev, newObject]);
+    setSelectedObjectIds([newObject.id]);
+    setSketchMode(false);
+    setSketchPanelOpen(false);
+
+    if (sketchEngineRef) {
+      sketchEngineRef.clear();
+    }
+    setSketchConstraints([]);
+    setConstraintResult(null);
+
+    return newObject;
+  }, [sketchEngineRef, commitObjects]);
+
+  // Features are built from the constrained geometry, not the raw clicked points
+  const solveSketch = useCallback((shapes: SketchShape3D[]) => {
+    return sketchConstraints.length > 0
+      ? SketchConstraintSolver.solve(shapes, sketchConstraints).shapes
+      : shapes;
+  }, [sketchConstraints]);
 
   const handleSketchExtrude = useCallback((shapes: SketchShape3D[]) => {
     console.log('Extrude called with shapes:', shapes);
@@ -229,141 +414,421 @@ function App() {
     };
 
     try {
-      const geometry = ExtrusionEngine.extrudeSketch(shapes, extrusionSettings);
-      const color = getRandomColor();
-      const material = new THREE.MeshPhongMaterial({
-        color: new THREE.Color(color.x, color.y, color.z)
+      // The sketch is copied into the feature so the extrusion can be regenerated later
+      const feature = FeatureEngine.create('extrude', {
+        sketch: FeatureEngine.cloneSketch(solveSketch(shapes)),
+        settings: extrusionSettings
       });
+      const newObject = commitSketchFeature(feature, 'Extrude sketch', 'extruded');
 
-      const mesh = new THREE.Mesh(geometry, material);
-
-      const newObject: RenderObject = {
-        id: generateId('extruded'),
-        mesh,
-        position: new Vec3(0, 0, 0),
-        rotation: new Vec3(0, 0, 0),
-        scale: new Vec3(1, 1, 1),
-        color,
-        selected: false,
-        visible: true
-      };
+      console.log('Extrusion successful, object created:', newObject.id);
+    } catch (error) {
+      console.error('Failed to extrude sketch:', error);
+    }
+  }, [solveSketch, commitSketchFeature]);
 
-      setObjects(prev => [...prev, newObject]);
-      setSelectedObjectId(newObject.id);
-      setSketchMode(false);
-      setSketchPanelOpen(false);
+  const handleSketchRevolve = useCallback((settings: RevolveSettings) => {
+    const shapes = sketchEngineRef ? sketchEngineRef.getShapes() : [];
+    if (shapes.length === 0) {
+      console.warn('No shapes to revolve');
+      return;
+    }
 
-      if (sketchEngineRef) {
-        sketchEngineRef.clear();
-      }
+    try {
+      const feature = FeatureEngine.create('revolve', {
+        sketch: FeatureEngine.cloneSketch(solveSketch(shapes)),
+        settings
+      });
+      const newObject = commitSketchFeature(feature, 'Revolve sketch', 'revolved');
 
-      console.log('Extrusion successful, object created:', newObject.id);
+      console.log('Revolve successful, object created:', newObject.id);
     } catch (error) {
-      console.error('Failed to extrude sketch:', error);
+      console.error('Failed to revolve sketch:', error);
+      alert(`Revolve failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }, [sketchEngineRef]);
+  }, [sketchEngineRef, solveSketch, commitSketchFeature]);
+
+  // Picks shapes out of the constrained sketch by id, in the requested order
+  const solvedSketchShapes = useCallback((ids: string[]) => {
+    const solved = solveSketch(sketchEngineRef ? sketchEngineRef.getShapes() : []);
+    return ids.map(id => {
+      const shape = solved.find(candidate => candidate.id === id);
+      if (!shape) throw new Error(`Sketch shape ${id} no longer exists`);
+      return shape;
+    });
+  }, [sketchEngineRef, solveSketch]);
 
-  const deleteSelected = useCallback(() => {
-    if (selectedObjectId) {
-      setObjects(prev => prev.filter(obj => obj.id !== selectedObjectId));
-      setSelectedObjectId(null);
+  const handleSketchSweep = useCallback((profile: SketchShape3D, path: SketchShape3D, settings: SweepSettings) => {
+    try {
+      const feature = FeatureEngine.create('sweep', {
+        sketch: FeatureEngine.cloneSketch(solvedSketchShapes([profile.id, path.id])),
+        settings
+      });
+      const newObject = commitSketchFeature(feature, 'Sweep sketch', 'swept');
+
+      console.log('Sweep successful, object created:', newObject.id);
+    } catch (error) {
+      console.error('Failed to sweep sketch:', error);
+      alert(`Sweep failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }, [selectedObjectId]);
+  }, [solvedSketchShapes, commitSketchFeature]);
 
-  const duplicateSelected = useCallback(() => {
-    if (!selectedObjectId) return;
+  const handleSketchLoft = useCallback((profiles: SketchShape3D[], settings: LoftSettings) => {
+    try {
+      const feature = FeatureEngine.create('loft', {
+        sketch: FeatureEngine.cloneSketch(solvedSketchShapes(profiles.map(profile => profile.id))),
+        settings
+      });
+      const newObject = commitSketchFeature(feature, 'Loft sketch', 'lofted');
 
-    const selectedObj = objects.find(obj => obj.id === selectedObjectId);
-    if (!selectedObj) return;
+      console.log('Loft successful, object created:', newObject.id);
+    } catch (error) {
+      console.error('Failed to loft sketch:', error);
+      alert(`Loft failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [solvedSketchShapes, commitSketchFeature]);
 
-    const newId = generateId(selectedObj.id.split('-')[0]);
-    const newGeometry = selectedObj.mesh.geometry.clone();
-    const newMaterial = (selectedObj.mesh.material as THREE.Material).clone();
-    const newMesh = new THREE.Mesh(newGeometry, newMaterial);
+  const deleteSelected = useCallback(() => {
+    if (selectedObjectIds.length === 0) return;
 
-    const newObject: RenderObject = {
-      id: newId,
-      mesh: newMesh,
-      position: new Vec3(selectedObj.position.x + 1, selectedObj.position.y, selectedObj.position.z + 1),
-      rotation: selectedObj.rotation,
-      scale: selectedObj.scale,
-      color: selectedObj.color,
-      selected: false,
-      visible: true
-    };
+    const label = selectedObjectIds.length > 1 ? `Delete ${selectedObjectIds.length} objects` : 'Delete object';
+    commitObjects(label, prev => prev.filter(obj => !selectedObjectIds.includes(obj.id)));
+    setSelectedObjectIds([]);
+  }, [selectedObjectIds, commitObjects]);
+
+  const duplicateSelected = useCallback(() => {
+    const selectedObjs = objects.filter(obj => selectedObjectIds.includes(obj.id));
+    if (selectedObjs.length === 0) return;
+
+    const newObjects: RenderObject[] = selectedObjs.map(selectedObj => {
+      const newId = generateId(selectedObj.id.split('-')[0]);
+      const newGeometry = selectedObj.mesh.geometry.clone();
+      const newMaterial = (selectedObj.mesh.material as THREE.Material).clone();
+      const newMesh = new THREE.Mesh(newGeometry, newMaterial);
+
+      return {
+        id: newId,
+        name: selectedObj.name,
+        hierarchy: selectedObj.hierarchy,
+        mesh: newMesh,
+        position: new Vec3(selectedObj.position.x + 1, selectedObj.position.y, selectedObj.position.z + 1),
+        rotation: selectedObj.rotation,
+        scale: selectedObj.scale,
+        color: selectedObj.color,
+        selected: false,
+        visible: true,
+        features: selectedObj.features
+      };
+    });
 
-    setObjects(prev => [...prev, newObject]);
-    setSelectedObjectId(newId);
-  }, [selectedObjectId, objects]);
+    const label = newObjects.length > 1 ? `Duplicate ${newObjects.length} objects` : 'Duplicate object';
+    commitObjects(label, prev => [...prev, ...newObjects]);
+    setSelectedObjectIds(newObjects.map(obj => obj.id));
+  }, [selectedObjectIds, objects, commitObjects]);
 
   const toggleSelectedVisibility = useCallback(() => {
     if (!selectedObjectId) return;
 
-    setObjects(prev => prev.map(obj =>
-      obj.id === selectedObjectId
-        ? { ...obj, visible: !obj.visible }
+    // The whole selection follows the primary object so mixed selections end up consistent
+    const primary = objects.find(obj => obj.id === selectedObjectId);
+    const visible = primary ? !primary.visible : true;
+    commitObjects('Toggle visibility', prev => prev.map(obj =>
+      selectedObjectIds.includes(obj.id)
+        ? { ...obj, visible }
         : obj
     ));
-  }, [selectedObjectId]);
+  }, [selectedObjectId, selectedObjectIds, objects, commitObjects]);
 
-  const handleOffsetFace = useCallback(() => {
+  const startPushPull = useCallback(() => {
     if (!selectedObjectId) return;
+    setEdgeEdit(null);
+    setShellEdit(null);
+    setPushPullError(null);
+    setPushPull({ objectId: selectedObjectId, face: null });
+  }, [selectedObjectId]);
 
-    setObjects(prev => prev.map(obj => {
-      if (obj.id === selectedObjectId) {
-        obj.mesh.geometry.dispose();
+  // Picking a face starts a new move from the object as it is now
+  const handlePushPullFacePick = useCallback((face: SelectedFace | null) => {
+    if (!face || !pushPull || face.objectId !== pushPull.objectId) return;
+    const obj = objects.find(o => o.id === face.objectId);
+    if (!obj) return;
+
+    // The feature moves the face in the object's own coordinates. A local normal n moves
+    // the face 1 / |S⁻¹·n| along its world normal per unit, S being the object's scale.
+    const scale = new THREE.Vector3(obj.scale.x, obj.scale.y, obj.scale.z);
+    const rotation = new THREE.Quaternion().setFromEuler(new THREE.Euler(obj.rotation.x, obj.rotation.y, obj.rotation.z));
+    const localNormal = face.normal.clone().applyQuaternion(rotation.invert()).multiply(scale).normalize();
+
+    setPushPullError(null);
+    setPushPull({
+      objectId: obj.id,
+      face: {
+        base: obj,
+        feature: FeatureEngine.create('offset-face', { faceIndex: face.faceIndex, distance: 0 }),
+        origin: face.center.clone(),
+        normal: face.normal.clone(),
+        vertices: face.vertices.map(v => v.clone()),
+        scale: 1 / localNormal.divide(scale).length(),
+        preview: null
+      }
+    });
+  }, [pushPull, objects]);
 
-        const newGeometry = OffsetEngine.offsetFace(obj.mesh.geometry, 0, 0.2);
+  // Dragging only moves the handle and its preview; the face is moved on release
+  const handlePushPullPreview = useCallback((distance: number) => {
+    setPushPull(prev => prev?.face ? { ...prev, face: { ...prev.face, preview: distance } } : prev);
+  }, []);
 
-        const newMesh = new THREE.Mesh(newGeometry, obj.mesh.material);
-        newMesh.castShadow = true;
-        newMesh.receiveShadow = true;
-        newMesh.userData = { id: obj.id };
+  // Distances are in world units along the face's world normal
+  const handlePushPullDistance = useCallback((distance: number) => {
+    if (!pushPull?.face) return;
+    const { base, feature, scale } = pushPull.face;
+    const moved: OffsetFaceFeature = { ...feature, params: { ...feature.params, distance: distance / scale } };
 
-        return { ...obj, mesh: newMesh };
-      }
-      return obj;
-    }));
-  }, [selectedObjectId]);
+    // Every change of one move folds into a single undo step; the previous geometry
+    // is kept (not disposed) so the step can be undone
+    try {
+      commitObjects('Push/pull face', prev => prev.map(obj =>
+        obj.id === base.id ? (distance === 0 ? base : FeatureEngine.append(base, moved)) : obj
+      ), `push-pull-${feature.id}`);
+      setPushPull({ ...pushPull, face: { ...pushPull.face, feature: moved, preview: null } });
+      setPushPullError(null);
+    } catch (error) {
+      console.error('Failed to push/pull face:', error);
+      setPushPull({ ...pushPull, face: { ...pushPull.face, preview: null } });
+      setPushPullError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }, [pushPull, commitObjects]);
+
+  const pushPullDistance = pushPull?.face
+    ? pushPull.face.preview ?? pushPull.face.feature.params.distance * pushPull.face.scale
+    : null;
+
+  const pushPullHandle = useMemo(() => pushPull?.face && pushPullDistance !== null
+    ? { origin: pushPull.face.origin, normal: pushPull.face.normal, distance: pushPullDistance, face: pushPull.face.vertices }
+    : null, [pushPull, pushPullDistance]);
 
   const handleOffsetBody = useCallback(() => {
+    if (selectedObjectIds.length === 0) return;
+
+    try {
+      commitObjects('Offset body', prev => prev.map(obj =>
+        selectedObjectIds.includes(obj.id)
+          ? FeatureEngine.append(obj, FeatureEngine.create('offset-body', { distance: 0.1, corners: 'mitered' }))
+          : obj
+      ));
+    } catch (error) {
+      console.error('Failed to offset body:', error);
+      alert(`Offset failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [selectedObjectIds, commitObjects]);
+
+  const startEdgeTreatment = useCallback(() => {
     if (!selectedObjectId) return;
+    setShellEdit(null);
+    setPushPull(null);
+    setEdgeEdit({ objectId: selectedObjectId, edges: [] });
+  }, [selectedObjectId]);
 
-    setObjects(prev => prev.map(obj => {
-      if (obj.id === selectedObjectId) {
-        obj.mesh.geometry.dispose();
+  // Clicking an edge toggles the whole model edge it belongs to
+  const handleEdgePick = useCallback((edge: SelectedEdge | null) => {
+    if (!edge || !edgeEdit || edge.objectId !== edgeEdit.objectId) return;
+    const obj = objects.find(o => o.id === edge.objectId);
+    if (!obj) return;
+
+    const chain = FilletEngine.findFeatureEdge(obj.mesh.geometry, edge.localStart, edge.localEnd);
+    if (!chain) return;
+
+    const key = (segment: EdgeSegment) => [segment.start, segment.end]
+      .map(point => point.map(v => v.toFixed(4)).join(','))
+      .sort()
+      .join('|');
+    const selected = new Set(edgeEdit.edges.map(key));
+    const alreadySelected = chain.every(segment => selected.has(key(segment)));
+    const chainKeys = new Set(chain.map(key));
+
+    setEdgeEdit({
+      ...edgeEdit,
+      edges: alreadySelected
+        ? edgeEdit.edges.filter(segment => !chainKeys.has(key(segment)))
+        : [...edgeEdit.edges, ...chain.filter(segment => !selected.has(key(segment)))]
+    });
+  }, [edgeEdit, objects]);
 
-        const newGeometry = OffsetEngine.offsetBody(obj.mesh.geometry, 0.1);
+  const handleApplyEdgeTreatment = useCallback((treatment: EdgeTreatment) => {
+    if (!edgeEdit || edgeEdit.edges.length === 0) return;
 
-        const newMesh = new THREE.Mesh(newGeometry, obj.mesh.material);
-        newMesh.castShadow = true;
-        newMesh.receiveShadow = true;
-        newMesh.userData = { id: obj.id };
+    const feature = treatment.mode === 'fillet'
+      ? FeatureEngine.create('fillet', { edges: edgeEdit.edges, radius: treatment.radius, segments: treatment.segments })
+      : FeatureEngine.create('chamfer', { edges: edgeEdit.edges, distance: treatment.distance, angle: treatment.angle });
 
-        return { ...obj, mesh: newMesh };
-      }
-      return obj;
-    }));
-  }, [selectedObjectId]);
+    try {
+      commitObjects(treatment.mode === 'fillet' ? 'Fillet edges' : 'Chamfer edges', prev => prev.map(obj =>
+        obj.id === edgeEdit.objectId ? FeatureEngine.append(obj, feature) : obj
+      ));
+      setEdgeEdit(null);
+    } catch (error) {
+      console.error(`Failed to ${treatment.mode} edges:`, error);
+      alert(`${treatment.mode === 'fillet' ? 'Fillet' : 'Chamfer'} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [edgeEdit, commitObjects]);
 
-  const handleMirror = useCallback((axis: 'x' | 'y' | 'z') => {
+  const startShell = useCallback(() => {
     if (!selectedObjectId) return;
+    setEdgeEdit(null);
+    setPushPull(null);
+    setShellEdit({ objectId: selectedObjectId, faces: [] });
+  }, [selectedObjectId]);
 
-    setObjects(prev => prev.map(obj => {
-      if (obj.id === selectedObjectId) {
-        const newScale = { ...obj.scale };
-        newScale[axis] *= -1;
-        return { ...obj, scale: newScale };
+  // Every triangle of the faces picked for removal, for highlighting
+  const shellHighlight = useMemo(() => {
+    if (!shellEdit || shellEdit.faces.length === 0) return undefined;
+    const obj = objects.find(o => o.id === shellEdit.objectId);
+    if (!obj) return undefined;
+    const mesh = weldMesh(obj.mesh.geometry);
+    return Array.from(new Set(shellEdit.faces.flatMap(face => planarRegion(mesh, face))));
+  }, [shellEdit, objects]);
+
+  // Clicking a face toggles the whole flat face it belongs to
+  const handleShellFacePick = useCallback((face: SelectedFace | null) => {
+    if (!face || !shellEdit || face.objectId !== shellEdit.objectId) return;
+    const region = new Set(face.triangles);
+    if (region.size === 0) return;
+    const alreadySelected = shellEdit.faces.some(seed => region.has(seed));
+
+    setShellEdit({
+      ...shellEdit,
+      faces: alreadySelected
+        ? shellEdit.faces.filter(seed => !region.has(seed))
+        : [...shellEdit.faces, face.faceIndex]
+    });
+  }, [shellEdit]);
+
+  const handleApplyShell = useCallback((thickness: number, direction: ShellDirection) => {
+    if (!shellEdit) return;
+
+    const feature = FeatureEngine.create('shell', { faces: shellEdit.faces, thickness, direction });
+    try {
+      commitObjects('Shell', prev => prev.map(obj =>
+        obj.id === shellEdit.objectId ? FeatureEngine.append(obj, feature) : obj
+      ));
+      setShellEdit(null);
+    } catch (error) {
+      console.error('Failed to shell object:', error);
+      alert(`Shell failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [shellEdit, commitObjects]);
+
+  // Leave edge/face picking when the edited object goes away (delete, undo)
+  useEffect(() => {
+    if (edgeEdit && !objects.some(obj => obj.id === edgeEdit.objectId)) {
+      setEdgeEdit(null);
+    }
+    if (shellEdit && !objects.some(obj => obj.id === shellEdit.objectId)) {
+      setShellEdit(null);
+    }
+    if (pushPull && !objects.some(obj => obj.id === pushPull.objectId)) {
+      setPushPull(null);
+    }
+  }, [edgeEdit, shellEdit, pushPull, objects]);
+
+  const handleMirror = useCallback((axis: 'x' | 'y' | 'z') => {
+    if (selectedObjectIds.length === 0) return;
+
+    // Mirror about the plane through the selection's centroid so a group keeps its layout
+    const selectedObjs = objects.filter(obj => selectedObjectIds.includes(obj.id));
+    const pivot = selectedObjs.reduce((sum, obj) => sum + obj.position[axis], 0) / Math.max(1, selectedObjs.length);
+
+    // Reflecting T·R·Sc in world space gives T'·(S·R·S)·Sc·S: the position is reflected, the
+    // rotation angles about the other two axes change sign, and the geometry is mirrored
+    // locally by a feature so its axis stays editable in the tree
+    commitObjects(`Mirror ${axis.toUpperCase()}`, prev => prev.map(obj => {
+      if (selectedObjectIds.includes(obj.id)) {
+        const newPosition = new Vec3(obj.position.x, obj.position.y, obj.position.z);
+        newPosition[axis] = 2 * pivot - obj.position[axis];
+        const newRotation = new Vec3(-obj.rotation.x, -obj.rotation.y, -obj.rotation.z);
+        newRotation[axis] = obj.rotation[axis];
+        return {
+          ...FeatureEngine.append(obj, FeatureEngine.create('mirror', { axis })),
+          position: newPosition,
+          rotation: newRotation
+        };
       }
       return obj;
     }));
-  }, [selectedObjectId]);
+  }, [selectedObjectIds, objects, commitObjects]);
+
+  const handleBoolean = useCallback((operation: CSGOperation) => {
+    // Selection order matters for subtract: the first selected object is the one cut
+    const operands = selectedObjectIds
+      .map(id => objects.find(obj => obj.id === id))
+      .filter((obj): obj is RenderObject => !!obj);
+    if (operands.length < 2) return;
+
+    try {
+      const matrices = operands.map(obj => new THREE.Matrix4().compose(
+        new THREE.Vector3(obj.position.x, obj.position.y, obj.position.z),
+        new THREE.Quaternion().setFromEuler(new THREE.Euler(obj.rotation.x, obj.rotation.y, obj.rotation.z)),
+        new THREE.Vector3(obj.scale.x, obj.scale.y, obj.scale.z)
+      ));
+      const geometry = CSGEngine.apply(operation, operands.map((obj, i) => ({
+        geometry: obj.mesh.geometry,
+        matrix: matrices[i]
+      })));
+
+      // The result is built in world space; re-centre it so the gizmo sits on the new body
+      const center = new THREE.Vector3();
+      geometry.boundingBox!.getCenter(center);
+      geometry.translate(-center.x, -center.y, -center.z);
+
+      // Operand histories are kept inside the feature so their parameters stay editable
+      const feature = FeatureEngine.create('boolean', {
+        operation,
+        operands: operands.map((obj, i) => ({
+          features: FeatureEngine.featuresOf(obj),
+          matrix: matrices[i].toArray()
+        })),
+        origin: [center.x, center.y, center.z]
+      });
+
+      const base = operands[0];
+      const mesh = new THREE.Mesh(geometry, new THREE.MeshPhongMaterial({
+        color: new THREE.Color(base.color.x, base.color.y, base.color.z)
+      }));
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+
+      const newObject: RenderObject = {
+        id: generateId(operation),
+        mesh,
+        position: new Vec3(center.x, center.y, center.z),
+        rotation: new Vec3(0, 0, 0),
+        scale: new Vec3(1, 1, 1),
+        color: base.color,
+        selected: false,
+        visible: true,
+        features: [feature]
+      };
+      mesh.userData = { id: newObject.id };
+
+      // The operands are consumed, as in other CAD tools; undo brings them back
+      const operandIds = operands.map(obj => obj.id);
+      const label = `${operation.charAt(0).toUpperCase()}${operation.slice(1)} ${operands.length} objects`;
+      commitObjects(label, prev => [...prev.filter(obj => !operandIds.includes(obj.id)), newObject]);
+      setSelectedObjectIds([newObject.id]);
+
+      console.log('Boolean operation successful, object created:', newObject.id);
+    } catch (error) {
+      console.error(`Failed to ${operation} objects:`, error);
+      alert(`Boolean ${operation} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [selectedObjectIds, objects, commitObjects]);
 
   const handleResetTransform = useCallback(() => {
-    if (!selectedObjectId) return;
+    if (selectedObjectIds.length === 0) return;
 
-    setObjects(prev => prev.map(obj =>
-      obj.id === selectedObjectId
+    commitObjects('Reset transform', prev => prev.map(obj =>
+      selectedObjectIds.includes(obj.id)
         ? {
             ...obj,
             position: new Vec3(0, 0, 0),
@@ -372,37 +837,84 @@ function App() {
           }
         : obj
     ));
-  }, [selectedObjectId]);
+  }, [selectedObjectIds, commitObjects]);
 
   const selectAllObjects = useCallback(() => {
-    if (objects.length > 0) {
-      setSelectedObjectId(objects[0].id);
-    }
+    setSelectedObjectIds(objects.map(obj => obj.id));
   }, [objects]);
 
   const deselectAll = useCallback(() => {
-    setSelectedObjectId(null);
+    setSelectedObjectIds([]);
   }, []);
 
   const updateObject = useCallback((id: string, updates: Partial<RenderObject>) => {
-    setObjects(prev => prev.map(obj =>
+    const keys = Object.keys(updates).sort().join(',');
+    commitObjects('Edit properties', prev => prev.map(obj =>
       obj.id === id ? { ...obj, ...updates } : obj
-    ));
-  }, []);
+    ), `update-${id}-${keys}`);
+  }, [commitObjects]);
 
   const handleObjectTransform = useCallback((id: string, transform: { position?: Vec3; rotation?: Vec3; scale?: Vec3 }) => {
-    updateObject(id, transform);
-  }, [updateObject]);
+    // Gizmo drags fire continuously; the merge key folds one drag into a single step
+    commitObjects(`Transform ${id.split('-')[0]}`, prev => prev.map(obj =>
+      obj.id === id ? { ...obj, ...transform } : obj
+    ), `transform-${id}`);
+  }, [commitObjects]);
+
+  const handleObjectsTransform = useCallback((updates: ObjectTransformUpdate[]) => {
+    const byId = new Map(updates.map(update => [update.id, update]));
+    commitObjects(`Transform ${updates.length} objects`, prev => prev.map(obj => {
+      const update = byId.get(obj.id);
+      return update
+        ? { ...obj, position: update.position, rotation: update.rotation, scale: update.scale }
+        : obj;
+    }), 'transform-group');
+  }, [commitObjects]);
+
+  const handleGroupTranslate = useCallback((delta: { x: number; y: number; z: number }) => {
+    commitObjects(`Move ${selectedObjectIds.length} objects`, prev => prev.map(obj =>
+      selectedObjectIds.includes(obj.id)
+        ? { ...obj, position: new Vec3(obj.position.x + delta.x, obj.position.y + delta.y, obj.position.z + delta.z) }
+        : obj
+    ), 'group-translate');
+  }, [selectedObjectIds, commitObjects]);
+
+  /**
+   * Click selection. Additive clicks (Shift/Ctrl) toggle the object in the selection,
+   * plain clicks replace it; clicking empty space without a modifier clears it.
+   */
+  const selectObject = useCallback((id: string | null, additive: boolean = false) => {
+    if (!id) {
+      if (!additive) setSelectedObjectIds([]);
+      return;
+    }
+    setSelectedObjectIds(prev => {
+      if (!additive) return [id];
+      return prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id];
+    });
+  }, []);
 
-  const selectObject = useCallback((id: string | null) => {
-    setSelectedObjectId(id);
+  const handleBoxSelect = useCallback((ids: string[], additive: boolean) => {
+    setSelectedObjectIds(prev => additive ? [...prev, ...ids.filter(id => !prev.includes(id))] : ids);
   }, []);
 
+  const handleFeatureUpdate = useCallback((objectId: string, featureId: string, params: Partial<Feature['params']>) => {
+    try {
+      // Typing into a parameter field regenerates on every change; merge them into one step
+      commitObjects('Edit feature', prev => prev.map(obj =>
+        obj.id === objectId ? FeatureEngine.updateParams(obj, featureId, params) : obj
+      ), `feature-${featureId}`);
+    } catch (error) {
+      console.error('Failed to regenerate feature:', error);
+      alert(`Failed to regenerate feature: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [commitObjects]);
+
   const handleObjectVisibilityToggle = useCallback((id: string) => {
-    setObjects(prev => prev.map(obj =>
+    commitObjects('Toggle visibility', prev => prev.map(obj =>
       obj.id === id ? { ...obj, visible: !obj.visible } : obj
     ));
-  }, []);
+  }, [commitObjects]);
 
   const handleMeasurementToolChange = useCallback((tool: string | null) => {
     measurementEngine.setActiveTool(tool);
@@ -436,8 +948,52 @@ function App() {
     if (sketchEngineRef) {
       sketchEngineRef.clear();
     }
+    setSketchConstraints([]);
+    setConstraintResult(null);
+  }, [sketchEngineRef]);
+
+  /**
+   * Solves the sketch against a new constraint set and moves the drawn shapes to the solution.
+   */
+  const applySketchConstraints = useCallback((constraints: SketchConstraint[]) => {
+    setSketchConstraints(constraints);
+    if (constraints.length === 0) {
+      setConstraintResult(null);
+      return;
+    }
+    if (!sketchEngineRef) return;
+
+    const result = SketchConstraintSolver.solve(sketchEngineRef.getShapes(), constraints);
+    console.log(`Sketch solved: ${result.status}, ${result.dof} DOF, residual ${result.residual}`);
+
+    sketchEngineRef.replaceShapes(result.shapes);
+    setSketchShapes(result.shapes);
+    setConstraintResult({
+      status: result.status,
+      dof: result.dof,
+      converged: result.converged,
+      unsatisfied: result.unsatisfied,
+      residual: result.residual
+    });
   }, [sketchEngineRef]);
 
+  const handleAddConstraint = useCallback((type: SketchConstraintType, refs: SketchRef[], value?: number) => {
+    const constraint: SketchConstraint = { id: generateId('constraint'), type, refs, value };
+
+    // A fixed point is held where it is right now
+    if (type === 'fixed' && sketchEngineRef) {
+      const shape = (sketchEngineRef.getShapes() as SketchShape3D[]).find(s => s.id === refs[0].shapeId);
+      const position = shape?.points[refs[0].index]?.position;
+      if (position) constraint.target = [position.x, position.y, position.z];
+    }
+
+    applySketchConstraints([...sketchConstraints, constraint]);
+  }, [sketchEngineRef, sketchConstraints, applySketchConstraints]);
+
+  const handleRemoveConstraint = useCallback((id: string) => {
+    applySketchConstraints(sketchConstraints.filter(c => c.id !== id));
+  }, [sketchConstraints, applySketchConstraints]);
+
   const handleSketchSettingsChange = useCallback((settings: any) => {
     if (settings.snapToGrid !== undefined) {
       setSketchSettings(prev => ({ ...prev, snapToGrid: settings.snapToGrid }));
@@ -451,6 +1007,8 @@ function App() {
     if (settings.clearSketch && sketchEngineRef) {
       sketchEngineRef.clear();
       setSketchShapes([]);
+      setSketchConstraints([]);
+      setConstraintResult(null);
     }
     if (settings.finishSketch && sketchEngineRef) {
       sketchEngineRef.finishSketch();
@@ -466,7 +1024,9 @@ function App() {
       setSketchEngineRef({
         clear: settings.clear,
         finishSketch: settings.finishSketch,
-        getShapes: settings.getShapes
+        getShapes: settings.getShapes,
+        loadShapes: settings.loadShapes,
+        replaceShapes: settings.replaceShapes
       });
     }
   }, [sketchEngineRef]);
@@ -476,6 +1036,11 @@ function App() {
     [selectedObjectId, objects]
   );
 
+  const selectedObjects = useMemo(() =>
+    objects.filter(obj => selectedObjectIds.includes(obj.id)),
+    [selectedObjectIds, objects]
+  );
+
   const exportScene = useCallback((format: string) => {
     let data: string | null = null;
     let filename = '';
@@ -490,30 +1055,22 @@ function App() {
       meshClone.scale.set(obj.scale.x, obj.scale.y, obj.scale.z);
       sceneToExport.add(meshClone);
     });
+    // OBJ has no unit field; coordinates are written in the project unit
+    sceneToExport.scale.setScalar(1 / MM_PER_UNIT[unitSettings.unit]);
+    sceneToExport.updateMatrixWorld(true);
 
     try {
       switch (format) {
         case 'json':
-          const sceneData = {
-            objects: objects.map(obj => ({
-              id: obj.id,
-              type: obj.id.split('-')[0],
-              position: obj.position,
-              rotation: obj.rotation,
-              scale: obj.scale,
-              color: obj.color,
-              visible: obj.visible,
-            })),
-            lighting: lightSettings,
-            grid: gridSettings,
-            measurements: measurements,
-            metadata: {
-              exportedAt: new Date().toISOString(),
-              version: '3.0',
-              renderer: 'Three.js'
-            }
-          };
-          data = JSON.stringify(sceneData, null, 2);
+          data = ProjectSerializer.serialize({
+            objects,
+            sketches: sketchShapes,
+            sketchConstraints,
+            measurements,
+            lightSettings,
+            gridSettings,
+            units: unitSettings
+          });
           filename = 'threejs-cad-scene.json';
           mimeType = 'application/json';
           break;
@@ -525,12 +1082,28 @@ function App() {
           mimeType = 'text/plain';
           break;
 
-        case 'stl':
-          const stlExporter = new STLExporter();
-          data = stlExporter.parse(sceneToExport, { binary: false });
-          filename = 'threejs-cad-scene.stl';
-          mimeType = 'application/vnd.ms-pki.stl';
-          break;
+        case 'gltf':
+        case 'glb': {
+          // The glTF exporter is asynchronous (textures are encoded as images)
+          const binary = format === 'glb';
+          GLTFSceneExporter.export(objects, { binary, lights: exportLights ? lightSettings : undefined })
+            .then(result => downloadFile(
+              result,
+              `threejs-cad-scene.${format}`,
+              binary ? 'model/gltf-binary' : 'model/gltf+json'
+            ))
+            .catch(error => {
+              console.error(`Error exporting to ${format}:`, error);
+              alert(`Failed to export scene to ${format}. Check console for details.`);
+            });
+          return;
+        }
+
+        case '3mf': {
+          const file = ThreeMFSceneExporter.export(objects, 'threejs-cad-scene', unitSettings.unit);
+          downloadFile(file.data, file.filename, file.mimeType);
+          return;
+        }
 
         default:
           console.warn('Unsupported export format:', format);
@@ -538,21 +1111,80 @@ function App() {
       }
 
       if (data) {
-        const blob = new Blob([data], { type: mimeType });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        downloadFile(data, filename, mimeType);
       }
     } catch (error) {
       console.error(`Error exporting to ${format}:`, error);
       alert(`Failed to export scene to ${format}. Check console for details.`);
     }
-  }, [objects, lightSettings, gridSettings, measurements]);
+  }, [objects, sketchShapes, sketchConstraints, lightSettings, gridSettings, unitSettings, measurements, exportLights]);
+
+  const handleExportSTL = useCallback((options: STLExportOptions, scope: ExportScope) => {
+    const toExport = scope === 'selection'
+      ? objects.filter(obj => selectedObjectIds.includes(obj.id))
+      : objects.filter(obj => obj.visible);
+    try {
+      const file = STLSceneExporter.export(toExport, options, 'threejs-cad-scene');
+      downloadFile(file.data, file.filename, file.mimeType);
+    } catch (error) {
+      console.error('Error exporting to stl:', error);
+      alert(`STL export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [objects, selectedObjectIds]);
+
+  const saveProject = useCallback(() => {
+    try {
+      const data = ProjectSerializer.serialize({
+        objects,
+        sketches: sketchEngineRef ? sketchEngineRef.getShapes() : sketchShapes,
+        sketchConstraints,
+        measurements,
+        lightSettings,
+        gridSettings,
+        units: unitSettings
+      });
+      downloadFile(data, 'threejs-cad-project.cadproj', 'application/json');
+    } catch (error) {
+      console.error('Error saving project:', error);
+      alert('Failed to save project. Check console for details.');
+    }
+  }, [objects, sketchEngineRef, sketchShapes, sketchConstraints, measurements, lightSettings, gridSettings, unitSettings]);
+
+  const openProject = useCallback(async (file: File) => {
+    try {
+      const text = await readFileAsText(file);
+      const project = await ProjectSerializer.deserialize(text);
+
+      // A loaded project starts a fresh history
+      applyObjects(project.objects);
+      history.clear();
+      setSelectedObjectIds([]);
+      measurementEngine.setUnits(project.units);
+      measurementEngine.setMeasurements(project.measurements);
+      setMeasurements(measurementEngine.getMeasurements());
+      setLightSettings(project.lightSettings);
+      setGridSettings(project.gridSettings);
+      setUnitSettings(project.units);
+      setSketchShapes(project.sketches);
+      if (sketchEngineRef?.loadShapes) {
+        sketchEngineRef.loadShapes(project.sketches);
+      }
+      applySketchConstraints(project.sketchConstraints);
+
+      console.log(`Project loaded: ${project.objects.length} objects`);
+    } catch (error) {
+      console.error('Error opening project:', error);
+      alert(`Failed to open project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [measurementEngine, sketchEngineRef, applyObjects, applySketchConstraints, history]);
+
+  const handleProjectFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      openProject(file);
+    }
+    e.target.value = '';
+  }, [openProject]);
 
   const handleMouseDownLeft = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
@@ -594,7 +1226,10 @@ function App() {
         onDelete={deleteSelected}
         onSelectAll={selectAllObjects}
         onDeselect={deselectAll}
-        selectedObjectId={selectedObjectId}
+        onSave={saveProject}
+        onUndo={undo}
+        onRedo={redo}
+        hasSelection={selectedObjectIds.length > 0}
       />
 
       <header className="bg-gray-800 border-b border-gray-700 px-6 py-3">
@@ -654,16 +1289,60 @@ function App() {
                     Export as .obj
                   </button>
                   <button
-                    onClick={() => { exportScene('stl'); setExportDropdownOpen(false); }}
-                    className="block w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-600 rounded-b-lg"
+                    onClick={() => { setExportDialogOpen(true); setExportDropdownOpen(false); }}
+                    className="block w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-600"
                   >
-                    Export as .stl
+                    Export as .stl…
                   </button>
+                  <button
+                    onClick={() => { exportScene('3mf'); setExportDropdownOpen(false); }}
+                    className="block w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-600"
+                  >
+                    Export as .3mf
+                  </button>
+                  <button
+                    onClick={() => { exportScene('glb'); setExportDropdownOpen(false); }}
+                    className="block w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-600"
+                  >
+                    Export as .glb
+                  </button>
+                  <button
+                    onClick={() => { exportScene('gltf'); setExportDropdownOpen(false); }}
+                    className="block w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-600"
+                  >
+                    Export as .gltf
+                  </button>
+                  <label className="flex items-center gap-2 px-4 py-2 text-xs text-gray-300 border-t border-gray-600 rounded-b-lg cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={exportLights}
+                      onChange={e => setExportLights(e.target.checked)}
+                    />
+                    Lights in glTF
+                  </label>
                 </div>
               )}
             </div>
 
-            <button className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm">
+            <button
+              onClick={() => projectInputRef.current?.click()}
+              className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm"
+            >
+              <FolderOpen size={16} />
+              Open Project
+            </button>
+            <input
+              ref={projectInputRef}
+              type="file"
+              accept=".cadproj,.json"
+              onChange={handleProjectFileSelect}
+              className="hidden"
+            />
+            <button
+              onClick={saveProject}
+              className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm"
+              title="Save Project (Ctrl+S)"
+            >
               <Save size={16} />
               Save Project
             </button>
@@ -700,11 +1379,16 @@ function App() {
             onToggleMeasurement={() => setMeasurementPanelOpen(!measurementPanelOpen)}
             onToggleLighting={() => setLightingPanelOpen(!lightingPanelOpen)}
             onToggleGrid={() => setGridPanelOpen(!gridPanelOpen)}
+            onUndo={undo}
+            onRedo={redo}
+            canUndo={historyState.canUndo}
+            canRedo={historyState.canRedo}
             hasSelection={selectedObjectId !== null}
             measurementActive={measurementPanelOpen}
             lightingPanelOpen={lightingPanelOpen}
             gridPanelOpen={gridPanelOpen}
             sketchMode={sketchMode}
+            units={unitSettings}
           />
         </div>
         <div
@@ -716,16 +1400,27 @@ function App() {
         <div ref={viewportRef} className="flex-1 relative h-full">
           <Viewport3D
             objects={objects}
-            selectedObjectId={selectedObjectId}
-            onObjectSelect={setSelectedObjectId}
+            selectedObjectIds={selectedObjectIds}
+            onObjectSelect={selectObject}
+            onBoxSelect={handleBoxSelect}
             lightSettings={lightSettings}
             gridSettings={gridSettings}
             onMeasurementPoint={handleMeasurementPoint}
             measurementActive={measurementEngine.getActiveTool() !== null}
             transformMode={transformMode}
             onObjectTransform={handleObjectTransform}
+            onObjectsTransform={handleObjectsTransform}
             sketchMode={sketchMode}
             onSketchComplete={handleSketchExtrude}
+            pickObjectId={edgeEdit?.objectId ?? shellEdit?.objectId ?? pushPull?.objectId ?? null}
+            pickMode={edgeEdit ? 'edge' : 'face'}
+            highlightedEdges={edgeEdit?.edges}
+            highlightedFaces={shellHighlight}
+            onEdgePick={handleEdgePick}
+            onFacePick={shellEdit ? handleShellFacePick : handlePushPullFacePick}
+            pushPullHandle={pushPullHandle}
+            onPushPullDrag={handlePushPullPreview}
+            onPushPullRelease={handlePushPullDistance}
             sketchTool={sketchTool}
             sketchModeType={sketchModeType}
             sketchSettings={sketchSettings}
@@ -769,6 +1464,7 @@ function App() {
                   onDeleteMeasurement={handleDeleteMeasurement}
                   onClearAll={handleClearMeasurements}
                   tempPoints={measurementEngine.getTempPoints().length}
+                  units={unitSettings}
                 />
               </CollapsiblePanel>
 
@@ -793,6 +1489,8 @@ function App() {
                 <GridPanel
                   settings={gridSettings}
                   onSettingsChange={setGridSettings}
+                  units={unitSettings}
+                  onUnitsChange={setUnitSettings}
                 />
               </CollapsiblePanel>
 
@@ -804,9 +1502,11 @@ function App() {
               >
                 <SceneHierarchy
                   objects={objects}
-                  selectedObjectId={selectedObjectId}
+                  selectedObjectIds={selectedObjectIds}
                   onObjectSelect={selectObject}
                   onObjectVisibilityToggle={handleObjectVisibilityToggle}
+                  onFeatureUpdate={handleFeatureUpdate}
+                  units={unitSettings}
                 />
               </CollapsiblePanel>
               <CollapsiblePanel
@@ -818,6 +1518,23 @@ function App() {
                 <PropertiesPanel
                   selectedObject={selectedObject}
                   onObjectUpdate={updateObject}
+                  selectedObjects={selectedObjects}
+                  onGroupTranslate={handleGroupTranslate}
+                  units={unitSettings}
+                />
+              </CollapsiblePanel>
+              <CollapsiblePanel
+                title="History"
+                isOpen={historyPanelOpen}
+                onToggle={() => setHistoryPanelOpen(!historyPanelOpen)}
+                minimizedIcon={<History size={18} className="text-gray-400" />}
+              >
+                <HistoryPanel
+                  history={historyState}
+                  onUndo={undo}
+                  onRedo={redo}
+                  onJumpTo={(position) => history.goTo(position)}
+                  onClear={() => history.clear()}
                 />
               </CollapsiblePanel>
             </div>
@@ -864,6 +1581,14 @@ function App() {
                 <ClipboardList size={18} />
                 <span className="hidden group-hover:inline-block ml-2 text-sm text-gray-200">Properties</span>
               </button>
+              <button
+                onClick={() => { setIsRightSidebarOpen(true); setHistoryPanelOpen(!historyPanelOpen); }}
+                className="p-2 rounded-lg hover:bg-gray-600 text-gray-400 relative group-hover:w-full group-hover:flex group-hover:items-center group-hover:justify-start"
+                title="History"
+              >
+                <History size={18} />
+                <span className="hidden group-hover:inline-block ml-2 text-sm text-gray-200">History</span>
+              </button>
             </div>
           )}
         </div>
@@ -873,17 +1598,23 @@ function App() {
         isOpen={fileImportOpen}
         onClose={() => setFileImportOpen(false)}
         onFilesImported={handleFilesImported}
+        units={unitSettings}
       />
-      {!sketchMode && activeTool !== 'face-select' && (
+      {!sketchMode && activeTool !== 'face-select' && !edgeEdit && !shellEdit && !pushPull && (
         <ContextToolbar
-          selectedObjectId={selectedObjectId}
+          selectionCount={selectedObjectIds.length}
           transformMode={transformMode}
           onTransformModeChange={setTransformMode}
           onDuplicate={duplicateSelected}
           onDelete={deleteSelected}
           onToggleVisibility={toggleSelectedVisibility}
-          onOffsetFace={handleOffsetFace}
+          onOffsetFace={startPushPull}
           onOffsetBody={handleOffsetBody}
+          onEdgeTreatment={startEdgeTreatment}
+          onShell={startShell}
+          onUnion={() => handleBoolean('union')}
+          onSubtract={() => handleBoolean('subtract')}
+          onIntersect={() => handleBoolean('intersect')}
           onMirrorX={() => handleMirror('x')}
           onMirrorY={() => handleMirror('y')}
           onMirrorZ={() => handleMirror('z')}
@@ -896,7 +1627,11 @@ function App() {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-6">
             <span>Objects: {objects.length}</span>
-            <span>Selected: {selectedObject ? selectedObject.id.split('-')[0] : 'None'}</span>
+            <span>
+              Selected: {selectedObjectIds.length > 1
+                ? `${selectedObjectIds.length} objects`
+                : selectedObject ? selectedObject.id.split('-')[0] : 'None'}
+            </span>
             <span>Tool: {activeTool}</span>
             <span>Transform: {transformMode.toUpperCase()}</span>
             <span>Measurements: {measurements.length}</span>
@@ -916,6 +1651,9 @@ function App() {
         isOpen={sketchPanelOpen}
         onClose={handleCloseSketch}
         onExtrude={handleSketchExtrude}
+        onRevolve={() => setRevolveDialogOpen(true)}
+        onSweep={() => setSweepLoftDialog({ mode: 'sweep', shapes: sketchEngineRef ? sketchEngineRef.getShapes() : [] })}
+        onLoft={() => setSweepLoftDialog({ mode: 'loft', shapes: sketchEngineRef ? sketchEngineRef.getShapes() : [] })}
         onToolChange={setSketchTool}
         onModeChange={setSketchModeType}
         onSettingsChange={handleSketchSettingsChange}
@@ -925,15 +1663,73 @@ function App() {
         gridSize={sketchSettings.gridSize}
         workplaneVisible={sketchSettings.workplaneVisible}
         currentShapes={sketchEngineRef ? sketchEngineRef.getShapes() : []}
+        constraints={sketchConstraints}
+        constraintResult={constraintResult}
+        onAddConstraint={handleAddConstraint}
+        onRemoveConstraint={handleRemoveConstraint}
+      />
+
+      <ExportDialog
+        isOpen={exportDialogOpen}
+        onClose={() => setExportDialogOpen(false)}
+        onExport={handleExportSTL}
+        sceneCount={objects.filter(obj => obj.visible).length}
+        selectionCount={selectedObjectIds.length}
+        defaultUnit={unitSettings.unit}
+      />
+      <RevolveDialog
+        isOpen={revolveDialogOpen}
+        onClose={() => setRevolveDialogOpen(false)}
+        onRevolve={handleSketchRevolve}
+        shapes={sketchEngineRef ? sketchEngineRef.getShapes() : []}
       />
 
+      <SweepLoftDialog
+        isOpen={sweepLoftDialog !== null}
+        mode={sweepLoftDialog?.mode ?? 'sweep'}
+        onClose={() => setSweepLoftDialog(null)}
+        onSweep={handleSketchSweep}
+        onLoft={handleSketchLoft}
+        shapes={sweepLoftDialog?.shapes ?? []}
+      />
+
+      {edgeEdit && (
+        <EdgeTreatmentPanel
+          edgeCount={edgeEdit.edges.length}
+          onApply={handleApplyEdgeTreatment}
+          onClearEdges={() => setEdgeEdit({ ...edgeEdit, edges: [] })}
+          onClose={() => setEdgeEdit(null)}
+          units={unitSettings}
+        />
+      )}
+
+      {shellEdit && (
+        <ShellPanel
+          faceCount={shellEdit.faces.length}
+          onApply={handleApplyShell}
+          onClearFaces={() => setShellEdit({ ...shellEdit, faces: [] })}
+          onClose={() => setShellEdit(null)}
+          units={unitSettings}
+        />
+      )}
+
+      {pushPull && (
+        <PushPullPanel
+          distance={pushPullDistance}
+          error={pushPullError}
+          onDistanceChange={handlePushPullDistance}
+          onClose={() => setPushPull(null)}
+          units={unitSettings}
+        />
+      )}
+
       {sketchShapes.length > 0 && (
         <div className="fixed bottom-4 right-4 bg-gray-800 border border-gray-600 rounded-lg p-4 max-w-sm">
           <h3 className="text-sm font-semibold text-gray-300 mb-2">Current Sketch Shapes:</h3>
           <div className="text-xs text-gray-400 space-y-1 max-h-32 overflow-y-auto">
             {sketchShapes.map(shape => (
               <div key={shape.id} className="flex justify-between">
-                <span>{shape.type.toUpperCase()}</span>
+                <span>{shape.group ? `${shape.group} / ` : ''}{shape.type.toUpperCase()}</span>
                 <span>{shape.points.length} pts</span>
               </div>
             ))}
@@ -1,10 +1,15 @@
 import React, { useState } from 'react';
 import { X, Square, Circle, Minus, Hexagon as Polygon, Grid, Target, RotateCw, Plane, Layers } from 'lucide-react';
+import { SketchConstraintsPanel } from './SketchConstraintsPanel';
+import { ConstraintSolveResult, SketchConstraint, SketchConstraintType, SketchRef } from '../utils/constraints';
 
 interface AdvancedSketchPanelProps {
   isOpen: boolean;
   onClose: () => void;
   onExtrude: (shapes: any[]) => void;
+  onRevolve?: () => void;
+  onSweep?: () => void;
+  onLoft?: () => void;
   onToolChange: (tool: string) => void;
   onModeChange: (mode: 'surface' | 'plane' | 'free') => void;
   onSettingsChange: (settings: any) => void;
@@ -14,12 +19,19 @@ interface AdvancedSketchPanelProps {
   gridSize: number;
   workplaneVisible: boolean;
   currentShapes: any[];
+  constraints?: SketchConstraint[];
+  constraintResult?: Omit<ConstraintSolveResult, 'shapes'> | null;
+  onAddConstraint?: (type: SketchConstraintType, refs: SketchRef[], value?: number) => void;
+  onRemoveConstraint?: (id: string) => void;
 }
 
 export const AdvancedSketchPanel: React.FC<AdvancedSketchPanelProps> = ({
   isOpen,
   onClose,
   onExtrude,
+  onRevolve,
+  onSweep,
+  onLoft,
   onToolChange,
   onModeChange,
   onSettingsChange,
@@ -28,7 +40,11 @@ export const AdvancedSketchPanel: React.FC<AdvancedSketchPanelProps> = ({
   snapToGrid,
   gridSize,
   workplaneVisible,
-  currentShapes
+  currentShapes,
+  constraints = [],
+  constraintResult = null,
+  onAddConstraint,
+  onRemoveConstraint
 }) => {
   const handleExtrude = () => {
     if (currentShapes.length > 0) {
@@ -175,6 +191,17 @@ export const AdvancedSketchPanel: React.FC<AdvancedSketchPanelProps> = ({
             </label>
           </div>
 
+          {/* Constraints */}
+          {onAddConstraint && onRemoveConstraint && (
+            <SketchConstraintsPanel
+              shapes={currentShapes}
+              constraints={constraints}
+              solveResult={constraintResult}
+              onAddConstraint={onAddConstraint}
+              onRemoveConstraint={onRemoveConstraint}
+            />
+          )}
+
           {/* Actions */}
           <div className="flex gap-2">
             <button
@@ -196,6 +223,25 @@ export const AdvancedSketchPanel: React.FC<AdvancedSketchPanelProps> = ({
               Extrude
             </button>
           </div>
+
+          {/* Other sketch-based features */}
+          {(onRevolve || onSweep || onLoft) && (
+            <div className="flex gap-2 mt-2">
+              {[
+                { label: 'Revolve', action: onRevolve },
+                { label: 'Sweep', action: onSweep },
+                { label: 'Loft', action: onLoft }
+              ].filter(item => item.action).map(item => (
+                <button
+                  key={item.label}
+                  onClick={() => currentShapes.length > 0 && item.action!()}
+                  className="flex-1 px-3 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg transition-colors text-xs font-medium"
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Instructions Overlay */}
@@ -2,11 +2,11 @@ import React from 'react';
 import { 
   Move, RotateCcw, Scale, Copy, Trash2, Eye, EyeOff, 
   Layers, Minus, Plus, FlipHorizontal, FlipVertical,
-  CornerUpRight, CornerDownLeft, Maximize2
+  CornerUpRight, CornerDownLeft, Maximize2, Combine, MinusSquare, Blend, Radius, Box
 } from 'lucide-react';
 
 interface ContextToolbarProps {
-  selectedObjectId: string | null;
+  selectionCount: number;
   transformMode: 'translate' | 'rotate' | 'scale';
   onTransformModeChange: (mode: 'translate' | 'rotate' | 'scale') => void;
   onDuplicate: () => void;
@@ -14,6 +14,11 @@ interface ContextToolbarProps {
   onToggleVisibility: () => void;
   onOffsetFace: () => void;
   onOffsetBody: () => void;
+  onEdgeTreatment: () => void;
+  onShell: () => void;
+  onUnion: () => void;
+  onSubtract: () => void;
+  onIntersect: () => void;
   onMirrorX: () => void;
   onMirrorY: () => void;
   onMirrorZ: () => void;
@@ -22,7 +27,7 @@ interface ContextToolbarProps {
 }
 
 export const ContextToolbar: React.FC<ContextToolbarProps> = ({
-  selectedObjectId,
+  selectionCount,
   transformMode,
   onTransformModeChange,
   onDuplicate,
@@ -30,13 +35,18 @@ export const ContextToolbar: React.FC<ContextToolbarProps> = ({
   onToggleVisibility,
   onOffsetFace,
   onOffsetBody,
+  onEdgeTreatment,
+  onShell,
+  onUnion,
+  onSubtract,
+  onIntersect,
   onMirrorX,
   onMirrorY,
   onMirrorZ,
   onResetTransform,
   isVisible
 }) => {
-  if (!selectedObjectId) return null;
+  if (selectionCount === 0) return null;
 
   const transformTools = [
     { 
@@ -69,8 +79,17 @@ export const ContextToolbar: React.FC<ContextToolbarProps> = ({
   ];
 
   const offsetTools = [
-    { icon: CornerUpRight, label: 'Offset Face', action: onOffsetFace },
-    { icon: Maximize2, label: 'Offset Body', action: onOffsetBody }
+    { icon: CornerUpRight, label: 'Push/Pull Face', action: onOffsetFace },
+    { icon: Maximize2, label: 'Offset Body', action: onOffsetBody },
+    { icon: Radius, label: 'Fillet / Chamfer Edges', action: onEdgeTreatment },
+    { icon: Box, label: 'Shell', action: onShell }
+  ];
+
+  // Boolean tools need at least two bodies; subtract cuts the rest from the first selected
+  const booleanTools = [
+    { icon: Combine, label: 'Union', action: onUnion },
+    { icon: MinusSquare, label: 'Subtract (first selected minus others)', action: onSubtract },
+    { icon: Blend, label: 'Intersect', action: onIntersect }
   ];
 
   const mirrorTools = [
@@ -83,6 +102,16 @@ export const ContextToolbar: React.FC<ContextToolbarProps> = ({
     <div className="fixed bottom-20 left-1/2 transform -translate-x-1/2 z-50">
       <div className="bg-gray-800 rounded-xl shadow-2xl border border-gray-700 p-2">
         <div className="flex items-center gap-1">
+          {/* Selection count for group operations */}
+          {selectionCount > 1 && (
+            <div
+              className="px-2 py-1 mr-1 rounded-md bg-blue-600 text-white text-xs font-semibold"
+              title="Operations apply to every selected object"
+            >
+              {selectionCount} selected
+            </div>
+          )}
+
           {/* Transform Tools */}
           <div className="flex items-center gap-1 pr-2 border-r border-gray-600">
             {transformTools.map(tool => {
@@ -124,6 +153,25 @@ export const ContextToolbar: React.FC<ContextToolbarProps> = ({
             })}
           </div>
 
+          {/* Boolean Tools */}
+          {selectionCount > 1 && (
+            <div className="flex items-center gap-1 px-2 border-r border-gray-600">
+              {booleanTools.map((tool, index) => {
+                const IconComponent = tool.icon;
+                return (
+                  <button
+                    key={index}
+                    onClick={tool.action}
+                    className="flex items-center gap-1 px-2 py-2 rounded-lg text-gray-300 hover:bg-cyan-600 hover:text-white transition-all duration-200"
+                    title={tool.label}
+                  >
+                    <IconComponent size={16} />
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {/* Mirror Tools */}
           <div className="flex items-center gap-1 px-2 border-r border-gray-600">
             {mirrorTools.map((tool, index) => {
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { X, Radius, Check, Eraser } from 'lucide-react';
+import { UnitSettings } from '../utils/units';
+import { LengthInput } from './LengthInput';
+
+export type EdgeTreatment =
+  | { mode: 'fillet'; radius: number; segments: number }
+  | { mode: 'chamfer'; distance: number; angle: number | null };
+
+interface EdgeTreatmentPanelProps {
+  edgeCount: number;
+  onApply: (treatment: EdgeTreatment) => void;
+  onClearEdges: () => void;
+  onClose: () => void;
+  units: UnitSettings;
+}
+
+export const EdgeTreatmentPanel: React.FC<EdgeTreatmentPanelProps> = ({
+  edgeCount,
+  onApply,
+  onClearEdges,
+  onClose,
+  units
+}) => {
+  const [mode, setMode] = useState<'fillet' | 'chamfer'>('fillet');
+  const [radius, setRadius] = useState(0.2);
+  const [distance, setDistance] = useState(0.2);
+  // Count and angle inputs keep their text so partial entries like "0." can be typed
+  const [segments, setSegments] = useState('8');
+  const [useAngle, setUseAngle] = useState(false);
+  const [angle, setAngle] = useState('45');
+
+  const parsed = {
+    segments: parseInt(segments, 10),
+    angle: parseFloat(angle)
+  };
+  const valid = mode === 'fillet'
+    ? radius > 0 && parsed.segments >= 1
+    : distance > 0 && (!useAngle || (parsed.angle > 0 && parsed.angle < 180));
+
+  const handleApply = () => {
+    if (edgeCount === 0 || !valid) return;
+    onApply(mode === 'fillet'
+      ? { mode, radius, segments: parsed.segments }
+      : { mode, distance, angle: useAngle ? parsed.angle : null });
+  };
+
+  const numberInput = (value: string, onChange: (value: string) => void, step: number) => (
+    <input
+      type="number"
+      step={step}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-20 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none"
+    />
+  );
+
+  const lengthInput = (value: number, onChange: (value: number) => void) => (
+    <LengthInput
+      value={value}
+      units={units}
+      onChange={onChange}
+      className="w-16 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none"
+    />
+  );
+
+  return (
+    <div className="fixed top-20 left-4 bg-gray-900 bg-opacity-95 rounded-xl shadow-2xl border border-gray-700 p-4 w-64 z-40">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Radius size={16} className="text-blue-400" />
+          <h2 className="text-sm font-bold text-white">Fillet / Chamfer</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition-colors p-1 hover:bg-gray-700 rounded"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Mode */}
+      <div className="grid grid-cols-2 gap-1 mb-3">
+        {(['fillet', 'chamfer'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`px-2 py-1 rounded text-xs transition-colors ${
+              mode === option ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {option === 'fillet' ? 'Fillet' : 'Chamfer'}
+          </button>
+        ))}
+      </div>
+
+      {/* Parameters */}
+      <div className="space-y-2 mb-3">
+        {mode === 'fillet' ? (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-300">Radius</span>
+              {lengthInput(radius, setRadius)}
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-300">Segments</span>
+              {numberInput(segments, setSegments, 1)}
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-300">Distance</span>
+              {lengthInput(distance, setDistance)}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={useAngle}
+                onChange={(e) => setUseAngle(e.target.checked)}
+                className="rounded"
+              />
+              Distance-angle
+            </label>
+            {useAngle && (
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-300">Angle (°)</span>
+                {numberInput(angle, setAngle, 5)}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Selection */}
+      <div className="flex items-center justify-between mb-3 p-2 bg-gray-800 rounded text-xs">
+        <span className="text-gray-300">
+          {edgeCount === 0 ? 'Click edges on the model' : `${edgeCount} edge segment${edgeCount !== 1 ? 's' : ''} selected`}
+        </span>
+        {edgeCount > 0 && (
+          <button
+            onClick={onClearEdges}
+            className="text-gray-400 hover:text-white"
+            title="Clear edge selection"
+          >
+            <Eraser size={12} />
+          </button>
+        )}
+      </div>
+
+      {/* Actions */}
+      <button
+        onClick={handleApply}
+        disabled={edgeCount === 0 || !valid}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg transition-colors text-xs font-medium"
+      >
+        <Check size={14} />
+        Apply {mode === 'fillet' ? 'Fillet' : 'Chamfer'}
+      </button>
+    </div>
+  );
+};
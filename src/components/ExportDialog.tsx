@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { STLExportOptions } from '../utils/STLSceneExporter';
+import { LENGTH_UNITS, LengthUnit } from '../utils/units';
+
+export type ExportScope = 'scene' | 'selection';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (options: STLExportOptions, scope: ExportScope) => void;
+  sceneCount: number;
+  selectionCount: number;
+  // Project unit, preselected as the output unit
+  defaultUnit: LengthUnit;
+}
+
+interface ChoiceProps<T extends string> {
+  label: string;
+  value: T;
+  options: Array<{ value: T; label: string; disabled?: boolean }>;
+  onChange: (value: T) => void;
+}
+
+const Choice = <T extends string>({ label, value, options, onChange }: ChoiceProps<T>) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-300 mb-2">{label}</label>
+    <div className={`grid gap-1 ${options.length === 5 ? 'grid-cols-5' : options.length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+      {options.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          disabled={option.disabled}
+          className={`px-2 py-1.5 rounded text-sm transition-colors disabled:opacity-40 ${
+            value === option.value ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  isOpen,
+  onClose,
+  onExport,
+  sceneCount,
+  selectionCount,
+  defaultUnit
+}) => {
+  const [binary, setBinary] = useState(true);
+  const [scope, setScope] = useState<ExportScope>('scene');
+  const [perObject, setPerObject] = useState(false);
+  const [unit, setUnit] = useState<LengthUnit>(defaultUnit);
+
+  useEffect(() => {
+    if (isOpen) setUnit(defaultUnit);
+  }, [isOpen, defaultUnit]);
+
+  // Fall back to the whole scene when nothing is selected any more
+  const effectiveScope = scope === 'selection' && selectionCount === 0 ? 'scene' : scope;
+  const count = effectiveScope === 'selection' ? selectionCount : sceneCount;
+
+  const handleExport = () => {
+    onExport({ binary, perObject, unit }, effectiveScope);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-xl shadow-2xl border border-gray-700 p-6 max-w-md w-full mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-green-600 rounded-lg">
+              <Download size={20} className="text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Export STL</h2>
+              <p className="text-sm text-gray-400">Write meshes for printing</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors p-1 hover:bg-gray-700 rounded"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Options */}
+        <div className="space-y-4 mb-6">
+          <Choice
+            label="Encoding"
+            value={binary ? 'binary' : 'ascii'}
+            options={[{ value: 'binary', label: 'Binary' }, { value: 'ascii', label: 'ASCII' }]}
+            onChange={value => setBinary(value === 'binary')}
+          />
+          <Choice
+            label="Objects"
+            value={effectiveScope}
+            options={[
+              { value: 'scene', label: 'Whole scene' },
+              { value: 'selection', label: `Selection (${selectionCount})`, disabled: selectionCount === 0 }
+            ]}
+            onChange={setScope}
+          />
+          <Choice
+            label="Files"
+            value={perObject ? 'split' : 'single'}
+            options={[{ value: 'single', label: 'One STL' }, { value: 'split', label: 'One per object (.zip)' }]}
+            onChange={value => setPerObject(value === 'split')}
+          />
+          <Choice
+            label="Output units"
+            value={unit}
+            options={LENGTH_UNITS.map(({ value }) => ({ value, label: value }))}
+            onChange={setUnit}
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={count === 0}
+            className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+          >
+            <Download size={16} />
+            Export {count} object{count !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import * as THREE from 'three';
 import { FaceSelector, SelectedFace } from './FaceSelector';
 import { MeasurementDisplay, MeasurementLine } from './MeasurementDisplay';
 import { Vec3 } from '../utils/math';
+import { UnitSettings, formatLength, toProjectUnit } from '../utils/units';
 
 export interface FaceMeasurementToolProps {
   scene: THREE.Scene;
@@ -11,6 +12,8 @@ export interface FaceMeasurementToolProps {
   objects: Array<{ id: string; mesh: THREE.Mesh }>;
   enabled: boolean;
   onMeasurementChange?: (measurements: MeasurementLine[]) => void;
+  // Unit distances are given in; the scene is in millimetres
+  units: UnitSettings;
 }
 
 export const FaceMeasurementTool: React.FC<FaceMeasurementToolProps> = ({
@@ -19,13 +22,17 @@ export const FaceMeasurementTool: React.FC<FaceMeasurementToolProps> = ({
   renderer,
   objects,
   enabled,
-  onMeasurementChange
+  onMeasurementChange,
+  units
 }) => {
   const faceSelectorRef = useRef<FaceSelector | null>(null);
   const measurementDisplayRef = useRef<MeasurementDisplay | null>(null);
   const [selectedFaces, setSelectedFaces] = useState<SelectedFace[]>([]);
   const [measurements, setMeasurements] = useState<MeasurementLine[]>([]);
   const [measurementMode, setMeasurementMode] = useState<'distance' | 'angle' | 'area'>('distance');
+  // The face selector keeps the first handler it was given, so the unit is read through a ref
+  const unitsRef = useRef(units);
+  unitsRef.current = units;
 
   // Initialize face selector and measurement display
   useEffect(() => {
@@ -65,6 +72,14 @@ export const FaceMeasurementTool: React.FC<FaceMeasurementToolProps> = ({
     faceSelectorRef.current?.updateObjects(objects);
   }, [objects]);
 
+  // Restate existing distances in a changed unit
+  useEffect(() => {
+    setMeasurements(prev => prev.map(m => {
+      const distance = m.start.distanceTo(m.end);
+      return { ...m, distance: toProjectUnit(distance, units), label: formatLength(distance, units) };
+    }));
+  }, [units]);
+
   // Update measurements display
   useEffect(() => {
     measurementDisplayRef.current?.updateMeasurements(measurements);
@@ -92,14 +107,13 @@ export const FaceMeasurementTool: React.FC<FaceMeasurementToolProps> = ({
 
   const createDistanceMeasurement = (face1: SelectedFace, face2: SelectedFace) => {
     const distance = face1.center.distanceTo(face2.center);
-    const distanceInMm = distance * 1000; // Convert to mm (assuming units are in meters)
-    
+
     const measurement: MeasurementLine = {
       id: `distance-${Date.now()}`,
       start: face1.center,
       end: face2.center,
-      distance: distanceInMm,
-      label: `${distanceInMm.toFixed(1)} mm`,
+      distance: toProjectUnit(distance, unitsRef.current),
+      label: formatLength(distance, unitsRef.current),
       color: 0xff6b35
     };
 
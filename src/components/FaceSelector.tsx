@@ -1,23 +1,42 @@
 import React, { useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
 import { Vec3 } from '../utils/math';
+import { directedEdges, planarRegion, weldMesh } from '../three/topology';
 
 export interface SelectedFace {
+  // The picked triangle
   faceIndex: number;
   objectId: string;
+  // All coplanar connected triangles forming the logical face, including faceIndex
+  triangles: number[];
   normal: THREE.Vector3;
   center: THREE.Vector3;
+  // Corners of the face's triangles in world space, three per triangle
   vertices: THREE.Vector3[];
+  // Outline of the face in world space
   edges: Array<{ start: THREE.Vector3; end: THREE.Vector3 }>;
 }
 
+export interface SelectedEdge {
+  objectId: string;
+  // The picked triangle edge in world space and in the mesh's local space
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+  localStart: THREE.Vector3;
+  localEnd: THREE.Vector3;
+}
+
 export interface FaceSelectorProps {
   scene: THREE.Scene;
   camera: THREE.PerspectiveCamera;
   renderer: THREE.WebGLRenderer;
   objects: Array<{ id: string; mesh: THREE.Mesh }>;
   onFaceSelected?: (face: SelectedFace | null) => void;
+  onEdgeSelected?: (edge: SelectedEdge | null) => void;
   enabled: boolean;
+  selectionMode?: 'face' | 'edge';
+  // Owners that draw their own markers (see showFaces/showEdges) can turn the pick highlight off
+  highlightSelection?: boolean;
 }
 
 export class FaceSelector {
@@ -31,9 +50,14 @@ export class FaceSelector {
   private selectedFace: SelectedFace | null = null;
   private faceHighlight: THREE.Mesh | null = null;
   private edgeHighlights: THREE.LineSegments[] = [];
+  private markedEdges: THREE.LineSegments | null = null;
+  private markedFaces: THREE.Mesh | null = null;
   private onFaceSelected?: (face: SelectedFace | null) => void;
+  private onEdgeSelected?: (edge: SelectedEdge | null) => void;
   
   private enabled: boolean = false;
+  private selectionMode: 'face' | 'edge' = 'face';
+  private highlightSelection: boolean = true;
 
   constructor(props: FaceSelectorProps) {
     this.scene = props.scene;
@@ -41,7 +65,10 @@ export class FaceSelector {
     this.renderer = props.renderer;
     this.objects = props.objects;
     this.onFaceSelected = props.onFaceSelected;
+    this.onEdgeSelected = props.onEdgeSelected;
     this.enabled = props.enabled;
+    this.selectionMode = props.selectionMode ?? 'face';
+    this.highlightSelection = props.highlightSelection ?? true;
     
     this.raycaster = new THREE.Raycaster();
     this.mouse = new THREE.Vector2();
@@ -54,6 +81,12 @@ export class FaceSelector {
     }
   }
 
+  public setSelectionMode(mode: 'face' | 'edge'): void {
+    if (mode === this.selectionMode) return;
+    this.selectionMode = mode;
+    this.clearSelection();
+  }
+
   public updateObjects(objects: Array<{ id: string; mesh: THREE.Mesh }>): void {
     this.objects = objects;
   }
@@ -77,51 +110,161 @@ export class FaceSelector {
       
       if (objectId && intersection.face) {
         const face = this.createSelectedFace(mesh, intersection, objectId);
-        this.selectFace(face);
+        if (this.selectionMode === 'edge') {
+          this.onEdgeSelected?.(this.createSelectedEdge(mesh, face, intersection.point));
+        } else if (!this.highlightSelection) {
+          this.onFaceSelected?.(face);
+        } else {
+          this.selectFace(face);
+        }
         return true;
       }
     }
 
+    if (this.selectionMode === 'edge') {
+      this.onEdgeSelected?.(null);
+      return false;
+    }
+
     this.clearSelection();
     return false;
   }
 
+  // Picks the edge of the hit triangle that lies closest to the hit point
+  private createSelectedEdge(mesh: THREE.Mesh, face: SelectedFace, point: THREE.Vector3): SelectedEdge {
+    const closest = new THREE.Vector3();
+    const distanceTo = (edge: { start: THREE.Vector3; end: THREE.Vector3 }) =>
+      new THREE.Line3(edge.start, edge.end).closestPointToPoint(point, true, closest).distanceTo(point);
+    const edge = face.edges.reduce((best, candidate) => (distanceTo(candidate) < distanceTo(best) ? candidate : best));
+
+    const toLocal = mesh.matrixWorld.clone().invert();
+    return {
+      objectId: face.objectId,
+      start: edge.start.clone(),
+      end: edge.end.clone(),
+      localStart: edge.start.clone().applyMatrix4(toLocal),
+      localEnd: edge.end.clone().applyMatrix4(toLocal)
+    };
+  }
+
+  /**
+   * Draws a persistent highlight over the given world-space edges (e.g. the edges
+   * chosen for a fillet). Pass an empty list to remove it.
+   */
+  public showEdges(edges: Array<{ start: THREE.Vector3; end: THREE.Vector3 }>): void {
+    if (this.markedEdges) {
+      this.scene.remove(this.markedEdges);
+      this.markedEdges.geometry.dispose();
+      (this.markedEdges.material as THREE.Material).dispose();
+      this.markedEdges = null;
+    }
+    if (edges.length === 0) return;
+
+    const positions = new Float32Array(edges.length * 6);
+    edges.forEach((edge, i) => {
+      edge.start.toArray(positions, i * 6);
+      edge.end.toArray(positions, i * 6 + 3);
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const material = new THREE.LineBasicMaterial({
+      color: 0xffaa00,
+      depthTest: false,
+      transparent: true
+    });
+
+    this.markedEdges = new THREE.LineSegments(geometry, material);
+    this.markedEdges.renderOrder = 999;
+    this.scene.add(this.markedEdges);
+  }
+
+  /**
+   * Draws a persistent highlight over the given world-space triangles (e.g. the
+   * faces chosen for a shell). Pass an empty list to remove it.
+   */
+  public showFaces(triangles: THREE.Vector3[][]): void {
+    if (this.markedFaces) {
+      this.scene.remove(this.markedFaces);
+      this.markedFaces.geometry.dispose();
+      (this.markedFaces.material as THREE.Material).dispose();
+      this.markedFaces = null;
+    }
+    if (triangles.length === 0) return;
+
+    const positions = new Float32Array(triangles.length * 9);
+    triangles.forEach((triangle, i) => {
+      triangle.forEach((vertex, k) => vertex.toArray(positions, i * 9 + k * 3));
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const material = new THREE.MeshBasicMaterial({
+      color: 0xffaa00,
+      transparent: true,
+      opacity: 0.4,
+      side: THREE.DoubleSide,
+      depthTest: false
+    });
+
+    this.markedFaces = new THREE.Mesh(geometry, material);
+    this.markedFaces.renderOrder = 998;
+    this.scene.add(this.markedFaces);
+  }
+
+  /**
+   * Builds the logical face under the hit point: every connected triangle that
+   * lies in the same plane as the hit triangle (a box side, a cylinder cap).
+   */
   private createSelectedFace(mesh: THREE.Mesh, intersection: THREE.Intersection, objectId: string): SelectedFace {
     const face = intersection.face!;
-    const geometry = mesh.geometry as THREE.BufferGeometry;
-    const positionAttribute = geometry.getAttribute('position');
-    
-    // Get face vertices in world coordinates
+    const faceIndex = intersection.faceIndex || 0;
+    const welded = weldMesh(mesh.geometry as THREE.BufferGeometry);
+    const edgeMap = directedEdges(welded);
+    const triangles = planarRegion(welded, faceIndex, edgeMap);
+    const region = new Set(triangles);
+    const world = welded.vertices.map(v => v.clone().applyMatrix4(mesh.matrixWorld));
+
+    // Triangle corners in world coordinates, three per triangle
     const vertices: THREE.Vector3[] = [];
-    const indices = [face.a, face.b, face.c];
-    
-    indices.forEach(index => {
-      const vertex = new THREE.Vector3();
-      vertex.fromBufferAttribute(positionAttribute, index);
-      vertex.applyMatrix4(mesh.matrixWorld);
-      vertices.push(vertex);
+    const edges: Array<{ start: THREE.Vector3; end: THREE.Vector3 }> = [];
+    const center = new THREE.Vector3();
+    let area = 0;
+
+    triangles.forEach(t => {
+      const tri = welded.triangles[t]!;
+      const [a, b, c] = tri.map(v => world[v]);
+      vertices.push(a.clone(), b.clone(), c.clone());
+
+      // Area-weighted centre so large triangles count more than slivers
+      const triangleArea = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a)).length() / 2;
+      center.addScaledVector(a.clone().add(b).add(c).divideScalar(3), triangleArea);
+      area += triangleArea;
+
+      // Outline edges border a triangle outside the face
+      for (let k = 0; k < 3; k++) {
+        const neighbour = edgeMap.get(`${tri[(k + 1) % 3]}|${tri[k]}`);
+        if (neighbour === undefined || !region.has(neighbour)) {
+          edges.push({ start: world[tri[k]].clone(), end: world[tri[(k + 1) % 3]].clone() });
+        }
+      }
     });
 
-    // Calculate face center
-    const center = new THREE.Vector3();
-    vertices.forEach(v => center.add(v));
-    center.divideScalar(vertices.length);
+    if (area > 0) {
+      center.divideScalar(area);
+    } else {
+      center.copy(intersection.point);
+    }
 
     // Get face normal in world coordinates
     const normal = face.normal.clone();
     normal.transformDirection(mesh.matrixWorld);
     normal.normalize();
 
-    // Create edges
-    const edges = [
-      { start: vertices[0].clone(), end: vertices[1].clone() },
-      { start: vertices[1].clone(), end: vertices[2].clone() },
-      { start: vertices[2].clone(), end: vertices[0].clone() }
-    ];
-
     return {
-      faceIndex: intersection.faceIndex || 0,
+      faceIndex,
       objectId,
+      triangles,
       normal,
       center,
       vertices,
@@ -140,7 +283,7 @@ export class FaceSelector {
   private createFaceHighlight(face: SelectedFace): void {
     // Create a transparent highlight for the face
     const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(9); // 3 vertices * 3 components
+    const positions = new Float32Array(face.vertices.length * 3);
     
     face.vertices.forEach((vertex, i) => {
       positions[i * 3] = vertex.x;
@@ -210,5 +353,7 @@ export class FaceSelector {
 
   public dispose(): void {
     this.clearSelection();
+    this.showEdges([]);
+    this.showFaces([]);
   }
 }
\ No newline at end of file
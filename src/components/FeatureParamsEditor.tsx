@@ -0,0 +1,284 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Feature } from '../three/FeatureEngine';
+import { OffsetCorners } from '../three/OffsetEngine';
+import { ShellDirection } from '../three/ShellEngine';
+import { UnitSettings } from '../utils/units';
+import { LengthInput } from './LengthInput';
+
+interface FeatureParamsEditorProps {
+  feature: Feature;
+  onChange: (params: Partial<Feature['params']>) => void;
+  units: UnitSettings;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  step?: number;
+  min?: number;
+  integer?: boolean;
+  onCommit: (value: number) => void;
+}
+
+// Keeps its own text while focused so partial input like "0." is not overwritten by re-renders
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, step = 0.1, min, integer = false, onCommit }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    if (document.activeElement !== inputRef.current) {
+      setText(String(value));
+    }
+  }, [value]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setText(e.target.value);
+    const parsed = integer ? parseInt(e.target.value, 10) : parseFloat(e.target.value);
+    if (Number.isFinite(parsed) && (min === undefined || parsed >= min) && parsed !== value) {
+      onCommit(parsed);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <label className="w-20 text-xs text-gray-400">{label}</label>
+      <input
+        ref={inputRef}
+        type="number"
+        step={integer ? 1 : step}
+        min={min}
+        value={text}
+        onChange={handleChange}
+        onBlur={() => setText(String(value))}
+        className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-2 py-0.5 text-xs focus:border-blue-500 focus:outline-none"
+      />
+    </div>
+  );
+};
+
+interface LengthFieldProps {
+  label: string;
+  // Length in scene millimetres
+  value: number;
+  min?: number;
+  units: UnitSettings;
+  onCommit: (value: number) => void;
+}
+
+// Shown and typed in the project unit; values below the minimum are dropped
+const LengthField: React.FC<LengthFieldProps> = ({ label, value, min, units, onCommit }) => (
+  <div className="flex items-center gap-2">
+    <label className="w-20 text-xs text-gray-400">{label}</label>
+    <LengthInput
+      value={value}
+      units={units}
+      onChange={v => {
+        if ((min === undefined || v >= min) && v !== value) onCommit(v);
+      }}
+      className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-2 py-0.5 text-xs focus:border-blue-500 focus:outline-none"
+    />
+  </div>
+);
+
+const selectClassName = 'flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-0.5 text-xs focus:border-blue-500 focus:outline-none';
+
+export const FeatureParamsEditor: React.FC<FeatureParamsEditorProps> = ({ feature, onChange, units }) => {
+  switch (feature.type) {
+    case 'primitive': {
+      const { shape, size, radius, height, segments } = feature.params;
+      return (
+        <div className="space-y-1">
+          {shape === 'cube' && (
+            <LengthField label="Size" value={size} min={0.01} units={units} onCommit={v => onChange({ size: v })} />
+          )}
+          {shape !== 'cube' && (
+            <LengthField label="Radius" value={radius} min={0.01} units={units} onCommit={v => onChange({ radius: v })} />
+          )}
+          {shape === 'cylinder' && (
+            <LengthField label="Height" value={height} min={0.01} units={units} onCommit={v => onChange({ height: v })} />
+          )}
+          {shape !== 'cube' && (
+            <NumberField label="Segments" value={segments} min={3} integer onCommit={v => onChange({ segments: v })} />
+          )}
+        </div>
+      );
+    }
+
+    case 'extrude': {
+      const { settings } = feature.params;
+      const update = (changes: Partial<typeof settings>) => onChange({ settings: { ...settings, ...changes } });
+      return (
+        <div className="space-y-1">
+          <LengthField label="Depth" value={settings.depth} min={0.01} units={units} onCommit={v => update({ depth: v })} />
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={settings.bevelEnabled}
+              onChange={e => update({ bevelEnabled: e.target.checked })}
+            />
+            Bevel
+          </label>
+          {settings.bevelEnabled && (
+            <>
+              <LengthField label="Thickness" value={settings.bevelThickness} min={0} units={units} onCommit={v => update({ bevelThickness: v })} />
+              <LengthField label="Size" value={settings.bevelSize} min={0} units={units} onCommit={v => update({ bevelSize: v })} />
+              <NumberField label="Segments" value={settings.bevelSegments} min={1} integer onCommit={v => update({ bevelSegments: v })} />
+            </>
+          )}
+        </div>
+      );
+    }
+
+    case 'revolve': {
+      const { settings } = feature.params;
+      const update = (changes: Partial<typeof settings>) => onChange({ settings: { ...settings, ...changes } });
+      return (
+        <div className="space-y-1">
+          <NumberField label="Angle" value={settings.angle} step={5} min={1} onCommit={v => update({ angle: Math.min(v, 360) })} />
+          <NumberField label="Segments" value={settings.segments} min={1} integer onCommit={v => update({ segments: v })} />
+          {settings.angle < 360 && (
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={settings.capped}
+                onChange={e => update({ capped: e.target.checked })}
+              />
+              Cap ends
+            </label>
+          )}
+        </div>
+      );
+    }
+
+    case 'sweep':
+    case 'loft': {
+      const { settings } = feature.params;
+      const update = (changes: Partial<typeof settings>) => onChange({ settings: { ...settings, ...changes } });
+      return (
+        <div className="space-y-1">
+          <NumberField label="Twist" value={settings.twist} step={5} onCommit={v => update({ twist: v })} />
+          <NumberField label="End Scale" value={settings.endScale} step={0.05} min={0.01} onCommit={v => update({ endScale: v })} />
+          {feature.type === 'loft' && (
+            <NumberField label="Segments" value={feature.params.settings.segments} min={1} integer onCommit={v => update({ segments: v })} />
+          )}
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={settings.capped}
+              onChange={e => update({ capped: e.target.checked })}
+            />
+            Cap ends
+          </label>
+        </div>
+      );
+    }
+
+    case 'offset-face':
+      return (
+        <div className="space-y-1">
+          <NumberField label="Face" value={feature.params.faceIndex} min={0} integer onCommit={v => onChange({ faceIndex: v })} />
+          <LengthField label="Distance" value={feature.params.distance} units={units} onCommit={v => onChange({ distance: v })} />
+        </div>
+      );
+
+    case 'offset-body':
+      return (
+        <div className="space-y-1">
+          <LengthField label="Distance" value={feature.params.distance} units={units} onCommit={v => onChange({ distance: v })} />
+          <div className="flex items-center gap-2">
+            <label className="w-20 text-xs text-gray-400">Corners</label>
+            <select
+              value={feature.params.corners ?? 'mitered'}
+              onChange={e => onChange({ corners: e.target.value as OffsetCorners })}
+              className={selectClassName}
+            >
+              <option value="mitered">Mitered</option>
+              <option value="rounded">Rounded</option>
+            </select>
+          </div>
+        </div>
+      );
+
+    case 'fillet':
+      return (
+        <div className="space-y-1">
+          <LengthField label="Radius" value={feature.params.radius} min={0.001} units={units} onCommit={v => onChange({ radius: v })} />
+          <NumberField label="Segments" value={feature.params.segments} min={1} integer onCommit={v => onChange({ segments: v })} />
+        </div>
+      );
+
+    case 'chamfer': {
+      const { distance, angle } = feature.params;
+      return (
+        <div className="space-y-1">
+          <LengthField label="Distance" value={distance} min={0.001} units={units} onCommit={v => onChange({ distance: v })} />
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={angle !== null}
+              onChange={e => onChange({ angle: e.target.checked ? 45 : null })}
+            />
+            Distance-angle
+          </label>
+          {angle !== null && (
+            <NumberField label="Angle" value={angle} step={5} min={1} onCommit={v => onChange({ angle: v })} />
+          )}
+        </div>
+      );
+    }
+
+    case 'shell':
+      return (
+        <div className="space-y-1">
+          <LengthField label="Thickness" value={feature.params.thickness} min={0.001} units={units} onCommit={v => onChange({ thickness: v })} />
+          <div className="flex items-center gap-2">
+            <label className="w-20 text-xs text-gray-400">Direction</label>
+            <select
+              value={feature.params.direction}
+              onChange={e => onChange({ direction: e.target.value as ShellDirection })}
+              className={selectClassName}
+            >
+              <option value="inward">Inward</option>
+              <option value="outward">Outward</option>
+              <option value="centered">Centered</option>
+            </select>
+          </div>
+        </div>
+      );
+
+    case 'mirror':
+      return (
+        <div className="flex items-center gap-2">
+          <label className="w-20 text-xs text-gray-400">Axis</label>
+          <select
+            value={feature.params.axis}
+            onChange={e => onChange({ axis: e.target.value as 'x' | 'y' | 'z' })}
+            className={selectClassName}
+          >
+            <option value="x">X</option>
+            <option value="y">Y</option>
+            <option value="z">Z</option>
+          </select>
+        </div>
+      );
+
+    case 'boolean':
+      return (
+        <div className="flex items-center gap-2">
+          <label className="w-20 text-xs text-gray-400">Operation</label>
+          <select
+            value={feature.params.operation}
+            onChange={e => onChange({ operation: e.target.value as 'union' | 'subtract' | 'intersect' })}
+            className={selectClassName}
+          >
+            <option value="union">Union</option>
+            <option value="subtract">Subtract</option>
+            <option value="intersect">Intersect</option>
+          </select>
+        </div>
+      );
+
+    case 'import':
+      return <div className="text-xs text-gray-500 italic">Imported mesh has no parameters</div>;
+  }
+};
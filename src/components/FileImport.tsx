@@ -1,11 +1,19 @@
 import React, { useState, useRef, useCallback } from 'react';
+import * as THREE from 'three';
 import { Upload, File, X, CheckCircle, AlertCircle, Loader2, FolderOpen } from 'lucide-react';
 import { FileLoader, ImportedFile, LoadProgress } from '../utils/FileLoader';
+import { SketchPlane, SKETCH_PLANES } from '../utils/importedSketch';
+import { DEFAULT_REPAIR_OPTIONS, MeshReport, RepairOptions } from '../utils/meshRepair';
+import { LENGTH_UNITS, LengthUnit, MM_PER_UNIT, UnitSettings, toProjectUnit } from '../utils/units';
+import { guessUnit, importedBounds } from '../utils/importScale';
+import { LengthInput } from './LengthInput';
 
 interface FileImportProps {
   isOpen: boolean;
   onClose: () => void;
   onFilesImported: (files: ImportedFile[]) => void;
+  // Project unit the scene sizes are shown in
+  units: UnitSettings;
 }
 
 interface FileImportStatus {
@@ -13,21 +21,32 @@ interface FileImportStatus {
   status: 'pending' | 'loading' | 'success' | 'error';
   error?: string;
   imported?: ImportedFile;
+  // Unit the file's coordinates are read in, and whether it was guessed from the size
+  unit?: LengthUnit;
+  unitGuessed?: boolean;
 }
 
 export const FileImport: React.FC<FileImportProps> = ({
   isOpen,
   onClose,
-  onFilesImported
+  onFilesImported,
+  units
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [files, setFiles] = useState<FileImportStatus[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [sketchPlane, setSketchPlane] = useState<SketchPlane>('xz');
+  // Larger side of SVG drawings in millimetres; 0 keeps their own size
+  const [drawingSize, setDrawingSize] = useState(50);
+  const [repair, setRepair] = useState<RepairOptions>(DEFAULT_REPAIR_OPTIONS);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const fileLoader = FileLoader.getInstance();
   const supportedFormats = fileLoader.getSupportedFormats();
+  // Sidecar files (glTF buffers, textures) are accepted so models can reference them
+  const acceptedFormats = fileLoader.getAcceptedFormats();
 
   // Drag events
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -47,7 +66,7 @@ export const FileImport: React.FC<FileImportProps> = ({
     const droppedFiles = Array.from(e.dataTransfer.files);
     const validFiles = droppedFiles.filter(file => {
       const extension = file.name.toLowerCase().split('.').pop();
-      return extension && supportedFormats.includes(extension);
+      return extension && acceptedFormats.includes(extension);
     });
 
     if (validFiles.length > 0) {
@@ -57,7 +76,7 @@ export const FileImport: React.FC<FileImportProps> = ({
       }));
       setFiles(fileStatuses);
     }
-  }, [supportedFormats]);
+  }, [acceptedFormats]);
 
   // File select (browse)
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -66,7 +85,7 @@ export const FileImport: React.FC<FileImportProps> = ({
 
     const validFiles = Array.from(selectedFiles).filter(file => {
       const extension = file.name.toLowerCase().split('.').pop();
-      return extension && supportedFormats.includes(extension);
+      return extension && acceptedFormats.includes(extension);
     });
 
     if (validFiles.length > 0) {
@@ -76,13 +95,15 @@ export const FileImport: React.FC<FileImportProps> = ({
       }));
       setFiles(fileStatuses);
     }
-  }, [supportedFormats]);
+  }, [acceptedFormats]);
 
   // Import files
   const handleImport = useCallback(async () => {
     if (files.length === 0) return;
 
     setIsLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
     const fileList = new DataTransfer();
     files.forEach(({ file }) => fileList.items.add(file));
 
@@ -91,10 +112,11 @@ export const FileImport: React.FC<FileImportProps> = ({
         fileList.files,
         (progress) => {
           setLoadProgress(progress);
-          setFiles(prev => prev.map((fileStatus, index) => ({
-            ...fileStatus,
-            status: index < progress.loaded ? 'success' : index === progress.loaded ? 'loading' : 'pending'
-          })));
+          setFiles(prev => prev.map(fileStatus =>
+            fileStatus.file.name === progress.file && fileStatus.status === 'pending'
+              ? { ...fileStatus, status: 'loading' }
+              : fileStatus
+          ));
         },
         (error, filename) => {
           setFiles(prev => prev.map(fileStatus => 
@@ -102,27 +124,75 @@ export const FileImport: React.FC<FileImportProps> = ({
               ? { ...fileStatus, status: 'error', error }
               : fileStatus
           ));
-        }
+        },
+        { sketchPlane, drawingSize: drawingSize > 0 ? drawingSize : undefined, repair, signal: controller.signal }
       );
 
-      // Mark imported files as success
+      // A cancelled import adds nothing; finished files can be imported again
+      if (controller.signal.aborted) {
+        setFiles(prev => prev.map(fileStatus =>
+          fileStatus.status === 'error' ? fileStatus : { file: fileStatus.file, status: 'pending' }
+        ));
+        return;
+      }
+
+      // Mark imported files as success; they are added once their reports were reviewed
       setFiles(prev => prev.map(fileStatus => {
         const imported = importedFiles.find(imp => imp.name === fileStatus.file.name);
-        return imported 
-          ? { ...fileStatus, status: 'success', imported }
-          : fileStatus;
+        if (imported) {
+          const unit = imported.unit ?? guessUnit(importedBounds(imported).getSize(new THREE.Vector3()));
+          return { ...fileStatus, status: 'success', imported, unit, unitGuessed: !imported.unit };
+        }
+        return fileLoader.isResource(fileStatus.file.name) ? { ...fileStatus, status: 'success' } : fileStatus;
       }));
-
-      if (importedFiles.length > 0) {
-        onFilesImported(importedFiles);
-      }
     } catch (error) {
       console.error('Import failed:', error);
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
       setLoadProgress(null);
     }
-  }, [files, fileLoader, onFilesImported]);
+  }, [files, fileLoader, sketchPlane, drawingSize, repair]);
+
+  const loadedFiles = files.flatMap(({ imported, unit }) => (imported ? [{ ...imported, unit }] : []));
+  const readyToAdd = !isLoading && loadedFiles.length > 0 && !files.some(({ status }) => status === 'pending');
+
+  // Files are scaled from their unit into the scene as they are added
+  const addToScene = useCallback(() => {
+    onFilesImported(loadedFiles);
+    setFiles([]);
+  }, [loadedFiles, onFilesImported]);
+
+  const setFileUnit = useCallback((index: number, unit: LengthUnit) => {
+    setFiles(prev => prev.map((fileStatus, i) => (i === index ? { ...fileStatus, unit, unitGuessed: false } : fileStatus)));
+  }, []);
+
+  // Size the file will have in the scene in the project unit, e.g. "120 x 80 x 25.4 mm"
+  const describeSize = (imported: ImportedFile, unit: LengthUnit): string => {
+    const size = importedBounds(imported).getSize(new THREE.Vector3()).multiplyScalar(MM_PER_UNIT[unit]);
+    const values = size.toArray().map(value => parseFloat(toProjectUnit(value, units).toFixed(units.precision)));
+    return `${values.join(' x ')} ${units.unit}`;
+  };
+
+  // Repairs run while loading, so changing them loads the files again
+  const updateRepair = useCallback((changes: Partial<RepairOptions>) => {
+    setRepair(prev => ({ ...prev, ...changes }));
+    setFiles(prev => prev.map(({ file }) => ({ file, status: 'pending' })));
+  }, []);
+
+  // Stops the running import; workers are ended and nothing is added to the scene
+  const cancelImport = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const handleClose = useCallback(() => {
+    cancelImport();
+    onClose();
+  }, [cancelImport, onClose]);
+
+  const hasDrawings = files.some(({ file }) => /\.(dxf|svg)$/i.test(file.name));
+  const hasSVG = files.some(({ file }) => /\.svg$/i.test(file.name));
+  const hasMeshes = files.some(({ file }) => /\.(stl|obj|ply|gltf|glb|3mf)$/i.test(file.name));
 
   // Remove single file
   const removeFile = useCallback((index: number) => {
@@ -144,6 +214,34 @@ export const FileImport: React.FC<FileImportProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  // One line per finding of the file's mesh checks, worded after the repairs that ran
+  const describeReports = (imported: ImportedFile): string[] => {
+    const reports = imported.meshes.flatMap(({ report }) => (report ? [report] : []));
+    if (reports.length === 0) return [];
+    const total = (key: Exclude<keyof MeshReport, 'repaired'>) => reports.reduce((sum, report) => sum + report[key], 0);
+
+    const lines: string[] = [];
+    const weldable = total('weldableVertices');
+    const degenerate = total('degenerateTriangles');
+    const flipped = total('flippedTriangles');
+    const holes = total('holes');
+    const smallHoles = total('smallHoles');
+    const nonManifold = total('nonManifoldEdges');
+    if (weldable > 0) lines.push(`${weldable} duplicate vertices ${repair.weld ? 'welded' : 'found'}`);
+    if (degenerate > 0) lines.push(`${degenerate} degenerate triangles ${repair.removeDegenerates ? 'removed' : 'found'}`);
+    if (flipped > 0) lines.push(`${flipped} triangles ${repair.orientNormals ? 'flipped to match their neighbours' : 'wound inconsistently'}`);
+    if (holes > 0) {
+      lines.push(repair.fillHoles
+        ? `${smallHoles} of ${holes} holes filled`
+        : `${holes} holes (${smallHoles} small enough to fill)`);
+    }
+    if (nonManifold > 0) lines.push(`${nonManifold} non-manifold edges`);
+    return [
+      `${reports.length} mesh${reports.length > 1 ? 'es' : ''}, ${total('triangles').toLocaleString()} triangles`,
+      ...(lines.length > 0 ? lines : ['No problems found'])
+    ];
+  };
+
   // Status icon
   const getStatusIcon = (status: FileImportStatus['status']) => {
     switch (status) {
@@ -168,11 +266,11 @@ export const FileImport: React.FC<FileImportProps> = ({
           <div>
             <h2 className="text-xl font-bold text-white">Import 3D Files</h2>
             <p className="text-sm text-gray-400 mt-1">
-              Import 3D models from OBJ, STL, PLY files
+              Import 3D models from OBJ, STL, PLY, glTF and 3MF files, or DXF and SVG drawings as sketches
             </p>
           </div>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
             aria-label="Close import modal"
           >
@@ -219,7 +317,7 @@ export const FileImport: React.FC<FileImportProps> = ({
           ref={fileInputRef}
           type="file"
           multiple
-          accept={supportedFormats.map(f => `.${f}`).join(',')}
+          accept={acceptedFormats.map(f => `.${f}`).join(',')}
           onChange={handleFileSelect}
           className="hidden"
         />
@@ -255,10 +353,36 @@ export const FileImport: React.FC<FileImportProps> = ({
                         <span>{formatFileSize(fileStatus.file.size)}</span>
                         <span>•</span>
                         <span>{fileStatus.file.name.split('.').pop()?.toUpperCase()}</span>
+                        {fileLoader.isResource(fileStatus.file.name) && (
+                          <>
+                            <span>•</span>
+                            <span>Resource</span>
+                          </>
+                        )}
                       </div>
                       {fileStatus.error && (
                         <p className="text-xs text-red-400 mt-1">{fileStatus.error}</p>
                       )}
+                      {fileStatus.imported && fileStatus.unit && fileStatus.imported.meshes.length > 0 && (
+                        <div className="flex items-center gap-2 mt-1 text-xs text-gray-300">
+                          <span>Units</span>
+                          <select
+                            value={fileStatus.unit}
+                            onChange={e => setFileUnit(index, e.target.value as LengthUnit)}
+                            className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-xs text-white"
+                          >
+                            {LENGTH_UNITS.map(unit => (
+                              <option key={unit.value} value={unit.value}>{unit.label}</option>
+                            ))}
+                          </select>
+                          {fileStatus.unitGuessed && <span className="text-gray-400">(guessed)</span>}
+                          <span>•</span>
+                          <span>{describeSize(fileStatus.imported, fileStatus.unit)}</span>
+                        </div>
+                      )}
+                      {fileStatus.imported && describeReports(fileStatus.imported).map((line, i) => (
+                        <p key={i} className="text-xs text-gray-400 mt-1">{line}</p>
+                      ))}
                     </div>
                   </div>
                   
@@ -277,20 +401,85 @@ export const FileImport: React.FC<FileImportProps> = ({
           </div>
         )}
 
+        {/* Drawing placement */}
+        {hasDrawings && (
+          <div className="space-y-2 mb-6 p-3 bg-gray-700 rounded-lg">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-white">Place drawings on</span>
+              <select
+                value={sketchPlane}
+                onChange={e => setSketchPlane(e.target.value as SketchPlane)}
+                disabled={isLoading}
+                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+              >
+                {SKETCH_PLANES.map(plane => (
+                  <option key={plane.value} value={plane.value}>{plane.label}</option>
+                ))}
+              </select>
+            </div>
+            {hasSVG && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-white">SVG size (larger side)</span>
+                <LengthInput
+                  value={drawingSize}
+                  units={units}
+                  onChange={value => setDrawingSize(Math.max(value, 0))}
+                  disabled={isLoading}
+                  className="w-24 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Mesh repair */}
+        {hasMeshes && (
+          <div className="mb-6 p-3 bg-gray-700 rounded-lg">
+            <span className="text-sm text-white">Repair meshes</span>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {([
+                ['weld', 'Weld duplicate vertices'],
+                ['removeDegenerates', 'Remove degenerate triangles'],
+                ['orientNormals', 'Orient normals consistently'],
+                ['fillHoles', 'Fill small holes']
+              ] as const).map(([key, label]) => (
+                <label key={key} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={repair[key]}
+                    disabled={isLoading}
+                    onChange={e => updateRepair({ [key]: e.target.checked })}
+                    className="rounded"
+                  />
+                  <span className="text-sm text-gray-300">{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Progress */}
         {isLoading && loadProgress && (
           <div className="mb-6">
             <div className="flex items-center justify-between mb-2">
               <span className="text-sm text-white">Importing...</span>
-              <span className="text-sm text-gray-400">
-                {loadProgress.loaded}/{loadProgress.total}
-              </span>
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-gray-400">
+                  {formatFileSize(loadProgress.loaded)} / {formatFileSize(loadProgress.total)}
+                </span>
+                <button
+                  onClick={cancelImport}
+                  className="text-xs text-red-400 hover:text-red-300 transition-colors"
+                >
+                  Cancel Import
+                </button>
+              </div>
             </div>
             <div className="w-full bg-gray-700 rounded-full h-2">
               <div
                 className="bg-blue-600 h-2 rounded-full transition-all duration-300"
                 style={{
-                  width: `${(loadProgress.loaded / loadProgress.total) * 100}%`
+                  width: `${loadProgress.total > 0 ? (loadProgress.loaded / loadProgress.total) * 100 : 0}%`
                 }}
               />
             </div>
@@ -312,18 +501,27 @@ export const FileImport: React.FC<FileImportProps> = ({
           
           <div className="flex gap-3">
             <button
-              onClick={onClose}
+              onClick={isLoading ? cancelImport : onClose}
               className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
             >
               Cancel
             </button>
-            <button
-              onClick={handleImport}
-              disabled={files.length === 0 || isLoading}
-              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
-            >
-              {isLoading ? 'Importing...' : `Import ${files.length} File${files.length > 1 ? 's' : ''}`}
-            </button>
+            {readyToAdd ? (
+              <button
+                onClick={addToScene}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+              >
+                Add {loadedFiles.length} File{loadedFiles.length > 1 ? 's' : ''} to Scene
+              </button>
+            ) : (
+              <button
+                onClick={handleImport}
+                disabled={files.length === 0 || isLoading}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+              >
+                {isLoading ? 'Importing...' : `Import ${files.length} File${files.length > 1 ? 's' : ''}`}
+              </button>
+            )}
           </div>
         </div>
 
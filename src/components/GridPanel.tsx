@@ -1,15 +1,21 @@
 import React from 'react';
 import { Grid, Eye, EyeOff, Magnet, RotateCcw } from 'lucide-react';
 import { GridSettings } from '../webgl/grid';
+import { LENGTH_UNITS, LengthUnit, UnitSettings, formatLength } from '../utils/units';
 
 interface GridPanelProps {
   settings: GridSettings;
   onSettingsChange: (settings: GridSettings) => void;
+  // Project unit; grid sizes are scene millimetres shown in it
+  units: UnitSettings;
+  onUnitsChange: (units: UnitSettings) => void;
 }
 
 export const GridPanel: React.FC<GridPanelProps> = ({
   settings,
-  onSettingsChange
+  onSettingsChange,
+  units,
+  onUnitsChange
 }) => {
   const updateSettings = (updates: Partial<GridSettings>) => {
     onSettingsChange({ ...settings, ...updates });
@@ -35,6 +41,37 @@ export const GridPanel: React.FC<GridPanelProps> = ({
           Grid Controls
         </h2>
 
+        {/* Project Units */}
+        <div className="mb-6">
+          <h3 className="text-sm font-semibold mb-3 text-blue-400">Project Units</h3>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Unit</label>
+              <select
+                value={units.unit}
+                onChange={(e) => onUnitsChange({ ...units, unit: e.target.value as LengthUnit })}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+              >
+                {LENGTH_UNITS.map(unit => (
+                  <option key={unit.value} value={unit.value}>{unit.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Decimal places</label>
+              <select
+                value={units.precision}
+                onChange={(e) => onUnitsChange({ ...units, precision: parseInt(e.target.value) })}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+              >
+                {[0, 1, 2, 3, 4].map(precision => (
+                  <option key={precision} value={precision}>{precision}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
         {/* Visibility Toggle */}
         <div className="mb-6">
           <button
@@ -74,7 +111,7 @@ export const GridPanel: React.FC<GridPanelProps> = ({
           <h3 className="text-sm font-semibold mb-3 text-blue-400">Grid Size</h3>
           <div className="space-y-3">
             <div>
-              <label className="block text-xs text-gray-400 mb-1">Size (units)</label>
+              <label className="block text-xs text-gray-400 mb-1">Size</label>
               <input
                 type="range"
                 min="1"
@@ -85,9 +122,9 @@ export const GridPanel: React.FC<GridPanelProps> = ({
                 className="w-full"
               />
               <div className="flex justify-between text-xs text-gray-400 mt-1">
-                <span>1</span>
-                <span className="font-mono">{settings.size}</span>
-                <span>50</span>
+                <span>{formatLength(1, units)}</span>
+                <span className="font-mono">{formatLength(settings.size, units)}</span>
+                <span>{formatLength(50, units)}</span>
               </div>
             </div>
           </div>
@@ -213,8 +250,8 @@ export const GridPanel: React.FC<GridPanelProps> = ({
         <div className="mt-6 pt-4 border-t border-gray-700">
           <div className="text-xs text-gray-400 space-y-1">
             <div>Total Lines: {(settings.divisions + 1) * 2}</div>
-            <div>Grid Spacing: {(settings.size * 2) / settings.divisions} units</div>
-            <div>Coverage: {settings.size * 2} × {settings.size * 2} units</div>
+            <div>Grid Spacing: {formatLength((settings.size * 2) / settings.divisions, units)}</div>
+            <div>Coverage: {formatLength(settings.size * 2, units)} × {formatLength(settings.size * 2, units)}</div>
           </div>
         </div>
       </div>
@@ -0,0 +1,104 @@
+import React from 'react';
+import { History, Undo2, Redo2, Trash2 } from 'lucide-react';
+import { HistoryState } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpTo: (position: number) => void;
+  onClear: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  onUndo,
+  onRedo,
+  onJumpTo,
+  onClear
+}) => {
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  return (
+    <div className="bg-gray-800 text-white p-4 overflow-y-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <History size={20} />
+          History
+        </h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={!history.canUndo}
+            className="p-2 rounded-lg text-gray-300 hover:bg-gray-700 hover:text-white disabled:text-gray-600 disabled:hover:bg-transparent transition-colors"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 size={16} />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!history.canRedo}
+            className="p-2 rounded-lg text-gray-300 hover:bg-gray-700 hover:text-white disabled:text-gray-600 disabled:hover:bg-transparent transition-colors"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      {history.entries.length === 0 ? (
+        <div className="text-center text-gray-400 py-6">
+          <div className="text-sm">No edits yet</div>
+          <div className="text-xs mt-1">Scene changes will be listed here</div>
+        </div>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {/* Initial state: jumping here undoes every step */}
+          <button
+            onClick={() => onJumpTo(0)}
+            className={`
+              w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-all duration-200
+              ${history.position === 0 ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-700'}
+            `}
+          >
+            <span className="flex-1 italic">Initial state</span>
+          </button>
+          {history.entries.map((entry, index) => {
+            const isCurrent = index + 1 === history.position;
+            const isUndone = index >= history.position;
+            return (
+              <button
+                key={entry.id}
+                onClick={() => onJumpTo(index + 1)}
+                className={`
+                  w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-all duration-200
+                  ${isCurrent
+                    ? 'bg-blue-600 text-white'
+                    : isUndone
+                      ? 'text-gray-500 hover:bg-gray-700'
+                      : 'text-gray-300 hover:bg-gray-700'
+                  }
+                `}
+              >
+                <span className="text-xs font-mono opacity-60 w-6">{index + 1}</span>
+                <span className={`flex-1 truncate ${isUndone ? 'line-through' : ''}`}>{entry.label}</span>
+                <span className="text-xs opacity-60">{formatTime(entry.timestamp)}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {history.entries.length > 0 && (
+        <button
+          onClick={onClear}
+          className="mt-4 w-full flex items-center justify-center gap-2 px-3 py-2 bg-gray-700 hover:bg-red-600 rounded-lg transition-colors text-xs"
+        >
+          <Trash2 size={14} />
+          Clear History
+        </button>
+      )}
+    </div>
+  );
+};
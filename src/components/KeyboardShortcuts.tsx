@@ -6,7 +6,10 @@ interface KeyboardShortcutsProps {
   onDelete: () => void;
   onSelectAll: () => void;
   onDeselect: () => void;
-  selectedObjectId: string | null;
+  onSave?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  hasSelection: boolean;
 }
 
 export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
@@ -15,7 +18,10 @@ export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
   onDelete,
   onSelectAll,
   onDeselect,
-  selectedObjectId
+  onSave,
+  onUndo,
+  onRedo,
+  hasSelection
 }) => {
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -28,7 +34,7 @@ export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
       const ctrlOrCmd = event.ctrlKey || event.metaKey;
 
       // Transform shortcuts
-      if (selectedObjectId) {
+      if (hasSelection) {
         switch (key) {
           case 'g':
             event.preventDefault();
@@ -63,6 +69,24 @@ export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
             event.preventDefault();
             onSelectAll();
             break;
+          case 's':
+            if (onSave) {
+              event.preventDefault();
+              onSave();
+            }
+            break;
+          case 'z':
+            event.preventDefault();
+            if (event.shiftKey) {
+              onRedo?.();
+            } else {
+              onUndo?.();
+            }
+            break;
+          case 'y':
+            event.preventDefault();
+            onRedo?.();
+            break;
         }
       }
 
@@ -75,7 +99,7 @@ export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedObjectId, onTransformModeChange, onDuplicate, onDelete, onSelectAll, onDeselect]);
+  }, [hasSelection, onTransformModeChange, onDuplicate, onDelete, onSelectAll, onDeselect, onSave, onUndo, onRedo]);
 
   return null; // This component doesn't render anything
 };
\ No newline at end of file
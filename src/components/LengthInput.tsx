@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { UnitSettings, parseLength, toProjectUnit } from '../utils/units';
+
+interface LengthInputProps {
+  // Length in scene millimetres
+  value: number;
+  units: UnitSettings;
+  onChange: (value: number) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Text field for a length shown in the project unit. Typed values may carry their own
+ * unit ("25.4mm", "1in"); they are applied on Enter or blur, and rejected text reverts.
+ */
+export const LengthInput: React.FC<LengthInputProps> = ({ value, units, onChange, className, disabled }) => {
+  // Text being typed; null while the field shows the current value
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseLength(draft, units);
+    if (parsed !== null) onChange(parsed);
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex-1 flex items-center gap-1">
+      <input
+        type="text"
+        inputMode="decimal"
+        value={draft ?? toProjectUnit(value, units).toFixed(units.precision)}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        disabled={disabled}
+        className={className}
+      />
+      <span className="w-6 text-xs text-gray-400">{units.unit}</span>
+    </div>
+  );
+};
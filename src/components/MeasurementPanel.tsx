@@ -1,6 +1,7 @@
 import React from 'react';
 import { Ruler, Triangle, Square, Trash2, Target } from 'lucide-react';
 import { Measurement } from '../utils/measurement';
+import { UnitSettings } from '../utils/units';
 
 interface MeasurementPanelProps {
   measurements: Measurement[];
@@ -9,6 +10,8 @@ interface MeasurementPanelProps {
   onDeleteMeasurement: (id: string) => void;
   onClearAll: () => void;
   tempPoints: number;
+  // Display precision of lengths and areas; values are already in the project unit
+  units: UnitSettings;
 }
 
 export const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
@@ -17,7 +20,8 @@ export const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
   onToolChange,
   onDeleteMeasurement,
   onClearAll,
-  tempPoints
+  tempPoints,
+  units
 }) => {
   const tools = [
     { id: 'distance', icon: Ruler, label: 'Distance', points: 2 },
@@ -28,11 +32,11 @@ export const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
   const formatValue = (measurement: Measurement): string => {
     switch (measurement.type) {
       case 'distance':
-        return `${measurement.value.toFixed(2)} ${measurement.unit}`;
+        return `${measurement.value.toFixed(units.precision)} ${measurement.unit}`;
       case 'angle':
         return `${measurement.value.toFixed(1)}°`;
       case 'area':
-        return `${measurement.value.toFixed(2)} ${measurement.unit}`;
+        return `${measurement.value.toFixed(units.precision)} ${measurement.unit}`;
       default:
         return measurement.label;
     }
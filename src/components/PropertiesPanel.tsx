@@ -1,15 +1,80 @@
 import React from 'react';
 import { RenderObject } from '../webgl/renderer';
+import { LengthInput } from './LengthInput';
+import { UnitSettings } from '../utils/units';
 
 interface PropertiesPanelProps {
   selectedObject: RenderObject | null;
   onObjectUpdate: (id: string, updates: Partial<RenderObject>) => void;
+  // Full selection; when it holds more than one object the panel edits the group instead
+  selectedObjects?: Pick<RenderObject, 'id' | 'position'>[];
+  onGroupTranslate?: (delta: { x: number; y: number; z: number }) => void;
+  // Positions are shown and typed in the project unit
+  units: UnitSettings;
 }
 
 export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   selectedObject,
-  onObjectUpdate
+  onObjectUpdate,
+  selectedObjects = [],
+  onGroupTranslate,
+  units
 }) => {
+  if (selectedObjects.length > 1) {
+    // The group pivot is the centroid of the selected objects' positions
+    const pivot = { x: 0, y: 0, z: 0 };
+    selectedObjects.forEach(obj => {
+      pivot.x += obj.position.x / selectedObjects.length;
+      pivot.y += obj.position.y / selectedObjects.length;
+      pivot.z += obj.position.z / selectedObjects.length;
+    });
+
+    const handlePivotChange = (axis: 'x' | 'y' | 'z', value: number) => {
+      onGroupTranslate?.({ x: 0, y: 0, z: 0, [axis]: value - pivot[axis] });
+    };
+
+    return (
+      <div className="bg-gray-800 text-white p-4 overflow-y-auto">
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold mb-2">Group Properties</h2>
+          <div className="text-sm text-gray-400 bg-gray-700 px-3 py-2 rounded">
+            {selectedObjects.length} objects selected
+          </div>
+        </div>
+
+        {/* Pivot */}
+        <div className="mb-6">
+          <h3 className="text-sm font-semibold mb-3 text-blue-400">Pivot (moves all)</h3>
+          <div className="space-y-3">
+            {(['x', 'y', 'z'] as const).map(axis => (
+              <div key={axis} className="flex items-center gap-3">
+                <label className="w-4 text-sm font-mono uppercase">{axis}</label>
+                <LengthInput
+                  value={pivot[axis]}
+                  units={units}
+                  onChange={(value) => handlePivotChange(axis, value)}
+                  className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Members */}
+        <div>
+          <h3 className="text-sm font-semibold mb-3 text-gray-300">Selection</h3>
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {selectedObjects.map(obj => (
+              <div key={obj.id} className="text-xs font-mono text-gray-400 bg-gray-700 px-2 py-1 rounded truncate">
+                {obj.id}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (!selectedObject) {
     return (
       <div className="bg-gray-800 text-white p-4 flex items-center justify-center h-full">
@@ -111,12 +176,11 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           {(['x', 'y', 'z'] as const).map(axis => (
             <div key={axis} className="flex items-center gap-3">
               <label className="w-4 text-sm font-mono uppercase">{axis}</label>
-              <input
-                type="number"
-                step="0.1"
-                value={selectedObject.position[axis].toFixed(2)}
-                onChange={(e) => handlePositionChange(axis, parseFloat(e.target.value) || 0)}
-                className="flex-1 bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm focus:border-blue-500 focus:outline-none"
+              <LengthInput
+                value={selectedObject.position[axis]}
+                units={units}
+                onChange={(value) => handlePositionChange(axis, value)}
+                className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm focus:border-blue-500 focus:outline-none"
               />
             </div>
           ))}
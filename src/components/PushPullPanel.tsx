@@ -0,0 +1,68 @@
+import React from 'react';
+import { X, CornerUpRight, Check } from 'lucide-react';
+import { UnitSettings } from '../utils/units';
+import { LengthInput } from './LengthInput';
+
+interface PushPullPanelProps {
+  // Current distance of the picked face, or null while no face is picked
+  distance: number | null;
+  error: string | null;
+  onDistanceChange: (distance: number) => void;
+  onClose: () => void;
+  units: UnitSettings;
+}
+
+export const PushPullPanel: React.FC<PushPullPanelProps> = ({
+  distance,
+  error,
+  onDistanceChange,
+  onClose,
+  units
+}) => {
+  return (
+    <div className="fixed top-20 left-4 bg-gray-900 bg-opacity-95 rounded-xl shadow-2xl border border-gray-700 p-4 w-64 z-40">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <CornerUpRight size={16} className="text-blue-400" />
+          <h2 className="text-sm font-bold text-white">Push / Pull</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition-colors p-1 hover:bg-gray-700 rounded"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {distance === null ? (
+        <div className="p-2 mb-3 bg-gray-800 rounded text-xs text-gray-300">Click a face of the object</div>
+      ) : (
+        <div className="space-y-2 mb-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-300">Distance</span>
+            <LengthInput
+              value={distance}
+              units={units}
+              onChange={(value) => {
+                if (value !== distance) onDistanceChange(value);
+              }}
+              className="w-16 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none"
+            />
+          </div>
+          <p className="text-xs text-gray-500">Drag the arrow or type a distance; negative values push into the solid</p>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+
+      <button
+        onClick={onClose}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors text-xs font-medium"
+      >
+        <Check size={14} />
+        Done
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { X, RotateCw } from 'lucide-react';
+import { SketchShape3D } from '../utils/sketch3d';
+import { RevolveAxis, RevolveEngine, RevolveSettings } from '../three/RevolveEngine';
+
+interface RevolveDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRevolve: (settings: RevolveSettings) => void;
+  shapes: SketchShape3D[];
+}
+
+const encodeAxis = (axis: RevolveAxis) => axis.kind === 'world' ? `world:${axis.axis}` : `line:${axis.shapeId}`;
+const decodeAxis = (value: string): RevolveAxis => {
+  const split = value.indexOf(':');
+  const kind = value.slice(0, split);
+  const rest = value.slice(split + 1);
+  return kind === 'world' ? { kind: 'world', axis: rest as 'x' | 'y' | 'z' } : { kind: 'line', shapeId: rest };
+};
+
+export const RevolveDialog: React.FC<RevolveDialogProps> = ({
+  isOpen,
+  onClose,
+  onRevolve,
+  shapes
+}) => {
+  const [settings, setSettings] = useState<RevolveSettings>({
+    axis: { kind: 'world', axis: 'x' },
+    angle: 360,
+    segments: 32,
+    capped: true
+  });
+
+  const axisLines = RevolveEngine.axisCandidates(shapes);
+  const profileCount = shapes.length - (settings.axis.kind === 'line' ? 1 : 0);
+
+  const handleRevolve = () => {
+    onRevolve(settings);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-xl shadow-2xl border border-gray-700 p-6 max-w-md w-full mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-600 rounded-lg">
+              <RotateCw size={20} className="text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Revolve Profile</h2>
+              <p className="text-sm text-gray-400">Spin a sketch around an axis</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors p-1 hover:bg-gray-700 rounded"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Profile info */}
+        <div className="mb-6 p-3 bg-gray-800 rounded-lg border border-gray-600">
+          <p className="text-white text-sm">
+            {profileCount > 0 ? (
+              'The first sketch shape other than the axis is used as the profile'
+            ) : (
+              <span className="text-yellow-400">Draw a profile to revolve</span>
+            )}
+          </p>
+        </div>
+
+        {/* Revolve Options */}
+        <div className="space-y-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Axis
+            </label>
+            <select
+              value={encodeAxis(settings.axis)}
+              onChange={(e) => setSettings(prev => ({ ...prev, axis: decodeAxis(e.target.value) }))}
+              className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white text-sm focus:border-blue-500 focus:outline-none"
+            >
+              <option value="world:x">World X</option>
+              <option value="world:y">World Y</option>
+              <option value="world:z">World Z</option>
+              {axisLines.map((line, i) => (
+                <option key={line.id} value={`line:${line.id}`}>Sketch line {i + 1}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Angle
+            </label>
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min="5"
+                max="360"
+                step="5"
+                value={settings.angle}
+                onChange={(e) => setSettings(prev => ({ ...prev, angle: parseFloat(e.target.value) }))}
+                className="flex-1"
+              />
+              <div className="w-16 px-2 py-1 bg-gray-800 rounded text-white text-sm text-center">
+                {settings.angle}°
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Segments
+            </label>
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min="3"
+                max="128"
+                step="1"
+                value={settings.segments}
+                onChange={(e) => setSettings(prev => ({ ...prev, segments: parseInt(e.target.value) }))}
+                className="flex-1"
+              />
+              <div className="w-16 px-2 py-1 bg-gray-800 rounded text-white text-sm text-center">
+                {settings.segments}
+              </div>
+            </div>
+          </div>
+
+          <label className={`flex items-center gap-2 ${settings.angle >= 360 ? 'opacity-50' : ''}`}>
+            <input
+              type="checkbox"
+              checked={settings.capped}
+              disabled={settings.angle >= 360}
+              onChange={(e) => setSettings(prev => ({ ...prev, capped: e.target.checked }))}
+              className="rounded"
+            />
+            <span className="text-sm text-gray-300">Cap start and end faces</span>
+          </label>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRevolve}
+            disabled={profileCount === 0}
+            className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+          >
+            <RotateCw size={16} />
+            Revolve
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,108 @@
-import React from 'react';
-import { RenderObject } from '../webgl/renderer';
-import { Eye, EyeOff, Box, Circle, Cylinder } from 'lucide-react';
+import React, { useState } from 'react';
+import { RenderObject } from '../three/ThreeRenderer';
+import { Eye, EyeOff, Box, Circle, Cylinder, ChevronRight, ChevronDown, Folder } from 'lucide-react';
+import { Feature, FeatureEngine } from '../three/FeatureEngine';
+import { FeatureParamsEditor } from './FeatureParamsEditor';
+import { UnitSettings } from '../utils/units';
 
 interface SceneHierarchyProps {
   objects: RenderObject[];
-  selectedObjectId: string | null;
-  onObjectSelect: (id: string) => void;
+  selectedObjectIds: string[];
+  // `additive` is true for Shift/Ctrl clicks, which toggle the object in the selection
+  onObjectSelect: (id: string, additive: boolean) => void;
   onObjectVisibilityToggle: (id: string) => void;
+  onFeatureUpdate?: (objectId: string, featureId: string, params: Partial<Feature['params']>) => void;
+  units: UnitSettings;
 }
 
 export const SceneHierarchy: React.FC<SceneHierarchyProps> = ({
   objects,
-  selectedObjectId,
+  selectedObjectIds,
   onObjectSelect,
-  onObjectVisibilityToggle
+  onObjectVisibilityToggle,
+  onFeatureUpdate,
+  units
 }) => {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [editingFeatureId, setEditingFeatureId] = useState<string | null>(null);
+  const [collapsedGroupIds, setCollapsedGroupIds] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleGroup = (id: string) => {
+    setCollapsedGroupIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Boolean features nest their operands' feature lists, so the tree recurses through them
+  const renderFeatures = (objectId: string, features: Feature[], depth: number): React.ReactNode => (
+    <div className="space-y-0.5" style={{ marginLeft: depth * 12 }}>
+      {features.map((feature, index) => {
+        const isEditing = editingFeatureId === feature.id;
+        const isExpanded = expandedIds.has(feature.id);
+        return (
+          <div key={feature.id}>
+            <div
+              className={`
+                flex items-center gap-1 px-2 py-1 rounded cursor-pointer text-xs transition-all duration-200
+                ${isEditing ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700'}
+              `}
+              onClick={() => setEditingFeatureId(isEditing ? null : feature.id)}
+            >
+              {feature.type === 'boolean' ? (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    toggleExpanded(feature.id);
+                  }}
+                  className="opacity-60 hover:opacity-100"
+                >
+                  {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                </button>
+              ) : (
+                <span className="w-3" />
+              )}
+              <span className="font-mono opacity-50 w-4">{index + 1}</span>
+              <span className="flex-1 truncate">{FeatureEngine.describe(feature)}</span>
+            </div>
+            {isEditing && onFeatureUpdate && (
+              <div className="ml-6 my-1 p-2 bg-gray-900/60 rounded">
+                <FeatureParamsEditor
+                  feature={feature}
+                  onChange={(params) => onFeatureUpdate(objectId, feature.id, params)}
+                  units={units}
+                />
+              </div>
+            )}
+            {feature.type === 'boolean' && isExpanded && feature.params.operands.map((operand, operandIndex) => (
+              <div key={operandIndex} className="ml-4">
+                <div className="px-2 py-0.5 text-xs text-gray-500 italic">Operand {operandIndex + 1}</div>
+                {renderFeatures(objectId, operand.features, 1)}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+
   const getObjectIcon = (id: string) => {
     if (id.includes('cube')) return Box;
     if (id.includes('sphere')) return Circle;
@@ -22,11 +110,103 @@ export const SceneHierarchy: React.FC<SceneHierarchyProps> = ({
     return Box;
   };
 
-  const getObjectName = (id: string) => {
-    const parts = id.split('-');
+  const getObjectName = (obj: RenderObject) => {
+    if (obj.name) return obj.name;
+    const parts = obj.id.split('-');
     return parts[0].charAt(0).toUpperCase() + parts[0].slice(1);
   };
 
+  // Imported files keep their node tree: hierarchy entries that are not objects become groups
+  const objectIds = new Set(objects.map(obj => obj.id));
+  const groups = new Map<string, { name: string; parentId?: string }>();
+  objects.forEach(obj => obj.hierarchy?.forEach((node, i) => {
+    if (!objectIds.has(node.id) && !groups.has(node.id)) {
+      groups.set(node.id, { name: node.name, parentId: obj.hierarchy![i - 1]?.id });
+    }
+  }));
+  const parentOf = (obj: RenderObject) => obj.hierarchy?.[obj.hierarchy.length - 1]?.id;
+  const countObjects = (groupId: string): number =>
+    objects.filter(obj => obj.hierarchy?.some(node => node.id === groupId)).length;
+
+  const renderObject = (obj: RenderObject, depth: number): React.ReactNode => {
+    const IconComponent = getObjectIcon(obj.id);
+    const isSelected = selectedObjectIds.includes(obj.id);
+    const isExpanded = expandedIds.has(obj.id);
+
+    return (
+      <div key={obj.id}>
+        <div
+          className={`
+            flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-all duration-200
+            ${isSelected 
+              ? 'bg-blue-600 text-white' 
+              : 'hover:bg-gray-700 text-gray-300'
+            }
+          `}
+          style={{ marginLeft: depth * 12 }}
+          onClick={(e) => onObjectSelect(obj.id, e.shiftKey || e.ctrlKey || e.metaKey)}
+        >
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleExpanded(obj.id);
+            }}
+            className="opacity-50 hover:opacity-100 transition-opacity"
+            title="Show feature history"
+          >
+            {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          </button>
+          <IconComponent size={14} />
+          <span className="flex-1 text-sm truncate">
+            {getObjectName(obj)}
+          </span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onObjectVisibilityToggle(obj.id);
+            }}
+            className="opacity-50 hover:opacity-100 transition-opacity"
+          >
+            {obj.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+          </button>
+        </div>
+        {isExpanded && (
+          <div className="mt-1 mb-2" style={{ marginLeft: depth * 12 }}>
+            {renderFeatures(obj.id, FeatureEngine.featuresOf(obj), 1)}
+          </div>
+        )}
+        {renderLevel(obj.id, depth + 1)}
+      </div>
+    );
+  };
+
+  // Groups and objects directly under a node (or at the top level when parentId is undefined)
+  const renderLevel = (parentId: string | undefined, depth: number): React.ReactNode => (
+    <>
+      {Array.from(groups.entries())
+        .filter(([, group]) => group.parentId === parentId)
+        .map(([groupId, group]) => {
+          const isCollapsed = collapsedGroupIds.has(groupId);
+          return (
+            <div key={groupId}>
+              <div
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg cursor-pointer text-gray-400 hover:bg-gray-700 transition-all duration-200"
+                style={{ marginLeft: depth * 12 }}
+                onClick={() => toggleGroup(groupId)}
+              >
+                {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                <Folder size={14} />
+                <span className="flex-1 text-sm truncate">{group.name}</span>
+                <span className="text-xs opacity-60">{countObjects(groupId)}</span>
+              </div>
+              {!isCollapsed && renderLevel(groupId, depth + 1)}
+            </div>
+          );
+        })}
+      {objects.filter(obj => parentOf(obj) === parentId).map(obj => renderObject(obj, depth))}
+    </>
+  );
+
   return (
     <div className="bg-gray-800/60 backdrop-blur-md text-white p-4 rounded-lg shadow-md">
       <h2 className="text-lg font-semibold mb-4">Scene Hierarchy</h2>
@@ -38,38 +218,7 @@ export const SceneHierarchy: React.FC<SceneHierarchyProps> = ({
         </div>
       ) : (
         <div className="space-y-1">
-          {objects.map(obj => {
-            const IconComponent = getObjectIcon(obj.id);
-            const isSelected = selectedObjectId === obj.id;
-            
-            return (
-              <div
-                key={obj.id}
-                className={`
-                  flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-all duration-200
-                  ${isSelected 
-                    ? 'bg-blue-600 text-white' 
-                    : 'hover:bg-gray-700 text-gray-300'
-                  }
-                `}
-                onClick={() => onObjectSelect(obj.id)}
-              >
-                <IconComponent size={14} />
-                <span className="flex-1 text-sm truncate">
-                  {getObjectName(obj.id)}
-                </span>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onObjectVisibilityToggle(obj.id);
-                  }}
-                  className="opacity-50 hover:opacity-100 transition-opacity"
-                >
-                  <Eye size={14} />
-                </button>
-              </div>
-            );
-          })}
+          {renderLevel(undefined, 0)}
         </div>
       )}
 
@@ -77,7 +226,14 @@ export const SceneHierarchy: React.FC<SceneHierarchyProps> = ({
       <div className="mt-6 pt-4 border-t border-gray-700">
         <div className="text-xs text-gray-400">
           <div>Objects: {objects.length}</div>
-          <div>Selected: {selectedObjectId ? getObjectName(selectedObjectId) : 'None'}</div>
+          <div>
+            Selected: {selectedObjectIds.length === 0
+              ? 'None'
+              : selectedObjectIds.length === 1
+                ? getObjectName(objects.find(obj => obj.id === selectedObjectIds[0]) ?? { id: selectedObjectIds[0] } as RenderObject)
+                : `${selectedObjectIds.length} objects`}
+          </div>
+          <div className="mt-1 text-gray-500">Shift/Ctrl+Click to multi-select</div>
         </div>
       </div>
     </div>
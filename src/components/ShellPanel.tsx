@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { X, Box, Check, Eraser } from 'lucide-react';
+import { ShellDirection } from '../three/ShellEngine';
+import { UnitSettings } from '../utils/units';
+import { LengthInput } from './LengthInput';
+
+interface ShellPanelProps {
+  faceCount: number;
+  onApply: (thickness: number, direction: ShellDirection) => void;
+  onClearFaces: () => void;
+  onClose: () => void;
+  units: UnitSettings;
+}
+
+const DIRECTIONS: Array<{ value: ShellDirection; label: string }> = [
+  { value: 'inward', label: 'Inward' },
+  { value: 'outward', label: 'Outward' },
+  { value: 'centered', label: 'Centered' }
+];
+
+export const ShellPanel: React.FC<ShellPanelProps> = ({
+  faceCount,
+  onApply,
+  onClearFaces,
+  onClose,
+  units
+}) => {
+  const [thickness, setThickness] = useState(0.1);
+  const [direction, setDirection] = useState<ShellDirection>('inward');
+
+  const valid = thickness > 0;
+
+  const handleApply = () => {
+    if (!valid) return;
+    onApply(thickness, direction);
+  };
+
+  return (
+    <div className="fixed top-20 left-4 bg-gray-900 bg-opacity-95 rounded-xl shadow-2xl border border-gray-700 p-4 w-64 z-40">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Box size={16} className="text-blue-400" />
+          <h2 className="text-sm font-bold text-white">Shell</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition-colors p-1 hover:bg-gray-700 rounded"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Parameters */}
+      <div className="space-y-2 mb-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-300">Thickness</span>
+          <LengthInput
+            value={thickness}
+            units={units}
+            onChange={setThickness}
+            className="w-16 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-1">
+          {DIRECTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setDirection(option.value)}
+              className={`px-2 py-1 rounded text-xs transition-colors ${
+                direction === option.value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Selection */}
+      <div className="flex items-center justify-between mb-3 p-2 bg-gray-800 rounded text-xs">
+        <span className="text-gray-300">
+          {faceCount === 0 ? 'Click faces to remove (optional)' : `${faceCount} face${faceCount !== 1 ? 's' : ''} removed`}
+        </span>
+        {faceCount > 0 && (
+          <button
+            onClick={onClearFaces}
+            className="text-gray-400 hover:text-white"
+            title="Clear face selection"
+          >
+            <Eraser size={12} />
+          </button>
+        )}
+      </div>
+
+      {/* Actions */}
+      <button
+        onClick={handleApply}
+        disabled={!valid}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg transition-colors text-xs font-medium"
+      >
+        <Check size={14} />
+        Apply Shell
+      </button>
+    </div>
+  );
+};
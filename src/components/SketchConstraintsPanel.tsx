@@ -0,0 +1,226 @@
+import React, { useMemo, useState } from 'react';
+import { Link2, Plus, X } from 'lucide-react';
+import { SketchShape3D } from '../utils/sketch3d';
+import {
+  CONSTRAINT_ARITY,
+  ConstraintSolveResult,
+  SketchConstraint,
+  SketchConstraintSolver,
+  SketchConstraintType,
+  SketchRef
+} from '../utils/constraints';
+
+interface SketchConstraintsPanelProps {
+  shapes: SketchShape3D[];
+  constraints: SketchConstraint[];
+  solveResult: Omit<ConstraintSolveResult, 'shapes'> | null;
+  onAddConstraint: (type: SketchConstraintType, refs: SketchRef[], value?: number) => void;
+  onRemoveConstraint: (id: string) => void;
+}
+
+interface RefOption {
+  value: string;
+  label: string;
+}
+
+const constraintLabels: Record<SketchConstraintType, string> = {
+  coincident: 'Coincident',
+  horizontal: 'Horizontal',
+  vertical: 'Vertical',
+  parallel: 'Parallel',
+  perpendicular: 'Perpendicular',
+  tangent: 'Tangent',
+  equal: 'Equal',
+  fixed: 'Fixed',
+  distance: 'Distance',
+  angle: 'Angle (°)',
+  radius: 'Radius'
+};
+
+const encodeRef = (ref: SketchRef) => `${ref.shapeId}:${ref.index}`;
+const decodeRef = (value: string): SketchRef => {
+  const split = value.lastIndexOf(':');
+  return { shapeId: value.slice(0, split), index: parseInt(value.slice(split + 1), 10) };
+};
+
+export const SketchConstraintsPanel: React.FC<SketchConstraintsPanelProps> = ({
+  shapes,
+  constraints,
+  solveResult,
+  onAddConstraint,
+  onRemoveConstraint
+}) => {
+  const [type, setType] = useState<SketchConstraintType>('horizontal');
+  const [refValues, setRefValues] = useState<string[]>([]);
+  const [value, setValue] = useState('');
+
+  const shapeLabel = (shape: SketchShape3D, index: number) =>
+    `${shape.type.charAt(0).toUpperCase()}${shape.type.slice(1)} ${index + 1}`;
+
+  const options = useMemo(() => {
+    const points: RefOption[] = [];
+    const lines: RefOption[] = [];
+    const circles: RefOption[] = [];
+    shapes.forEach((shape, shapeIndex) => {
+      const label = shapeLabel(shape, shapeIndex);
+      if (shape.type === 'circle') {
+        points.push({ value: encodeRef({ shapeId: shape.id, index: 0 }), label: `${label} · Center` });
+        circles.push({ value: encodeRef({ shapeId: shape.id, index: 0 }), label });
+        return;
+      }
+      shape.points.forEach((_, i) => {
+        points.push({ value: encodeRef({ shapeId: shape.id, index: i }), label: `${label} · P${i + 1}` });
+      });
+      for (let i = 0; i < SketchConstraintSolver.edgeCount(shape); i++) {
+        lines.push({ value: encodeRef({ shapeId: shape.id, index: i }), label: `${label} · Edge ${i + 1}` });
+      }
+    });
+    return { points, lines, circles };
+  }, [shapes]);
+
+  const arity = CONSTRAINT_ARITY[type];
+  const refOptions = arity.kind === 'point'
+    ? options.points
+    : arity.kind === 'line'
+      ? options.lines
+      : arity.kind === 'circle'
+        ? options.circles
+        : [...options.lines, ...options.circles];
+
+  const selectedRefs = Array.from({ length: arity.refs }, (_, i) => refValues[i] || '');
+  const parsedValue = parseFloat(value);
+  const canAdd = selectedRefs.every(Boolean)
+    && new Set(selectedRefs).size === selectedRefs.length
+    && (!arity.needsValue || Number.isFinite(parsedValue));
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAddConstraint(type, selectedRefs.map(decodeRef), arity.needsValue ? parsedValue : undefined);
+    setRefValues([]);
+    setValue('');
+  };
+
+  const describeRef = (ref: SketchRef) => {
+    const all = [...options.points, ...options.lines, ...options.circles];
+    return all.find(option => option.value === encodeRef(ref))?.label ?? '(missing)';
+  };
+
+  const statusStyle = !solveResult
+    ? 'bg-gray-700 text-gray-300'
+    : solveResult.status === 'fully-constrained'
+      ? 'bg-green-700 text-white'
+      : solveResult.status === 'over-constrained'
+        ? 'bg-red-700 text-white'
+        : solveResult.status === 'redundant'
+          ? 'bg-orange-700 text-white'
+          : 'bg-yellow-700 text-white';
+
+  const statusText = !solveResult
+    ? 'No constraints'
+    : solveResult.status === 'fully-constrained'
+      ? 'Fully constrained'
+      : solveResult.status === 'over-constrained'
+        ? 'Over-constrained (conflict)'
+        : solveResult.status === 'redundant'
+          ? `Redundant constraints (${solveResult.dof} DOF)`
+          : `Under-constrained (${solveResult.dof} DOF)`;
+
+  const selectClassName = 'w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-gray-300 font-medium flex items-center gap-1">
+          <Link2 size={12} />
+          Constraints:
+        </span>
+        <span className={`px-2 py-0.5 rounded text-xs ${statusStyle}`}>{statusText}</span>
+      </div>
+
+      {shapes.length === 0 ? (
+        <div className="text-xs text-gray-500">Finish a sketch to add constraints</div>
+      ) : (
+        <div className="space-y-1">
+          <select
+            value={type}
+            onChange={(e) => {
+              setType(e.target.value as SketchConstraintType);
+              setRefValues([]);
+            }}
+            className={selectClassName}
+          >
+            {(Object.keys(constraintLabels) as SketchConstraintType[]).map(t => (
+              <option key={t} value={t}>{constraintLabels[t]}</option>
+            ))}
+          </select>
+
+          {selectedRefs.map((refValue, i) => (
+            <select
+              key={i}
+              value={refValue}
+              onChange={(e) => {
+                const next = [...selectedRefs];
+                next[i] = e.target.value;
+                setRefValues(next);
+              }}
+              className={selectClassName}
+            >
+              <option value="">Select {arity.kind === 'point' ? 'point' : arity.kind === 'circle' ? 'circle' : 'entity'} {i + 1}…</option>
+              {refOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          ))}
+
+          <div className="flex gap-1">
+            {arity.needsValue && (
+              <input
+                type="number"
+                step="0.1"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={type === 'angle' ? 'Degrees' : 'Value'}
+                className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none"
+              />
+            )}
+            <button
+              onClick={handleAdd}
+              disabled={!canAdd}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded text-xs transition-colors"
+            >
+              <Plus size={12} />
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+
+      {constraints.length > 0 && (
+        <div className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+          {constraints.map(constraint => {
+            const failing = solveResult?.unsatisfied.includes(constraint.id);
+            return (
+              <div
+                key={constraint.id}
+                className={`flex items-center gap-2 px-2 py-1 rounded text-xs ${failing ? 'bg-red-900/60 text-red-200' : 'bg-gray-800 text-gray-300'}`}
+              >
+                <span className="flex-1 truncate">
+                  {constraintLabels[constraint.type]}
+                  {constraint.value !== undefined && ` = ${constraint.value}`}
+                  <span className="text-gray-500"> · {constraint.refs.map(describeRef).join(', ')}</span>
+                </span>
+                <button
+                  onClick={() => onRemoveConstraint(constraint.id)}
+                  className="text-gray-500 hover:text-white"
+                  title="Remove constraint"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
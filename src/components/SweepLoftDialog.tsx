@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { X, Spline, Layers } from 'lucide-react';
+import { SketchShape3D } from '../utils/sketch3d';
+import { SweepSettings } from '../three/SweepEngine';
+import { LoftSettings } from '../three/LoftEngine';
+
+export type SweepLoftMode = 'sweep' | 'loft';
+
+interface SweepLoftDialogProps {
+  isOpen: boolean;
+  mode: SweepLoftMode;
+  onClose: () => void;
+  onSweep: (profile: SketchShape3D, path: SketchShape3D, settings: SweepSettings) => void;
+  onLoft: (profiles: SketchShape3D[], settings: LoftSettings) => void;
+  shapes: SketchShape3D[];
+}
+
+// Shapes that can act as a closed cross-section
+const isProfile = (shape: SketchShape3D) =>
+  shape.type === 'circle' ? shape.points.length >= 2 : shape.closed && shape.points.length >= 3;
+
+const shapeLabel = (shape: SketchShape3D, index: number) =>
+  `${shape.type.charAt(0).toUpperCase()}${shape.type.slice(1)} ${index + 1}`;
+
+export const SweepLoftDialog: React.FC<SweepLoftDialogProps> = ({
+  isOpen,
+  mode,
+  onClose,
+  onSweep,
+  onLoft,
+  shapes
+}) => {
+  const [profileId, setProfileId] = useState('');
+  const [pathId, setPathId] = useState('');
+  const [loftIds, setLoftIds] = useState<string[]>([]);
+  const [options, setOptions] = useState<LoftSettings>({
+    twist: 0,
+    endScale: 1,
+    capped: true,
+    segments: 8
+  });
+
+  const profiles = shapes.filter(isProfile);
+  const paths = shapes.filter(shape => shape.type !== 'circle' && shape.points.length >= 2 && shape.id !== profileId);
+
+  // Preselect a sensible setup each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const firstProfile = shapes.find(isProfile);
+    setProfileId(firstProfile?.id ?? '');
+    setPathId(shapes.find(shape => shape !== firstProfile && shape.type !== 'circle' && shape.points.length >= 2)?.id ?? '');
+    setLoftIds(shapes.filter(isProfile).map(shape => shape.id));
+  }, [isOpen, shapes]);
+
+  const profile = shapes.find(shape => shape.id === profileId);
+  const path = shapes.find(shape => shape.id === pathId);
+  // Loft order follows the sketch order
+  const loftProfiles = shapes.filter(shape => loftIds.includes(shape.id));
+  const canApply = mode === 'sweep' ? Boolean(profile && path) : loftProfiles.length >= 2;
+
+  const handleApply = () => {
+    if (!canApply) return;
+    if (mode === 'sweep') {
+      onSweep(profile!, path!, { twist: options.twist, endScale: options.endScale, capped: options.capped });
+    } else {
+      onLoft(loftProfiles, options);
+    }
+    onClose();
+  };
+
+  const toggleLoftProfile = (id: string) => {
+    setLoftIds(prev => (prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]));
+  };
+
+  if (!isOpen) return null;
+
+  const Icon = mode === 'sweep' ? Spline : Layers;
+  const selectClassName = 'w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white text-sm focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-xl shadow-2xl border border-gray-700 p-6 max-w-md w-full mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-600 rounded-lg">
+              <Icon size={20} className="text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">{mode === 'sweep' ? 'Sweep Profile' : 'Loft Profiles'}</h2>
+              <p className="text-sm text-gray-400">
+                {mode === 'sweep' ? 'Move a closed profile along a path' : 'Blend between closed profiles'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors p-1 hover:bg-gray-700 rounded"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Shape selection */}
+        <div className="space-y-4 mb-6">
+          {mode === 'sweep' ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Profile</label>
+                <select value={profileId} onChange={(e) => setProfileId(e.target.value)} className={selectClassName}>
+                  <option value="">Select a closed shape…</option>
+                  {profiles.map(shape => (
+                    <option key={shape.id} value={shape.id}>{shapeLabel(shape, shapes.indexOf(shape))}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Path</label>
+                <select value={pathId} onChange={(e) => setPathId(e.target.value)} className={selectClassName}>
+                  <option value="">Select a line chain or spline…</option>
+                  {paths.map(shape => (
+                    <option key={shape.id} value={shape.id}>{shapeLabel(shape, shapes.indexOf(shape))}</option>
+                  ))}
+                </select>
+              </div>
+            </>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Profiles (in sketch order)</label>
+              {profiles.length < 2 ? (
+                <p className="text-sm text-yellow-400">Draw at least two closed profiles</p>
+              ) : (
+                <div className="space-y-1 max-h-32 overflow-y-auto">
+                  {profiles.map(shape => (
+                    <label key={shape.id} className="flex items-center gap-2 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={loftIds.includes(shape.id)}
+                        onChange={() => toggleLoftProfile(shape.id)}
+                        className="rounded"
+                      />
+                      {shapeLabel(shape, shapes.indexOf(shape))}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Twist</label>
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min="-360"
+                max="360"
+                step="5"
+                value={options.twist}
+                onChange={(e) => setOptions(prev => ({ ...prev, twist: parseFloat(e.target.value) }))}
+                className="flex-1"
+              />
+              <div className="w-16 px-2 py-1 bg-gray-800 rounded text-white text-sm text-center">
+                {options.twist}°
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">End Scale</label>
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min="0.1"
+                max="3"
+                step="0.05"
+                value={options.endScale}
+                onChange={(e) => setOptions(prev => ({ ...prev, endScale: parseFloat(e.target.value) }))}
+                className="flex-1"
+              />
+              <div className="w-16 px-2 py-1 bg-gray-800 rounded text-white text-sm text-center">
+                {options.endScale.toFixed(2)}
+              </div>
+            </div>
+          </div>
+
+          {mode === 'loft' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Segments Between Profiles</label>
+              <div className="flex items-center gap-3">
+                <input
+                  type="range"
+                  min="1"
+                  max="32"
+                  step="1"
+                  value={options.segments}
+                  onChange={(e) => setOptions(prev => ({ ...prev, segments: parseInt(e.target.value) }))}
+                  className="flex-1"
+                />
+                <div className="w-16 px-2 py-1 bg-gray-800 rounded text-white text-sm text-center">
+                  {options.segments}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.capped}
+              onChange={(e) => setOptions(prev => ({ ...prev, capped: e.target.checked }))}
+              className="rounded"
+            />
+            <span className="text-sm text-gray-300">Cap ends</span>
+          </label>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!canApply}
+            className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+          >
+            <Icon size={16} />
+            {mode === 'sweep' ? 'Sweep' : 'Loft'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
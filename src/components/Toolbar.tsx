@@ -1,8 +1,9 @@
 import React from 'react';
 import { 
   Box, Circle, Cylinder, Trash2, Move, RotateCcw, Scale, 
-  PenTool, Ruler, Lightbulb, Grid, Target, Layers, Plane, Upload
+  PenTool, Ruler, Lightbulb, Grid, Target, Layers, Plane, Upload, Undo2, Redo2
 } from 'lucide-react';
+import { UnitSettings } from '../utils/units';
 
 interface ToolbarProps {
   activeTool: string;
@@ -14,11 +15,16 @@ interface ToolbarProps {
   onToggleMeasurement: () => void;
   onToggleLighting: () => void;
   onToggleGrid: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   hasSelection: boolean;
   measurementActive: boolean;
   lightingPanelOpen: boolean;
   gridPanelOpen: boolean;
   sketchMode?: boolean;
+  units: UnitSettings;
 }
 
 export const Toolbar: React.FC<ToolbarProps> = ({
@@ -31,11 +37,16 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   onToggleMeasurement,
   onToggleLighting,
   onToggleGrid,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
   hasSelection,
   measurementActive,
   lightingPanelOpen,
   gridPanelOpen,
-  sketchMode = false
+  sketchMode = false,
+  units
 }) => {
   const basicTools = [
     { id: 'select', icon: Move, label: 'Select' },
@@ -202,6 +213,38 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           <Target size={16} />
           Actions
         </h3>
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className={`
+              flex items-center justify-center gap-2 px-3 py-2 rounded-lg transition-all duration-200 border
+              ${canUndo
+                ? 'text-gray-300 hover:bg-gray-700 hover:text-white border-gray-600 hover:border-gray-500'
+                : 'text-gray-500 border-gray-600 cursor-not-allowed'
+              }
+            `}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 size={18} />
+            <span className="text-sm">Undo</span>
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className={`
+              flex items-center justify-center gap-2 px-3 py-2 rounded-lg transition-all duration-200 border
+              ${canRedo
+                ? 'text-gray-300 hover:bg-gray-700 hover:text-white border-gray-600 hover:border-gray-500'
+                : 'text-gray-500 border-gray-600 cursor-not-allowed'
+              }
+            `}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={18} />
+            <span className="text-sm">Redo</span>
+          </button>
+        </div>
         <button
           onClick={onDeleteSelected}
           disabled={!hasSelection || sketchMode}
@@ -230,7 +273,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
               <div>• Click faces to select and highlight</div>
               <div>• Edges are highlighted in green</div>
               <div>• Measure distance between faces</div>
-              <div>• Measurements shown in mm</div>
+              <div>• Measurements shown in {units.unit}</div>
             </div>
           </div>
         </div>
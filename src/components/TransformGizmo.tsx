@@ -12,6 +12,8 @@ interface TransformGizmoProps {
   onTransformStart?: () => void;
   onTransformEnd?: () => void;
   onTransform?: (object: THREE.Object3D) => void;
+  // Restricts dragging to one local axis of the object (e.g. a push/pull handle)
+  axis?: 'x' | 'y' | 'z';
 }
 
 export const TransformGizmo: React.FC<TransformGizmoProps> = ({
@@ -23,6 +25,7 @@ export const TransformGizmo: React.FC<TransformGizmoProps> = ({
   onTransformStart,
   onTransformEnd,
   onTransform,
+  axis,
 }) => {
   const controlsRef = useRef<TransformControls | null>(null);
 
@@ -34,6 +37,13 @@ export const TransformGizmo: React.FC<TransformGizmoProps> = ({
     const controls = new TransformControls(camera, renderer.domElement);
     controlsRef.current = controls;
 
+    if (axis) {
+      controls.space = 'local';
+      controls.showX = axis === 'x';
+      controls.showY = axis === 'y';
+      controls.showZ = axis === 'z';
+    }
+
     // Event listener for when dragging starts or ends
     const handleDragChange = (event: THREE.Event) => {
       // The 'value' property indicates if dragging is active
@@ -70,7 +80,7 @@ export const TransformGizmo: React.FC<TransformGizmoProps> = ({
       scene.remove(controls);
       controls.dispose(); // Important for releasing resources
     };
-  }, [scene, camera, renderer, onTransformStart, onTransformEnd, onTransform, selectedObject]); // Re-run effect if these dependencies change
+  }, [scene, camera, renderer, onTransformStart, onTransformEnd, onTransform, selectedObject, axis]); // Re-run effect if these dependencies change
 
   // Effect to update the transformation mode (translate, rotate, scale)
   useEffect(() => {
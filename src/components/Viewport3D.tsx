@@ -1,14 +1,25 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
 import { ThreeRenderer, RenderObject, LightSettings, GridSettings } from '../three/ThreeRenderer';
 import { TransformGizmo } from './TransformGizmo';
+import { FaceSelector, SelectedEdge, SelectedFace } from './FaceSelector';
+import { EdgeSegment } from '../three/FilletEngine';
 import { SketchEngine3D, SketchShape3D } from '../utils/sketch3d';
 import { Vec3 } from '../utils/math';
 import * as THREE from 'three'; // Import THREE for Object3D type
 
+export interface ObjectTransformUpdate {
+    id: string;
+    position: Vec3;
+    rotation: Vec3;
+    scale: Vec3;
+}
+
 interface Viewport3DProps {
     objects: RenderObject[];
-    selectedObjectId: string | null;
-    onObjectSelect: (id: string | null) => void;
+    selectedObjectIds: string[];
+    // `additive` is true for Shift/Ctrl clicks, which toggle the object in the selection
+    onObjectSelect: (id: string | null, additive: boolean) => void;
+    onBoxSelect?: (ids: string[], additive: boolean) => void;
     onCameraUpdate?: (position: Vec3, target: Vec3) => void;
     lightSettings: LightSettings;
     gridSettings: GridSettings;
@@ -16,6 +27,7 @@ interface Viewport3DProps {
     measurementActive?: boolean;
     transformMode: 'translate' | 'rotate' | 'scale';
     onObjectTransform?: (id: string, transform: { position?: Vec3; rotation?: Vec3; scale?: Vec3 }) => void;
+    onObjectsTransform?: (updates: ObjectTransformUpdate[]) => void;
     sketchMode?: boolean;
     onSketchComplete?: (shapes: SketchShape3D[]) => void;
     sketchTool?: string;
@@ -26,16 +38,34 @@ interface Viewport3DProps {
         workplaneVisible: boolean;
     };
     onSketchSettingsChange?: (settings: any) => void;
+    // Edge/face picking for fillets, chamfers and shells: only this object can be picked
+    pickObjectId?: string | null;
+    pickMode?: 'face' | 'edge';
+    highlightedEdges?: EdgeSegment[];
+    // Triangle indices of the picked object's geometry
+    highlightedFaces?: number[];
+    onEdgePick?: (edge: SelectedEdge | null) => void;
+    onFacePick?: (face: SelectedFace | null) => void;
+    // Push/pull: a one-axis handle on the picked face, dragged along its world normal.
+    // `face` holds the face's world triangle corners, previewed at the handle while dragging.
+    pushPullHandle?: { origin: THREE.Vector3; normal: THREE.Vector3; distance: number; face: THREE.Vector3[] } | null;
+    onPushPullDrag?: (distance: number) => void;
+    onPushPullRelease?: (distance: number) => void;
     // --- ADDED THESE NEW PROPS ---
     viewportWidth: number;
     viewportHeight: number;
     // ----------------------------
 }
 
+// Stable defaults so the picking effect only re-runs when the highlights change
+const NO_EDGES: EdgeSegment[] = [];
+const NO_FACES: number[] = [];
+
 export const Viewport3D: React.FC<Viewport3DProps> = ({
     objects,
-    selectedObjectId,
+    selectedObjectIds,
     onObjectSelect,
+    onBoxSelect,
     onCameraUpdate,
     lightSettings,
     gridSettings,
@@ -43,12 +73,22 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
     measurementActive = false,
     transformMode,
     onObjectTransform,
+    onObjectsTransform,
     sketchMode = false,
     onSketchComplete,
     sketchTool = 'line',
     sketchModeType = 'surface',
     sketchSettings = { snapToGrid: true, gridSize: 0.5, workplaneVisible: true },
     onSketchSettingsChange,
+    pickObjectId = null,
+    pickMode = 'edge',
+    highlightedEdges = NO_EDGES,
+    highlightedFaces = NO_FACES,
+    onEdgePick,
+    onFacePick,
+    pushPullHandle = null,
+    onPushPullDrag,
+    onPushPullRelease,
     viewportWidth, // --- DESTRUCTURED HERE ---
     viewportHeight // --- DESTRUCTURED HERE ---
 }) => {
@@ -59,6 +99,38 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
     const [cameraControlsEnabled, setCameraControlsEnabled] = useState(true);
     const [pressedKeys, setPressedKeys] = useState<Set<string>>(new Set());
 
+    // Rubber-band selection rectangle in canvas pixels (Shift + left-drag)
+    const [selectionBox, setSelectionBox] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(null);
+    const selectionBoxRef = useRef<{ x1: number; y1: number; x2: number; y2: number; additive: boolean } | null>(null);
+    const suppressClickRef = useRef(false);
+
+    // Multi-selections are transformed through a shared pivot placed at their centroid
+    const groupPivotRef = useRef<THREE.Object3D | null>(null);
+    const isTransformDraggingRef = useRef(false);
+    const groupDragRef = useRef<{ pivotStart: THREE.Matrix4; starts: Map<string, THREE.Matrix4> } | null>(null);
+    const objectsRef = useRef<RenderObject[]>(objects);
+    objectsRef.current = objects;
+    const faceSelectorRef = useRef<FaceSelector | null>(null);
+    const onEdgePickRef = useRef(onEdgePick);
+    onEdgePickRef.current = onEdgePick;
+    const onFacePickRef = useRef(onFacePick);
+    onFacePickRef.current = onFacePick;
+    const pushPullHandleRef = useRef<THREE.Object3D | null>(null);
+    const pushPullGhostRef = useRef<THREE.Mesh | null>(null);
+    // Kept in refs so the handle's gizmo callbacks stay stable during a drag
+    const pushPullRef = useRef({
+        handle: pushPullHandle,
+        onDrag: onPushPullDrag,
+        onRelease: onPushPullRelease,
+        dragging: false,
+        moved: false
+    });
+    pushPullRef.current.handle = pushPullHandle;
+    pushPullRef.current.onDrag = onPushPullDrag;
+    pushPullRef.current.onRelease = onPushPullRelease;
+    const selectedObjectId = selectedObjectIds.length === 1 ? selectedObjectIds[0] : null;
+    const hasSelection = selectedObjectIds.length > 0;
+
 
     const cameraRef = useRef({
         distance: 15,
@@ -201,14 +273,26 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
     }, [pressedKeys, cameraControlsEnabled, updateCamera, onCameraUpdate, renderOnce]); // Depend on pressedKeys
 
     useEffect(() => {
-        if (selectedObjectId) {
+        if (hasSelection) {
             setCameraControlsEnabled(false);
         } else {
             setCameraControlsEnabled(true);
         }
-    }, [selectedObjectId]);
+    }, [hasSelection]);
+
+    const getCanvasPoint = (e: React.MouseEvent) => {
+        const rect = canvasRef.current?.getBoundingClientRect();
+        return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : { x: 0, y: 0 };
+    };
 
     const handleMouseDown = useCallback((e: React.MouseEvent) => {
+        // Shift + left-drag starts a box selection (Ctrl/Cmd also held adds to the selection)
+        if (e.button === 0 && e.shiftKey && !sketchMode && !measurementActive) {
+            const { x, y } = getCanvasPoint(e);
+            selectionBoxRef.current = { x1: x, y1: y, x2: x, y2: y, additive: e.ctrlKey || e.metaKey };
+            return;
+        }
+
         // Handle sketch events first
         if (sketchMode && sketchEngineRef.current) {
             if (sketchEngineRef.current.handleMouseDown(e.nativeEvent)) {
@@ -230,6 +314,14 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
     }, [cameraControlsEnabled, measurementActive, sketchMode, renderOnce]);
 
     const handleMouseMove = useCallback((e: React.MouseEvent) => {
+        if (selectionBoxRef.current) {
+            const { x, y } = getCanvasPoint(e);
+            selectionBoxRef.current = { ...selectionBoxRef.current, x2: x, y2: y };
+            const { x1, y1, x2, y2 } = selectionBoxRef.current;
+            setSelectionBox({ x1, y1, x2, y2 });
+            return;
+        }
+
         // Handle sketch events FIRST, before checking camera controls
         if (sketchMode && sketchEngineRef.current && sketchEngineRef.current.handleMouseMove(e.nativeEvent)) {
             renderOnce();
@@ -270,6 +362,20 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
 
 
     const handleMouseUp = useCallback((e: React.MouseEvent) => {
+        const box = selectionBoxRef.current;
+        if (box) {
+            selectionBoxRef.current = null;
+            setSelectionBox(null);
+            // A tiny drag is treated as a Shift-click and handled by handleCanvasClick
+            if (Math.abs(box.x2 - box.x1) > 4 || Math.abs(box.y2 - box.y1) > 4) {
+                suppressClickRef.current = e.type === 'mouseup';
+                const ids = rendererRef.current?.getObjectsInRect(box.x1, box.y1, box.x2, box.y2) || [];
+                onBoxSelect?.(ids, box.additive);
+                renderOnce();
+            }
+            return;
+        }
+
         if (sketchMode && sketchEngineRef.current && sketchEngineRef.current.handleMouseUp(e.nativeEvent)) {
             setCameraControlsEnabled(true);
             renderOnce();
@@ -279,7 +385,7 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
         cameraRef.current.panning = false;
         // setCameraControlsEnabled(true); // Re-enable camera controls after mouse up (unless sketch mode took over)
         // This is now handled by the selectedObjectId useEffect, or can be explicitly set here if no object is selected.
-    }, [sketchMode, renderOnce]);
+    }, [sketchMode, renderOnce, onBoxSelect]);
 
     const handleWheel = useCallback((e: React.WheelEvent) => {
         e.preventDefault();
@@ -289,6 +395,12 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
     }, [updateCamera]);
 
     const handleCanvasClick = useCallback((e: React.MouseEvent) => {
+        // The click that ends a box selection must not also change the selection
+        if (suppressClickRef.current) {
+            suppressClickRef.current = false;
+            return;
+        }
+
         // Only trigger click logic if no camera movement was in progress
         if (cameraRef.current.orbiting || cameraRef.current.panning || !rendererRef.current) return;
         
@@ -297,6 +409,13 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
             return;
         }
 
+        // While picking edges or faces, clicks never change the object selection
+        if (pickObjectId && faceSelectorRef.current) {
+            faceSelectorRef.current.handleClick(e.nativeEvent);
+            renderOnce();
+            return;
+        }
+
         const rect = canvasRef.current?.getBoundingClientRect();
         if (!rect) return;
         const x = e.clientX - rect.left;
@@ -312,10 +431,10 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
         } else if (!sketchMode) {
             // Only allow object selection if not in sketch mode
             const objectId = rendererRef.current.getObjectAtPoint(x, y);
-            onObjectSelect(objectId);
+            onObjectSelect(objectId, e.shiftKey || e.ctrlKey || e.metaKey);
             renderOnce();
         }
-    }, [measurementActive, sketchMode, onMeasurementPoint, onObjectSelect, renderOnce]);
+    }, [measurementActive, sketchMode, pickObjectId, onMeasurementPoint, onObjectSelect, renderOnce]);
 
     const handleDoubleClick = useCallback((e: React.MouseEvent) => {
         if (sketchMode && sketchEngineRef.current) {
@@ -331,15 +450,62 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
 
     const handleTransformStart = useCallback(() => {
         setCameraControlsEnabled(false); // Disable camera controls when gizmo is active
-    }, []);
+        isTransformDraggingRef.current = true;
+
+        const pivot = groupPivotRef.current;
+        if (selectedObjectIds.length > 1 && pivot) {
+            // Remember where everything started so each drag event applies the pivot's total delta
+            pivot.updateMatrix();
+            const starts = new Map<string, THREE.Matrix4>();
+            objectsRef.current
+                .filter(obj => selectedObjectIds.includes(obj.id))
+                .forEach(obj => {
+                    starts.set(obj.id, new THREE.Matrix4().compose(
+                        new THREE.Vector3(obj.position.x, obj.position.y, obj.position.z),
+                        new THREE.Quaternion().setFromEuler(new THREE.Euler(obj.rotation.x, obj.rotation.y, obj.rotation.z)),
+                        new THREE.Vector3(obj.scale.x, obj.scale.y, obj.scale.z)
+                    ));
+                });
+            groupDragRef.current = { pivotStart: pivot.matrix.clone(), starts };
+        }
+    }, [selectedObjectIds]);
 
     const handleTransformEnd = useCallback(() => {
-        if (!selectedObjectId) {
+        isTransformDraggingRef.current = false;
+        groupDragRef.current = null;
+        if (!hasSelection) {
             setCameraControlsEnabled(true); // Re-enable camera controls if no object is selected
         }
-    }, [selectedObjectId]);
+    }, [hasSelection]);
 
     const handleTransform = useCallback((object: THREE.Object3D) => {
+        // TransformControls also emits 'change' on hover; only real drags edit the scene
+        if (!isTransformDraggingRef.current) return;
+
+        const groupDrag = groupDragRef.current;
+        if (groupDrag && onObjectsTransform) {
+            object.updateMatrix();
+            const delta = object.matrix.clone().multiply(groupDrag.pivotStart.clone().invert());
+
+            const updates: ObjectTransformUpdate[] = [];
+            const position = new THREE.Vector3();
+            const quaternion = new THREE.Quaternion();
+            const scale = new THREE.Vector3();
+            groupDrag.starts.forEach((start, id) => {
+                delta.clone().multiply(start).decompose(position, quaternion, scale);
+                const euler = new THREE.Euler().setFromQuaternion(quaternion);
+                updates.push({
+                    id,
+                    position: new Vec3(position.x, position.y, position.z),
+                    rotation: new Vec3(euler.x, euler.y, euler.z),
+                    scale: new Vec3(scale.x, scale.y, scale.z)
+                });
+            });
+
+            onObjectsTransform(updates);
+            return;
+        }
+
         if (!selectedObjectId || !onObjectTransform) return;
 
         const position = new Vec3(object.position.x, object.position.y, object.position.z);
@@ -348,7 +514,7 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
 
         // This must trigger a state update in the parent component
         onObjectTransform(selectedObjectId, { position, rotation, scale });
-    }, [selectedObjectId, onObjectTransform]);
+    }, [selectedObjectId, onObjectTransform, onObjectsTransform]);
 
     // Initial setup of ThreeRenderer and SketchEngine (runs once on mount)
     useEffect(() => {
@@ -357,8 +523,23 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
 
         try {
             rendererRef.current = new ThreeRenderer(canvas);
+            groupPivotRef.current = new THREE.Object3D();
+            rendererRef.current.getScene().add(groupPivotRef.current);
+            pushPullHandleRef.current = new THREE.Object3D();
+            rendererRef.current.getScene().add(pushPullHandleRef.current);
             // SketchEngine3D also needs the renderer instance to get intersections
             sketchEngineRef.current = new SketchEngine3D(rendererRef.current.getScene(), rendererRef.current.getCamera(), rendererRef.current.getRenderer());
+            faceSelectorRef.current = new FaceSelector({
+                scene: rendererRef.current.getScene(),
+                camera: rendererRef.current.getCamera(),
+                renderer: rendererRef.current.getRenderer(),
+                objects: [],
+                enabled: false,
+                selectionMode: 'edge',
+                highlightSelection: false,
+                onEdgeSelected: edge => onEdgePickRef.current?.(edge),
+                onFaceSelected: face => onFacePickRef.current?.(face)
+            });
             updateCamera();
             setIsInitialized(true);
             renderOnce();
@@ -368,6 +549,7 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
 
         // Cleanup function for when the component unmounts
         return () => {
+            faceSelectorRef.current?.dispose();
             rendererRef.current?.dispose();
             sketchEngineRef.current?.dispose();
         };
@@ -416,7 +598,15 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
             const sketchAPI = {
                 getShapes: () => sketchEngineRef.current?.getShapes() || [],
                 clear: () => sketchEngineRef.current?.clear(),
-                finishSketch: () => sketchEngineRef.current?.finishCurrentSketch()
+                finishSketch: () => sketchEngineRef.current?.finishCurrentSketch(),
+                loadShapes: (shapes: SketchShape3D[]) => {
+                    sketchEngineRef.current?.loadShapes(shapes);
+                    renderOnce();
+                },
+                replaceShapes: (shapes: SketchShape3D[]) => {
+                    sketchEngineRef.current?.replaceShapes(shapes);
+                    renderOnce();
+                }
             };
             onSketchSettingsChange(sketchAPI);
         }
@@ -446,10 +636,16 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
         for (const obj of objects) {
             const prev = prevObjects.get(obj.id);
 
-            // If object is new, add it to the scene
-            if (!prev) {
+            // If the object's mesh was replaced (geometry edit, project load), rebuild it
+            if (prev && prev.mesh !== obj.mesh) {
+                rendererRef.current.removeObject(obj.id);
+            }
+
+            // If object is new (or was just removed above), add it to the scene
+            if (!prev || prev.mesh !== obj.mesh) {
                 if (obj.mesh && obj.mesh.geometry) {
-                    rendererRef.current.addObject(obj.id, obj.mesh.geometry, obj.color);
+                    const material = obj.mesh.material instanceof THREE.MeshStandardMaterial ? obj.mesh.material : undefined;
+                    rendererRef.current.addObject(obj.id, obj.mesh.geometry, obj.color, material);
                 }
             }
 
@@ -459,7 +655,7 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
                 rotation: obj.rotation,
                 scale: obj.scale,
                 color: obj.color,
-                selected: obj.id === selectedObjectId, // Set selected state based on prop
+                selected: selectedObjectIds.includes(obj.id), // Set selected state based on prop
                 visible: obj.visible,
             });
 
@@ -467,19 +663,139 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
             prevObjects.set(obj.id, obj);
         }
 
+        // Keep the group pivot at the selection centroid, except mid-drag where it is the drag handle
+        const pivot = groupPivotRef.current;
+        if (pivot && !groupDragRef.current) {
+            const selected = objects.filter(obj => selectedObjectIds.includes(obj.id));
+            pivot.position.set(0, 0, 0);
+            selected.forEach(obj => pivot.position.add(new THREE.Vector3(obj.position.x, obj.position.y, obj.position.z)));
+            if (selected.length > 0) pivot.position.divideScalar(selected.length);
+            pivot.rotation.set(0, 0, 0);
+            pivot.scale.set(1, 1, 1);
+        }
+
         renderOnce(); // Re-render the scene after object changes
-    }, [objects, selectedObjectId, isInitialized, renderOnce]); // Dependencies: `objects` and `selectedObjectId` trigger updates
+    }, [objects, selectedObjectIds, isInitialized, renderOnce]); // Dependencies: `objects` and `selectedObjectIds` trigger updates
+
+
+    // Restrict picking to the object being edited and keep its chosen edges/faces highlighted
+    useEffect(() => {
+        const selector = faceSelectorRef.current;
+        if (!selector || !rendererRef.current || !isInitialized) return;
+
+        const mesh = pickObjectId ? rendererRef.current.getMesh(pickObjectId) : null;
+        selector.setSelectionMode(pickMode);
+        selector.setEnabled(Boolean(mesh));
+        selector.updateObjects(mesh && pickObjectId ? [{ id: pickObjectId, mesh }] : []);
+
+        if (mesh) {
+            mesh.updateMatrixWorld();
+            selector.showEdges(highlightedEdges.map(edge => ({
+                start: new THREE.Vector3(...edge.start).applyMatrix4(mesh.matrixWorld),
+                end: new THREE.Vector3(...edge.end).applyMatrix4(mesh.matrixWorld)
+            })));
+
+            const position = mesh.geometry.getAttribute('position');
+            const index = mesh.geometry.getIndex();
+            selector.showFaces(highlightedFaces.map(face => [0, 1, 2].map(k =>
+                new THREE.Vector3()
+                    .fromBufferAttribute(position, index ? index.getX(face * 3 + k) : face * 3 + k)
+                    .applyMatrix4(mesh.matrixWorld)
+            )));
+        } else {
+            selector.showEdges([]);
+            selector.showFaces([]);
+        }
+        renderOnce();
+    }, [pickObjectId, pickMode, highlightedEdges, highlightedFaces, objects, isInitialized, renderOnce]);
+
+    // Keep the push/pull handle on the face at its current distance
+    useEffect(() => {
+        const handle = pushPullHandleRef.current;
+        if (!handle || !pushPullHandle) return;
+
+        handle.position.copy(pushPullHandle.origin).addScaledVector(pushPullHandle.normal, pushPullHandle.distance);
+        handle.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), pushPullHandle.normal);
+        handle.updateMatrixWorld();
+        renderOnce();
+    }, [pushPullHandle, renderOnce]);
+
+    // A copy of the picked face riding on the handle, in the handle's frame, so a drag
+    // previews the move without touching the object
+    const pushPullFace = pushPullHandle?.face;
+    const pushPullOrigin = pushPullHandle?.origin;
+    const pushPullNormal = pushPullHandle?.normal;
+    useEffect(() => {
+        const handle = pushPullHandleRef.current;
+        if (!handle || !pushPullFace || !pushPullOrigin || !pushPullNormal) return;
+
+        const toHandle = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), pushPullNormal).invert();
+        const positions = new Float32Array(pushPullFace.length * 3);
+        pushPullFace.forEach((vertex, i) => {
+            vertex.clone().sub(pushPullOrigin).applyQuaternion(toHandle).toArray(positions, i * 3);
+        });
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        const material = new THREE.MeshBasicMaterial({
+            color: 0x3399ff,
+            transparent: true,
+            opacity: 0.4,
+            side: THREE.DoubleSide,
+            depthTest: false
+        });
+        const ghost = new THREE.Mesh(geometry, material);
+        ghost.renderOrder = 999;
+        ghost.visible = false;
+        handle.add(ghost);
+        pushPullGhostRef.current = ghost;
 
+        return () => {
+            handle.remove(ghost);
+            geometry.dispose();
+            material.dispose();
+            pushPullGhostRef.current = null;
+        };
+    }, [pushPullFace, pushPullOrigin, pushPullNormal]);
+
+    const handlePushPullStart = useCallback(() => {
+        setCameraControlsEnabled(false);
+        pushPullRef.current.dragging = true;
+        pushPullRef.current.moved = false;
+        if (pushPullGhostRef.current) pushPullGhostRef.current.visible = true;
+    }, []);
+
+    const handlePushPullEnd = useCallback(() => {
+        const { handle, onRelease, moved } = pushPullRef.current;
+        pushPullRef.current.dragging = false;
+        if (pushPullGhostRef.current) pushPullGhostRef.current.visible = false;
+        // The pointer release also fires a click, which must not pick another face
+        suppressClickRef.current = true;
+        const object = pushPullHandleRef.current;
+        if (moved && handle && object) {
+            onRelease?.(object.position.clone().sub(handle.origin).dot(handle.normal));
+        }
+    }, []);
+
+    const handlePushPullDrag = useCallback((object: THREE.Object3D) => {
+        const { handle, onDrag, dragging } = pushPullRef.current;
+        if (!dragging || !handle) return;
+        pushPullRef.current.moved = true;
+        onDrag?.(object.position.clone().sub(handle.origin).dot(handle.normal));
+    }, []);
 
     const getCursorStyle = () => {
-        if (measurementActive || sketchMode) return 'cursor-crosshair';
+        if (measurementActive || sketchMode || pickObjectId) return 'cursor-crosshair';
         if (cameraRef.current.orbiting) return 'cursor-grabbing';
         if (cameraRef.current.panning) return 'cursor-move';
         if (!cameraControlsEnabled) return 'cursor-default';
         return 'cursor-grab';
     };
 
-    const selectedMesh = rendererRef.current?.getSelectedMesh() || null;
+    const selectedMesh = selectedObjectIds.length > 1
+        ? groupPivotRef.current
+        : selectedObjectId
+            ? rendererRef.current?.getMesh(selectedObjectId) || null
+            : null;
     return (
         <div className="w-full h-full relative bg-gray-900">
             <canvas
@@ -495,7 +811,7 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
                 onContextMenu={handleContextMenu}
             />
 
-            {isInitialized && rendererRef.current && selectedMesh && (
+            {isInitialized && rendererRef.current && selectedMesh && !pickObjectId && (
                 <TransformGizmo
                     scene={rendererRef.current.getScene()}
                     camera={rendererRef.current.getCamera()}
@@ -508,14 +824,30 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
                 />
             )}
 
+            {isInitialized && rendererRef.current && pushPullHandle && pushPullHandleRef.current && (
+                <TransformGizmo
+                    scene={rendererRef.current.getScene()}
+                    camera={rendererRef.current.getCamera()}
+                    renderer={rendererRef.current.getRenderer()}
+                    selectedObject={pushPullHandleRef.current}
+                    mode="translate"
+                    axis="y"
+                    onTransformStart={handlePushPullStart}
+                    onTransformEnd={handlePushPullEnd}
+                    onTransform={handlePushPullDrag}
+                />
+            )}
+
             {/* Viewport controls overlay */}
             <div className="absolute top-4 right-4 bg-gray-800 bg-opacity-90 rounded-lg p-3 text-white text-sm">
                 <div className="font-semibold mb-2">
                     {sketchMode
                         ? '3D Sketch Mode'
-                        : measurementActive
-                            ? 'Measurement Mode'
-                            : `Transform: ${transformMode.toUpperCase()}`}
+                        : pickObjectId
+                            ? (pickMode === 'edge' ? 'Edge Selection' : 'Face Selection')
+                            : measurementActive
+                                ? 'Measurement Mode'
+                                : `Transform: ${transformMode.toUpperCase()}`}
                 </div>
                 <div className="text-xs text-gray-300 space-y-1">
                     {sketchMode ? (
@@ -525,6 +857,16 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
                             <div>• Double-click to finish polygons</div>
                             <div>• Right-click: Pan • Scroll: Zoom</div>
                         </>
+                    ) : pickObjectId && pickMode === 'edge' ? (
+                        <>
+                            <div>• Click an edge of the object to add or remove it</div>
+                            <div>• Smooth edge loops are selected as a whole</div>
+                        </>
+                    ) : pickObjectId ? (
+                        <>
+                            <div>• Click a face of the object to add or remove it</div>
+                            <div>• Flat faces are selected as a whole</div>
+                        </>
                     ) : measurementActive ? (
                         <>
                             <div>• Click points to measure</div>
@@ -533,6 +875,8 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
                     ) : (
                         // Updated controls for Unity-like movement
                         <>
+                            <div>• Shift/Ctrl+Click: Add/Remove from Selection</div>
+                            <div>• Shift+Drag: Box Select (Ctrl: add)</div>
                             <div>• W/A/S/D: Move Camera (Forward/Left/Backward/Right)</div>
                             <div>• Q/E: Move Camera (Up/Down)</div>
                             <div>• Shift: Speed Up Movement</div>
@@ -581,10 +925,25 @@ export const Viewport3D: React.FC<Viewport3DProps> = ({
                 </div>
             )}
 
+            {/* Box selection rectangle */}
+            {selectionBox && (
+                <div
+                    className="absolute border border-blue-400 bg-blue-400 bg-opacity-10 pointer-events-none"
+                    style={{
+                        left: Math.min(selectionBox.x1, selectionBox.x2),
+                        top: Math.min(selectionBox.y1, selectionBox.y2),
+                        width: Math.abs(selectionBox.x2 - selectionBox.x1),
+                        height: Math.abs(selectionBox.y2 - selectionBox.y1)
+                    }}
+                />
+            )}
+
             {/* Transform mode banner */}
-            {selectedObjectId && !sketchMode && (
+            {hasSelection && !sketchMode && (
                 <div className="absolute top-1/2 left-4 transform -translate-y-1/2 bg-blue-900 bg-opacity-95 rounded-lg p-3 text-white text-sm border border-blue-600">
-                    <div className="font-semibold mb-1 text-blue-300">🎯 Transform Mode</div>
+                    <div className="font-semibold mb-1 text-blue-300">
+                        🎯 Transform Mode{selectedObjectIds.length > 1 ? ` (${selectedObjectIds.length} objects)` : ''}
+                    </div>
                     <div className="text-blue-200 text-xs space-y-1">
                         <div className={transformMode === 'translate' ? 'text-blue-300 font-bold' : ''}>G - Move Object</div>
                         <div className={transformMode === 'rotate' ? 'text-blue-300 font-bold' : ''}>R - Rotate Object</div>
@@ -0,0 +1,507 @@
+import * as THREE from 'three';
+import { mergeVertices } from 'three/addons/utils/BufferGeometryUtils.js';
+
+export type CSGOperation = 'union' | 'subtract' | 'intersect';
+
+export interface CSGOperand {
+  geometry: THREE.BufferGeometry;
+  // Object-to-world transform; operands are combined in world space
+  matrix: THREE.Matrix4;
+}
+
+// Tolerance used to classify points against planes (world units)
+const PLANE_EPSILON = 1e-5;
+// Vertices closer than this are treated as the same vertex when welding the result
+const WELD_TOLERANCE = 1e-4;
+
+const COPLANAR = 0;
+const FRONT = 1;
+const BACK = 2;
+const SPANNING = 3;
+
+class Vertex {
+  constructor(public pos: THREE.Vector3, public normal: THREE.Vector3) {}
+
+  clone(): Vertex {
+    return new Vertex(this.pos.clone(), this.normal.clone());
+  }
+
+  flip(): void {
+    this.normal.negate();
+  }
+
+  interpolate(other: Vertex, t: number): Vertex {
+    return new Vertex(
+      this.pos.clone().lerp(other.pos, t),
+      this.normal.clone().lerp(other.normal, t)
+    );
+  }
+}
+
+class Plane {
+  constructor(public normal: THREE.Vector3, public w: number) {}
+
+  static fromPoints(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): Plane | null {
+    const normal = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a));
+    if (normal.lengthSq() < 1e-20) return null;
+    normal.normalize();
+    return new Plane(normal, normal.dot(a));
+  }
+
+  clone(): Plane {
+    return new Plane(this.normal.clone(), this.w);
+  }
+
+  flip(): void {
+    this.normal.negate();
+    this.w = -this.w;
+  }
+
+  /**
+   * Splits a polygon by this plane, sorting the pieces into the given lists.
+   * Coplanar polygons go to the front or back list depending on their orientation.
+   */
+  splitPolygon(
+    polygon: Polygon,
+    coplanarFront: Polygon[],
+    coplanarBack: Polygon[],
+    front: Polygon[],
+    back: Polygon[]
+  ): void {
+    // Most polygons lie on one side; the per-vertex types are only kept for the others
+    let polygonType = 0;
+    for (const vertex of polygon.vertices) {
+      polygonType |= this.classify(vertex.pos);
+    }
+
+    switch (polygonType) {
+      case COPLANAR:
+        (this.normal.dot(polygon.plane.normal) > 0 ? coplanarFront : coplanarBack).push(polygon);
+        break;
+      case FRONT:
+        front.push(polygon);
+        break;
+      case BACK:
+        back.push(polygon);
+        break;
+      case SPANNING: {
+        const types = polygon.vertices.map(v => this.classify(v.pos));
+        const f: Vertex[] = [];
+        const b: Vertex[] = [];
+        const count = polygon.vertices.length;
+        for (let i = 0; i < count; i++) {
+          const j = (i + 1) % count;
+          const ti = types[i];
+          const tj = types[j];
+          const vi = polygon.vertices[i];
+          const vj = polygon.vertices[j];
+          if (ti !== BACK) f.push(vi);
+          if (ti !== FRONT) b.push(ti !== BACK ? vi.clone() : vi);
+          if ((ti | tj) === SPANNING) {
+            const t = (this.w - this.normal.dot(vi.pos)) / this.normal.dot(new THREE.Vector3().subVectors(vj.pos, vi.pos));
+            const v = vi.interpolate(vj, t);
+            f.push(v);
+            b.push(v.clone());
+          }
+        }
+        // Each piece gets its own plane: flipping one piece later must not flip its sibling
+        if (f.length >= 3) front.push(new Polygon(f, polygon.plane.clone()));
+        if (b.length >= 3) back.push(new Polygon(b, polygon.plane.clone()));
+        break;
+      }
+    }
+  }
+
+  private classify(point: THREE.Vector3): number {
+    const t = this.normal.dot(point) - this.w;
+    return t < -PLANE_EPSILON ? BACK : t > PLANE_EPSILON ? FRONT : COPLANAR;
+  }
+}
+
+class Polygon {
+  plane: Plane;
+
+  constructor(public vertices: Vertex[], plane?: Plane) {
+    this.plane = plane ?? Plane.fromPoints(vertices[0].pos, vertices[1].pos, vertices[2].pos)!;
+  }
+
+  clone(): Polygon {
+    return new Polygon(this.vertices.map(v => v.clone()), this.plane.clone());
+  }
+
+  flip(): void {
+    this.vertices.reverse().forEach(v => v.flip());
+    this.plane.flip();
+  }
+}
+
+/**
+ * Node of a BSP tree. Each node splits space by the plane of its first polygon;
+ * polygons lying in that plane are stored on the node itself.
+ * Every face plane of a convex solid has the rest of the solid behind it, so trees
+ * are as deep as the solid has faces; they are walked with explicit stacks rather
+ * than by recursion.
+ */
+class BSPNode {
+  plane: Plane | null = null;
+  front: BSPNode | null = null;
+  back: BSPNode | null = null;
+  polygons: Polygon[] = [];
+
+  constructor(polygons?: Polygon[]) {
+    if (polygons) this.build(polygons);
+  }
+
+  // Swaps solid and empty space
+  invert(): void {
+    for (const node of this.nodes()) {
+      node.polygons.forEach(p => p.flip());
+      node.plane?.flip();
+      const temp = node.front;
+      node.front = node.back;
+      node.back = temp;
+    }
+  }
+
+  // Removes the parts of `polygons` that are inside this tree's solid
+  clipPolygons(polygons: Polygon[]): Polygon[] {
+    const result: Polygon[] = [];
+    const stack: Array<{ node: BSPNode; polygons: Polygon[] }> = [{ node: this, polygons }];
+    while (stack.length > 0) {
+      const { node, polygons: list } = stack.pop()!;
+      if (!node.plane) {
+        result.push(...list);
+        continue;
+      }
+      const front: Polygon[] = [];
+      const back: Polygon[] = [];
+      for (const polygon of list) {
+        node.plane.splitPolygon(polygon, front, back, front, back);
+      }
+      if (node.front) stack.push({ node: node.front, polygons: front });
+      else result.push(...front);
+      // Without a back node the back pieces are inside the solid and dropped
+      if (node.back) stack.push({ node: node.back, polygons: back });
+    }
+    return result;
+  }
+
+  // Removes the parts of this tree's polygons that are inside `bsp`
+  clipTo(bsp: BSPNode): void {
+    for (const node of this.nodes()) {
+      node.polygons = bsp.clipPolygons(node.polygons);
+    }
+  }
+
+  allPolygons(): Polygon[] {
+    const polygons: Polygon[] = [];
+    for (const node of this.nodes()) polygons.push(...node.polygons);
+    return polygons;
+  }
+
+  build(polygons: Polygon[]): void {
+    const stack: Array<{ node: BSPNode; polygons: Polygon[] }> = [{ node: this, polygons }];
+    while (stack.length > 0) {
+      const { node, polygons: list } = stack.pop()!;
+      if (list.length === 0) continue;
+      if (!node.plane) node.plane = list[0].plane.clone();
+      const front: Polygon[] = [];
+      const back: Polygon[] = [];
+      for (const polygon of list) {
+        node.plane.splitPolygon(polygon, node.polygons, node.polygons, front, back);
+      }
+      if (front.length > 0) {
+        if (!node.front) node.front = new BSPNode();
+        stack.push({ node: node.front, polygons: front });
+      }
+      if (back.length > 0) {
+        if (!node.back) node.back = new BSPNode();
+        stack.push({ node: node.back, polygons: back });
+      }
+    }
+  }
+
+  private nodes(): BSPNode[] {
+    const nodes: BSPNode[] = [];
+    const stack: BSPNode[] = [this];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      nodes.push(node);
+      if (node.front) stack.push(node.front);
+      if (node.back) stack.push(node.back);
+    }
+    return nodes;
+  }
+}
+
+/**
+ * Uniform grid over the result's vertices, so that the vertices lying on an edge are
+ * found by looking only at the cells along it.
+ */
+class PointGrid {
+  private cells = new Map<string, THREE.Vector3[]>();
+  private cellSize: number;
+
+  constructor(points: THREE.Vector3[], cellSize: number) {
+    this.cellSize = Math.max(cellSize, WELD_TOLERANCE * 100);
+    for (const point of points) {
+      const key = this.key(this.cell(point.x), this.cell(point.y), this.cell(point.z));
+      const cell = this.cells.get(key);
+      if (cell) cell.push(point);
+      else this.cells.set(key, [point]);
+    }
+  }
+
+  /**
+   * Points in the cells within the weld tolerance of a segment. Long segments are cut
+   * into pieces no longer than a cell, so each piece only overlaps a few cells.
+   */
+  nearSegment(start: THREE.Vector3, end: THREE.Vector3): THREE.Vector3[] {
+    const pieces = Math.max(1, Math.ceil(start.distanceTo(end) / this.cellSize));
+    const visited = new Set<string>();
+    const points: THREE.Vector3[] = [];
+    const from = new THREE.Vector3();
+    const to = start.clone();
+    for (let i = 1; i <= pieces; i++) {
+      from.copy(to);
+      to.lerpVectors(start, end, i / pieces);
+      const min = [from.x, from.y, from.z].map((v, k) => this.cell(Math.min(v, to.getComponent(k)) - WELD_TOLERANCE));
+      const max = [from.x, from.y, from.z].map((v, k) => this.cell(Math.max(v, to.getComponent(k)) + WELD_TOLERANCE));
+      for (let x = min[0]; x <= max[0]; x++) {
+        for (let y = min[1]; y <= max[1]; y++) {
+          for (let z = min[2]; z <= max[2]; z++) {
+            const key = this.key(x, y, z);
+            if (visited.has(key)) continue;
+            visited.add(key);
+            const cell = this.cells.get(key);
+            if (cell) points.push(...cell);
+          }
+        }
+      }
+    }
+    return points;
+  }
+
+  private cell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private key(x: number, y: number, z: number): string {
+    return `${x},${y},${z}`;
+  }
+}
+
+export class CSGEngine {
+  /**
+   * Combines two or more solids with a boolean operation.
+   * Subtract and intersect are applied left to right: `a - b - c`, `a ∩ b ∩ c`.
+   * @param operation The boolean operation to perform.
+   * @param operands The solids, each with its object-to-world matrix.
+   * @returns A closed, crack-free BufferGeometry in world space with flat normals.
+   */
+  static apply(operation: CSGOperation, operands: CSGOperand[]): THREE.BufferGeometry {
+    if (operands.length < 2) {
+      throw new Error('Boolean operations need at least two objects');
+    }
+
+    let result = this.toPolygons(operands[0]);
+    for (let i = 1; i < operands.length; i++) {
+      const other = this.toPolygons(operands[i]);
+      switch (operation) {
+        case 'union':
+          result = this.union(result, other);
+          break;
+        case 'subtract':
+          result = this.subtract(result, other);
+          break;
+        case 'intersect':
+          result = this.intersect(result, other);
+          break;
+      }
+    }
+
+    if (result.length === 0) {
+      throw new Error(`The ${operation} result is empty`);
+    }
+
+    return this.toGeometry(result);
+  }
+
+  private static union(a: Polygon[], b: Polygon[]): Polygon[] {
+    const nodeA = new BSPNode(a.map(p => p.clone()));
+    const nodeB = new BSPNode(b.map(p => p.clone()));
+    nodeA.clipTo(nodeB);
+    nodeB.clipTo(nodeA);
+    nodeB.invert();
+    nodeB.clipTo(nodeA);
+    nodeB.invert();
+    return nodeA.allPolygons().concat(nodeB.allPolygons());
+  }
+
+  private static subtract(a: Polygon[], b: Polygon[]): Polygon[] {
+    const nodeA = new BSPNode(a.map(p => p.clone()));
+    const nodeB = new BSPNode(b.map(p => p.clone()));
+    nodeA.invert();
+    nodeA.clipTo(nodeB);
+    nodeB.clipTo(nodeA);
+    nodeB.invert();
+    nodeB.clipTo(nodeA);
+    // B's remaining pieces stay inverted: they face into the cut
+    nodeA.invert();
+    return nodeA.allPolygons().concat(nodeB.allPolygons());
+  }
+
+  private static intersect(a: Polygon[], b: Polygon[]): Polygon[] {
+    const nodeA = new BSPNode(a.map(p => p.clone()));
+    const nodeB = new BSPNode(b.map(p => p.clone()));
+    nodeA.invert();
+    nodeB.clipTo(nodeA);
+    nodeB.invert();
+    nodeA.clipTo(nodeB);
+    nodeB.clipTo(nodeA);
+    nodeA.invert();
+    nodeB.invert();
+    return nodeA.allPolygons().concat(nodeB.allPolygons());
+  }
+
+  /**
+   * Converts a mesh geometry into world-space polygons, skipping degenerate triangles.
+   */
+  private static toPolygons(operand: CSGOperand): Polygon[] {
+    const geometry = operand.geometry.index ? operand.geometry.toNonIndexed() : operand.geometry;
+    const positions = geometry.attributes.position;
+    // Mirrored objects (negative determinant) would otherwise come out inside-out
+    const flipWinding = operand.matrix.determinant() < 0;
+
+    const polygons: Polygon[] = [];
+    for (let i = 0; i + 2 < positions.count; i += 3) {
+      const points = [0, 1, 2].map(k =>
+        new THREE.Vector3().fromBufferAttribute(positions, i + k).applyMatrix4(operand.matrix)
+      );
+      if (flipWinding) points.reverse();
+
+      const plane = Plane.fromPoints(points[0], points[1], points[2]);
+      if (!plane) continue;
+
+      // Flat shading is what CAD solids want, so the face normal is used for every vertex
+      polygons.push(new Polygon(points.map(p => new Vertex(p, plane.normal.clone())), plane));
+    }
+
+    return polygons;
+  }
+
+  /**
+   * Triangulates the polygons and welds coincident vertices.
+   * BSP splitting leaves T-junctions where a vertex of one polygon lies on an edge of
+   * its neighbour; those vertices are inserted into the neighbour's edge first so
+   * that the welded mesh has no cracks.
+   */
+  private static toGeometry(polygons: Polygon[]): THREE.BufferGeometry {
+    const grid = new PointGrid(this.collectUniquePoints(polygons), this.meanEdgeLength(polygons));
+    const positions: number[] = [];
+
+    for (const polygon of polygons) {
+      const ring = this.insertEdgeVertices(polygon.vertices.map(v => v.pos), grid);
+      if (ring.length === 3) {
+        ring.forEach(p => positions.push(p.x, p.y, p.z));
+        continue;
+      }
+
+      // BSP polygons are convex, so a fan around the centroid keeps every boundary
+      // segment (including the inserted ones) without producing degenerate triangles
+      const centroid = new THREE.Vector3();
+      polygon.vertices.forEach(v => centroid.add(v.pos));
+      centroid.divideScalar(polygon.vertices.length);
+
+      for (let i = 0; i < ring.length; i++) {
+        const a = ring[i];
+        const b = ring[(i + 1) % ring.length];
+        positions.push(centroid.x, centroid.y, centroid.z, a.x, a.y, a.z, b.x, b.y, b.z);
+      }
+    }
+
+    const raw = new THREE.BufferGeometry();
+    raw.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+
+    const welded = mergeVertices(raw, WELD_TOLERANCE);
+    raw.dispose();
+
+    // Slivers thinner than the weld tolerance collapse onto an edge; drop them
+    const index = welded.getIndex();
+    if (index) {
+      const kept: number[] = [];
+      for (let i = 0; i + 2 < index.count; i += 3) {
+        const a = index.getX(i);
+        const b = index.getX(i + 1);
+        const c = index.getX(i + 2);
+        if (a !== b && b !== c && a !== c) kept.push(a, b, c);
+      }
+      welded.setIndex(kept);
+    }
+
+    // Split the welded mesh back to flat triangles so hard CAD edges stay crisp
+    const result = welded.toNonIndexed();
+    welded.dispose();
+    result.computeVertexNormals();
+    result.computeBoundingBox();
+    result.computeBoundingSphere();
+    return result;
+  }
+
+  private static collectUniquePoints(polygons: Polygon[]): THREE.Vector3[] {
+    const seen = new Map<string, THREE.Vector3>();
+    const key = (p: THREE.Vector3) =>
+      `${Math.round(p.x / WELD_TOLERANCE)},${Math.round(p.y / WELD_TOLERANCE)},${Math.round(p.z / WELD_TOLERANCE)}`;
+    for (const polygon of polygons) {
+      for (const vertex of polygon.vertices) {
+        const k = key(vertex.pos);
+        if (!seen.has(k)) seen.set(k, vertex.pos);
+      }
+    }
+    return Array.from(seen.values());
+  }
+
+  private static meanEdgeLength(polygons: Polygon[]): number {
+    let total = 0;
+    let count = 0;
+    for (const polygon of polygons) {
+      const vertices = polygon.vertices;
+      for (let i = 0; i < vertices.length; i++) {
+        total += vertices[i].pos.distanceTo(vertices[(i + 1) % vertices.length].pos);
+        count++;
+      }
+    }
+    return count > 0 ? total / count : 0;
+  }
+
+  private static insertEdgeVertices(ring: THREE.Vector3[], grid: PointGrid): THREE.Vector3[] {
+    const result: THREE.Vector3[] = [];
+    const edge = new THREE.Vector3();
+    const toPoint = new THREE.Vector3();
+
+    for (let i = 0; i < ring.length; i++) {
+      const start = ring[i];
+      const end = ring[(i + 1) % ring.length];
+      result.push(start);
+
+      edge.subVectors(end, start);
+      const lengthSq = edge.lengthSq();
+      if (lengthSq < 1e-20) continue;
+
+      const onEdge: Array<{ t: number; point: THREE.Vector3 }> = [];
+      for (const point of grid.nearSegment(start, end)) {
+        toPoint.subVectors(point, start);
+        const t = toPoint.dot(edge) / lengthSq;
+        if (t <= 1e-6 || t >= 1 - 1e-6) continue;
+        const distanceSq = toPoint.lengthSq() - t * t * lengthSq;
+        if (distanceSq < WELD_TOLERANCE * WELD_TOLERANCE) {
+          onEdge.push({ t, point });
+        }
+      }
+
+      onEdge.sort((a, b) => a.t - b.t).forEach(entry => result.push(entry.point));
+    }
+
+    return result;
+  }
+}
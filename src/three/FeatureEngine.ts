@@ -0,0 +1,390 @@
+import * as THREE from 'three';
+import { SketchShape3D } from '../utils/sketch3d';
+import { ExtrusionEngine, ExtrusionSettings } from './extrusion';
+import { RevolveEngine, RevolveSettings } from './RevolveEngine';
+import { SweepEngine, SweepSettings } from './SweepEngine';
+import { LoftEngine, LoftSettings } from './LoftEngine';
+import { OffsetCorners, OffsetEngine } from './OffsetEngine';
+import { CSGEngine, CSGOperation } from './CSGEngine';
+import { EdgeSegment, FilletEngine } from './FilletEngine';
+import { ShellDirection, ShellEngine } from './ShellEngine';
+import { createCubeGeometry, createSphereGeometry, createCylinderGeometry } from './primitives';
+
+export type PrimitiveShape = 'cube' | 'sphere' | 'cylinder';
+export type MirrorAxis = 'x' | 'y' | 'z';
+
+export interface PrimitiveParams {
+  shape: PrimitiveShape;
+  size: number;      // cube edge length
+  radius: number;    // sphere / cylinder
+  height: number;    // cylinder
+  segments: number;  // sphere / cylinder
+}
+
+export interface ExtrudeParams {
+  sketch: SketchShape3D[];
+  settings: ExtrusionSettings;
+}
+
+export interface RevolveParams {
+  sketch: SketchShape3D[];
+  settings: RevolveSettings;
+}
+
+export interface SweepParams {
+  sketch: SketchShape3D[];  // [profile, path]
+  settings: SweepSettings;
+}
+
+export interface LoftParams {
+  sketch: SketchShape3D[];  // profiles in loft order
+  settings: LoftSettings;
+}
+
+export interface OffsetFaceParams {
+  faceIndex: number;
+  distance: number;
+}
+
+export interface OffsetBodyParams {
+  distance: number;
+  corners?: OffsetCorners;  // missing in older projects, which were always mitered
+}
+
+export interface FilletParams {
+  edges: EdgeSegment[];
+  radius: number;
+  segments: number;
+}
+
+export interface ChamferParams {
+  edges: EdgeSegment[];
+  distance: number;
+  // Angle to the first face in degrees; null gives equal setbacks on both faces
+  angle: number | null;
+}
+
+export interface ShellParams {
+  // Triangles picked on the faces to remove; each stands for its whole flat face
+  faces: number[];
+  thickness: number;
+  direction: ShellDirection;
+}
+
+export interface MirrorParams {
+  axis: MirrorAxis;
+}
+
+export interface BooleanOperandSnapshot {
+  features: Feature[];
+  // Column-major object-to-world matrix of the operand when the boolean was made
+  matrix: number[];
+}
+
+export interface BooleanParams {
+  operation: CSGOperation;
+  operands: BooleanOperandSnapshot[];
+  // World point the result geometry is centred on (the result object's position)
+  origin: [number, number, number];
+}
+
+export interface ImportParams {
+  name: string;
+  // Imported meshes have no recipe, so the source geometry itself is the base
+  geometry: THREE.BufferGeometry;
+}
+
+interface FeatureOf<T extends string, P> {
+  id: string;
+  type: T;
+  params: P;
+}
+
+export type PrimitiveFeature = FeatureOf<'primitive', PrimitiveParams>;
+export type ExtrudeFeature = FeatureOf<'extrude', ExtrudeParams>;
+export type RevolveFeature = FeatureOf<'revolve', RevolveParams>;
+export type SweepFeature = FeatureOf<'sweep', SweepParams>;
+export type LoftFeature = FeatureOf<'loft', LoftParams>;
+export type OffsetFaceFeature = FeatureOf<'offset-face', OffsetFaceParams>;
+export type OffsetBodyFeature = FeatureOf<'offset-body', OffsetBodyParams>;
+export type FilletFeature = FeatureOf<'fillet', FilletParams>;
+export type ChamferFeature = FeatureOf<'chamfer', ChamferParams>;
+export type ShellFeature = FeatureOf<'shell', ShellParams>;
+export type MirrorFeature = FeatureOf<'mirror', MirrorParams>;
+export type BooleanFeature = FeatureOf<'boolean', BooleanParams>;
+export type ImportFeature = FeatureOf<'import', ImportParams>;
+
+/**
+ * One step of an object's history. The first feature of a list creates the body
+ * (primitive, extrude, revolve, sweep, loft, boolean, import); the following ones modify it in order.
+ */
+export type Feature =
+  | PrimitiveFeature
+  | ExtrudeFeature
+  | RevolveFeature
+  | SweepFeature
+  | LoftFeature
+  | OffsetFaceFeature
+  | OffsetBodyFeature
+  | FilletFeature
+  | ChamferFeature
+  | ShellFeature
+  | MirrorFeature
+  | BooleanFeature
+  | ImportFeature;
+
+export type FeatureType = Feature['type'];
+type ParamsOf<T extends FeatureType> = Extract<Feature, { type: T }>['params'];
+
+// Objects carrying a feature list; RenderObject satisfies this structurally
+interface FeatureHolder {
+  mesh: THREE.Mesh;
+  features?: Feature[];
+}
+
+export class FeatureEngine {
+  private static nextId = 1;
+
+  /**
+   * Creates a feature record with a fresh id.
+   * @param type The feature type.
+   * @param params The feature parameters.
+   * @returns The new feature.
+   */
+  static create<T extends FeatureType>(type: T, params: ParamsOf<T>): Extract<Feature, { type: T }> {
+    const id = `feature-${Date.now().toString(36)}-${(this.nextId++).toString(36)}`;
+    return { id, type, params } as Extract<Feature, { type: T }>;
+  }
+
+  /**
+   * Returns an object's feature list, treating objects without history (imports,
+   * older projects) as a single import feature wrapping their current geometry.
+   */
+  static featuresOf(holder: FeatureHolder): Feature[] {
+    if (holder.features && holder.features.length > 0) return holder.features;
+    return [this.create('import', { name: holder.mesh.name || 'Mesh', geometry: holder.mesh.geometry })];
+  }
+
+  /**
+   * Replays a feature list into geometry.
+   * @param features The feature list; the first entry must be a base feature.
+   * @returns The resulting geometry.
+   */
+  static build(features: Feature[]): THREE.BufferGeometry {
+    if (features.length === 0) {
+      throw new Error('Feature list is empty');
+    }
+
+    let geometry = this.buildBase(features[0]);
+    for (let i = 1; i < features.length; i++) {
+      geometry = this.applyModifier(geometry, features[i]);
+    }
+    return geometry;
+  }
+
+  /**
+   * Appends a modifier feature to an object and applies it to the current geometry.
+   * Only the new step is computed; earlier features are not replayed.
+   * @returns The updated object with a new mesh (the previous mesh is left intact for undo).
+   */
+  static append<T extends FeatureHolder>(holder: T, feature: Feature): T {
+    const geometry = this.applyModifier(holder.mesh.geometry, feature);
+    return {
+      ...holder,
+      mesh: this.replaceMesh(holder.mesh, geometry),
+      features: [...this.featuresOf(holder), feature]
+    };
+  }
+
+  /**
+   * Changes a feature's parameters and regenerates the object, which re-runs that
+   * feature and everything after it. Features nested in boolean operands can be
+   * edited too; the boolean that contains them is regenerated as well.
+   * @param holder The object owning the feature.
+   * @param featureId The id of the feature to edit.
+   * @param params The parameters to merge into the feature.
+   * @returns The regenerated object, or the same object if the feature was not found.
+   */
+  static updateParams<T extends FeatureHolder>(holder: T, featureId: string, params: Partial<Feature['params']>): T {
+    const features = this.featuresOf(holder);
+    const updated = this.replaceParams(features, featureId, params);
+    if (updated === features) return holder;
+
+    return {
+      ...holder,
+      mesh: this.replaceMesh(holder.mesh, this.build(updated)),
+      features: updated
+    };
+  }
+
+  /**
+   * Short label for a feature node in the tree.
+   */
+  static describe(feature: Feature): string {
+    switch (feature.type) {
+      case 'primitive': {
+        const { shape, size, radius, height } = feature.params;
+        if (shape === 'cube') return `Cube ${size}`;
+        if (shape === 'sphere') return `Sphere r${radius}`;
+        return `Cylinder r${radius} h${height}`;
+      }
+      case 'extrude':
+        return `Extrude ${feature.params.settings.depth}`;
+      case 'revolve':
+        return `Revolve ${feature.params.settings.angle}°`;
+      case 'sweep':
+        return feature.params.settings.twist ? `Sweep ${feature.params.settings.twist}°` : 'Sweep';
+      case 'loft':
+        return `Loft (${feature.params.sketch.length})`;
+      case 'offset-face':
+        return `Push/Pull #${feature.params.faceIndex} ${feature.params.distance}`;
+      case 'offset-body':
+        return `Offset Body ${feature.params.distance}${feature.params.corners === 'rounded' ? ' rounded' : ''}`;
+      case 'fillet':
+        return `Fillet r${feature.params.radius} (${feature.params.edges.length})`;
+      case 'chamfer':
+        return `Chamfer ${feature.params.distance}${feature.params.angle !== null ? ` @${feature.params.angle}°` : ''} (${feature.params.edges.length})`;
+      case 'shell':
+        return `Shell ${feature.params.thickness} ${feature.params.direction}${feature.params.faces.length > 0 ? ` (${feature.params.faces.length} open)` : ''}`;
+      case 'mirror':
+        return `Mirror ${feature.params.axis.toUpperCase()}`;
+      case 'boolean':
+        return `${feature.params.operation.charAt(0).toUpperCase()}${feature.params.operation.slice(1)} (${feature.params.operands.length})`;
+      case 'import':
+        return `Import ${feature.params.name}`;
+    }
+  }
+
+  /**
+   * Deep-copies sketch shapes so a feature is not affected by later sketch edits.
+   */
+  static cloneSketch(shapes: SketchShape3D[]): SketchShape3D[] {
+    return shapes.map(shape => ({
+      ...shape,
+      points: shape.points.map(p => ({
+        ...p,
+        position: p.position.clone(),
+        surfaceNormal: p.surfaceNormal?.clone()
+      })),
+      workplane: shape.workplane?.clone(),
+      normal: shape.normal?.clone()
+    }));
+  }
+
+  private static buildBase(feature: Feature): THREE.BufferGeometry {
+    switch (feature.type) {
+      case 'primitive': {
+        const { shape, size, radius, height, segments } = feature.params;
+        if (shape === 'cube') return createCubeGeometry(size);
+        if (shape === 'sphere') return createSphereGeometry(radius, segments);
+        return createCylinderGeometry(radius, height, segments);
+      }
+      case 'extrude':
+        return ExtrusionEngine.extrudeSketch(feature.params.sketch, feature.params.settings);
+      case 'revolve':
+        return RevolveEngine.revolveSketch(feature.params.sketch, feature.params.settings);
+      case 'sweep': {
+        const [profile, path] = feature.params.sketch;
+        return SweepEngine.sweep(profile, path, feature.params.settings);
+      }
+      case 'loft':
+        return LoftEngine.loft(feature.params.sketch, feature.params.settings);
+      case 'boolean': {
+        const { operation, operands, origin } = feature.params;
+        const geometry = CSGEngine.apply(operation, operands.map(operand => ({
+          geometry: this.build(operand.features),
+          matrix: new THREE.Matrix4().fromArray(operand.matrix)
+        })));
+        geometry.translate(-origin[0], -origin[1], -origin[2]);
+        return geometry;
+      }
+      case 'import':
+        return feature.params.geometry.clone();
+      default:
+        throw new Error(`Feature "${feature.type}" cannot start a feature list`);
+    }
+  }
+
+  private static applyModifier(geometry: THREE.BufferGeometry, feature: Feature): THREE.BufferGeometry {
+    switch (feature.type) {
+      case 'offset-face':
+        return OffsetEngine.offsetFace(geometry, feature.params.faceIndex, feature.params.distance);
+      case 'offset-body':
+        return OffsetEngine.offsetBody(geometry, feature.params.distance, feature.params.corners ?? 'mitered');
+      case 'fillet':
+        return FilletEngine.fillet(geometry, feature.params.edges, feature.params.radius, feature.params.segments);
+      case 'chamfer':
+        return FilletEngine.chamfer(geometry, feature.params.edges, feature.params.distance, feature.params.angle);
+      case 'shell':
+        return ShellEngine.shell(geometry, feature.params.faces, feature.params.thickness, feature.params.direction);
+      case 'mirror':
+        return this.mirrorGeometry(geometry, feature.params.axis);
+      default:
+        throw new Error(`Feature "${feature.type}" can only start a feature list`);
+    }
+  }
+
+  /**
+   * Mirrors geometry across a local axis plane and restores the winding order
+   * that the reflection reverses, so faces keep pointing outwards.
+   */
+  private static mirrorGeometry(geometry: THREE.BufferGeometry, axis: MirrorAxis): THREE.BufferGeometry {
+    const mirrored = geometry.clone();
+    mirrored.applyMatrix4(new THREE.Matrix4().makeScale(axis === 'x' ? -1 : 1, axis === 'y' ? -1 : 1, axis === 'z' ? -1 : 1));
+
+    const index = mirrored.getIndex();
+    if (index) {
+      for (let i = 0; i + 2 < index.count; i += 3) {
+        const b = index.getX(i + 1);
+        index.setX(i + 1, index.getX(i + 2));
+        index.setX(i + 2, b);
+      }
+      index.needsUpdate = true;
+    } else {
+      Object.values(mirrored.attributes).forEach(attribute => {
+        const attr = attribute as THREE.BufferAttribute;
+        for (let i = 0; i + 2 < attr.count; i += 3) {
+          for (let c = 0; c < attr.itemSize; c++) {
+            const b = attr.getComponent(i + 1, c);
+            attr.setComponent(i + 1, c, attr.getComponent(i + 2, c));
+            attr.setComponent(i + 2, c, b);
+          }
+        }
+        attr.needsUpdate = true;
+      });
+    }
+
+    return mirrored;
+  }
+
+  private static replaceParams(features: Feature[], featureId: string, params: Partial<Feature['params']>): Feature[] {
+    let changed = false;
+    const result = features.map(feature => {
+      if (feature.id === featureId) {
+        changed = true;
+        return { ...feature, params: { ...feature.params, ...params } } as Feature;
+      }
+      if (feature.type === 'boolean') {
+        const operands = feature.params.operands.map(operand => {
+          const nested = this.replaceParams(operand.features, featureId, params);
+          return nested === operand.features ? operand : { ...operand, features: nested };
+        });
+        if (operands.some((operand, i) => operand !== feature.params.operands[i])) {
+          changed = true;
+          return { ...feature, params: { ...feature.params, operands } };
+        }
+      }
+      return feature;
+    });
+    return changed ? result : features;
+  }
+
+  private static replaceMesh(mesh: THREE.Mesh, geometry: THREE.BufferGeometry): THREE.Mesh {
+    const newMesh = new THREE.Mesh(geometry, mesh.material);
+    newMesh.name = mesh.name;
+    newMesh.castShadow = true;
+    newMesh.receiveShadow = true;
+    newMesh.userData = { ...mesh.userData };
+    return newMesh;
+  }
+}
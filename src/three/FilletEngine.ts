@@ -0,0 +1,381 @@
+import * as THREE from 'three';
+import { CSGEngine } from './CSGEngine';
+import { buildSectionSolid, loopNormal } from './profiles';
+
+/** A straight piece of a model edge in the geometry's local coordinates. */
+export interface EdgeSegment {
+  start: [number, number, number];
+  end: [number, number, number];
+}
+
+// Edges whose faces meet at less than this angle are treated as smooth, not as model edges
+const SHARP_ANGLE = THREE.MathUtils.degToRad(30);
+// Neighbouring edges that turn by less than this are part of the same chain (e.g. a cylinder rim)
+const CHAIN_ANGLE = THREE.MathUtils.degToRad(30);
+const WELD_TOLERANCE = 1e-4;
+
+interface MeshEdge {
+  a: number;
+  b: number;
+  faces: number[];
+}
+
+interface SegmentFrame {
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+  direction: THREE.Vector3;
+  d1: THREE.Vector3;      // along face 1, away from the edge
+  d2: THREE.Vector3;      // along face 2, away from the edge
+  n1: THREE.Vector3;      // outward normal of face 1
+  n2: THREE.Vector3;      // outward normal of face 2
+  convex: boolean;
+}
+
+/**
+ * Welded triangle connectivity of a geometry, used to tell real model edges from
+ * the diagonals that split flat faces into triangles.
+ */
+class EdgeGraph {
+  readonly positions: THREE.Vector3[] = [];
+  readonly normals: THREE.Vector3[] = [];
+  readonly triangles: number[][] = [];
+  readonly edges = new Map<string, MeshEdge>();
+  private readonly vertexEdges = new Map<number, MeshEdge[]>();
+
+  constructor(geometry: THREE.BufferGeometry) {
+    const position = geometry.getAttribute('position');
+    const index = geometry.getIndex();
+    const lookup = new Map<string, number>();
+    const weld = (i: number) => {
+      const p = new THREE.Vector3().fromBufferAttribute(position, i);
+      const key = `${Math.round(p.x / WELD_TOLERANCE)},${Math.round(p.y / WELD_TOLERANCE)},${Math.round(p.z / WELD_TOLERANCE)}`;
+      let id = lookup.get(key);
+      if (id === undefined) {
+        id = this.positions.length;
+        lookup.set(key, id);
+        this.positions.push(p);
+      }
+      return id;
+    };
+
+    const count = index ? index.count : position.count;
+    for (let i = 0; i + 2 < count; i += 3) {
+      const tri = [0, 1, 2].map(k => weld(index ? index.getX(i + k) : i + k));
+      if (tri[0] === tri[1] || tri[1] === tri[2] || tri[2] === tri[0]) continue;
+
+      const [a, b, c] = tri.map(id => this.positions[id]);
+      const normal = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a));
+      if (normal.lengthSq() < 1e-18) continue;
+
+      const face = this.triangles.length;
+      this.triangles.push(tri);
+      this.normals.push(normal.normalize());
+      for (let k = 0; k < 3; k++) {
+        this.addEdge(tri[k], tri[(k + 1) % 3], face);
+      }
+    }
+  }
+
+  edgeBetween(a: number, b: number): MeshEdge | undefined {
+    return this.edges.get(a < b ? `${a}|${b}` : `${b}|${a}`);
+  }
+
+  edgesAt(vertex: number): MeshEdge[] {
+    return this.vertexEdges.get(vertex) ?? [];
+  }
+
+  isSharp(edge: MeshEdge): boolean {
+    return edge.faces.length === 2 && this.normals[edge.faces[0]].angleTo(this.normals[edge.faces[1]]) > SHARP_ANGLE;
+  }
+
+  nearestVertex(point: THREE.Vector3): number {
+    let best = -1;
+    let bestDistance = Infinity;
+    this.positions.forEach((p, i) => {
+      const distance = p.distanceToSquared(point);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    });
+    return best;
+  }
+
+  // The corner of a face that is not on the given edge
+  oppositeVertex(face: number, edge: MeshEdge): THREE.Vector3 {
+    const id = this.triangles[face].find(v => v !== edge.a && v !== edge.b)!;
+    return this.positions[id];
+  }
+
+  private addEdge(a: number, b: number, face: number): void {
+    const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+    let edge = this.edges.get(key);
+    if (!edge) {
+      edge = { a: Math.min(a, b), b: Math.max(a, b), faces: [] };
+      this.edges.set(key, edge);
+      [a, b].forEach(v => {
+        const list = this.vertexEdges.get(v) ?? [];
+        list.push(edge!);
+        this.vertexEdges.set(v, list);
+      });
+    }
+    edge.faces.push(face);
+  }
+}
+
+export class FilletEngine {
+  /**
+   * Expands a picked triangle edge into the model edge it belongs to.
+   * The edge is followed through neighbouring sharp edges that continue smoothly, so
+   * picking one segment of a cylinder rim selects the whole rim, and collinear pieces
+   * are merged into single segments.
+   * @param geometry The mesh geometry.
+   * @param a One end of the picked edge, in local coordinates.
+   * @param b The other end of the picked edge, in local coordinates.
+   * @returns The segments of the model edge, or null when the picked edge lies inside a smooth or flat region.
+   */
+  static findFeatureEdge(geometry: THREE.BufferGeometry, a: THREE.Vector3, b: THREE.Vector3): EdgeSegment[] | null {
+    const graph = new EdgeGraph(geometry);
+    const picked = graph.edgeBetween(graph.nearestVertex(a), graph.nearestVertex(b));
+    if (!picked || !graph.isSharp(picked)) {
+      return null;
+    }
+
+    // Walk forward from b, then backward from a, collecting vertices of the chain
+    const walk = (from: number, to: number, stop: number) => {
+      const vertices: number[] = [];
+      const visited = new Set<MeshEdge>([picked]);
+      let previous = from;
+      let current = to;
+      for (;;) {
+        const incoming = graph.positions[current].clone().sub(graph.positions[previous]).normalize();
+        const next = graph.edgesAt(current).filter(edge => !visited.has(edge) && graph.isSharp(edge));
+        // Only continue through unambiguous, smooth continuations
+        if (next.length !== 1) break;
+        const edge = next[0];
+        const other = edge.a === current ? edge.b : edge.a;
+        const outgoing = graph.positions[other].clone().sub(graph.positions[current]).normalize();
+        if (incoming.angleTo(outgoing) > CHAIN_ANGLE) break;
+        visited.add(edge);
+        vertices.push(other);
+        if (other === stop) break; // closed loop
+        previous = current;
+        current = other;
+      }
+      return vertices;
+    };
+
+    const forward = walk(picked.a, picked.b, picked.a);
+    const closed = forward[forward.length - 1] === picked.a;
+    const backward = closed ? [] : walk(picked.b, picked.a, picked.b);
+    const chain = [...backward.reverse(), picked.a, picked.b, ...forward].map(id => graph.positions[id]);
+
+    const segments = this.mergeCollinear(chain);
+    return segments.map(([start, end]) => ({ start: start.toArray() as [number, number, number], end: end.toArray() as [number, number, number] }));
+  }
+
+  /**
+   * Rounds the given edges with a constant radius.
+   * Convex edges are cut away and concave edges filled; where two selected edges meet,
+   * the roundings are mitred into each other.
+   * @param geometry The source geometry (not modified).
+   * @param edges The edges to round, as returned by findFeatureEdge.
+   * @param radius The fillet radius.
+   * @param segments The number of segments used for each rounded edge.
+   * @returns The new geometry.
+   */
+  static fillet(geometry: THREE.BufferGeometry, edges: EdgeSegment[], radius: number, segments: number): THREE.BufferGeometry {
+    if (radius <= 0) {
+      throw new Error('Fillet radius must be positive');
+    }
+
+    return this.applyProfiles(geometry, edges, frame => {
+      const phi = frame.d1.angleTo(frame.d2);
+      const tangent = radius / Math.tan(phi / 2);
+      const bisector = frame.d1.clone().add(frame.d2).normalize();
+      const center = bisector.multiplyScalar(radius / Math.sin(phi / 2));
+
+      // Arc from the tangent point on face 1 to the one on face 2, bulging towards the edge
+      const startDir = frame.d1.clone().multiplyScalar(tangent).sub(center).normalize();
+      const endDir = frame.d2.clone().multiplyScalar(tangent).sub(center).normalize();
+      const sweep = startDir.angleTo(endDir);
+      const perpendicular = endDir.clone().sub(startDir.clone().multiplyScalar(endDir.dot(startDir))).normalize();
+
+      const steps = Math.max(1, Math.round(segments));
+      const arc: THREE.Vector3[] = [];
+      for (let i = 0; i <= steps; i++) {
+        const angle = (i / steps) * sweep;
+        arc.push(center.clone()
+          .addScaledVector(startDir, Math.cos(angle) * radius)
+          .addScaledVector(perpendicular, Math.sin(angle) * radius));
+      }
+      return { curve: arc, reach: tangent };
+    });
+  }
+
+  /**
+   * Bevels the given edges with a flat face.
+   * @param geometry The source geometry (not modified).
+   * @param edges The edges to chamfer, as returned by findFeatureEdge.
+   * @param distance The setback along the first face of each edge.
+   * @param angle Angle of the chamfer face to the first face in degrees, or null for equal setbacks.
+   * @returns The new geometry.
+   */
+  static chamfer(geometry: THREE.BufferGeometry, edges: EdgeSegment[], distance: number, angle: number | null): THREE.BufferGeometry {
+    if (distance <= 0) {
+      throw new Error('Chamfer distance must be positive');
+    }
+
+    return this.applyProfiles(geometry, edges, frame => {
+      let second = distance;
+      if (angle !== null) {
+        // Sine rule in the triangle (edge, setback on face 1, setback on face 2)
+        const phi = frame.d1.angleTo(frame.d2);
+        const alpha = THREE.MathUtils.degToRad(angle);
+        if (alpha <= 0 || alpha + phi >= Math.PI) {
+          throw new Error(`A ${angle}° chamfer does not fit this edge`);
+        }
+        second = distance * Math.sin(alpha) / Math.sin(Math.PI - alpha - phi);
+      }
+      const curve = [frame.d1.clone().multiplyScalar(distance), frame.d2.clone().multiplyScalar(second)];
+      return { curve, reach: Math.max(distance, second) };
+    });
+  }
+
+  /**
+   * Builds a prism along every edge whose cross-section lies between the edge and the
+   * given curve, then subtracts it (convex edges) or adds it (concave edges).
+   * @param makeProfile Returns the curve from face 1 to face 2, as offsets from the edge line.
+   */
+  private static applyProfiles(
+    geometry: THREE.BufferGeometry,
+    edges: EdgeSegment[],
+    makeProfile: (frame: SegmentFrame) => { curve: THREE.Vector3[]; reach: number }
+  ): THREE.BufferGeometry {
+    const graph = new EdgeGraph(geometry);
+    const frames = edges
+      .map(edge => this.frameFor(graph, edge))
+      .filter((frame): frame is SegmentFrame => {
+        if (!frame) console.warn('Skipping an edge that is no longer part of the model');
+        return frame !== null;
+      });
+
+    if (frames.length === 0) {
+      throw new Error('None of the selected edges were found on the model');
+    }
+
+    geometry.computeBoundingBox();
+    const extend = geometry.boundingBox!.getSize(new THREE.Vector3()).length() * 1e-3;
+
+    const cutters: THREE.BufferGeometry[] = [];
+    const fillers: THREE.BufferGeometry[] = [];
+
+    frames.forEach(frame => {
+      const { curve, reach } = makeProfile(frame);
+      const bisector = frame.d1.clone().add(frame.d2).normalize();
+      // Pad the section outside the part it should affect so no face is exactly shared
+      const pad = reach * 0.25;
+      const away1 = frame.n1.dot(bisector) < 0 ? frame.n1 : frame.n1.clone().negate();
+      const away2 = frame.n2.dot(bisector) < 0 ? frame.n2 : frame.n2.clone().negate();
+
+      let section = [
+        ...curve,
+        curve[curve.length - 1].clone().addScaledVector(away2, pad),
+        bisector.clone().multiplyScalar(-pad),
+        curve[0].clone().addScaledVector(away1, pad)
+      ];
+      // Wind the section counter-clockwise around the edge direction
+      if (loopNormal(section).dot(frame.direction) < 0) section = section.reverse();
+
+      const startMiter = this.miterAt(frames, frame, frame.start, true);
+      const endMiter = this.miterAt(frames, frame, frame.end, false);
+      const ring = (origin: THREE.Vector3, miter: THREE.Vector3 | null, sign: number) => section.map(offset => {
+        const along = miter
+          ? -offset.dot(miter) / frame.direction.dot(miter)
+          : sign * extend;
+        return origin.clone().add(offset).addScaledVector(frame.direction, along);
+      });
+
+      const prism = buildSectionSolid([ring(frame.start, startMiter, -1), ring(frame.end, endMiter, 1)], true, false);
+      (frame.convex ? cutters : fillers).push(prism);
+    });
+
+    const identity = new THREE.Matrix4();
+    let result = geometry;
+    if (cutters.length > 0) {
+      result = CSGEngine.apply('subtract', [result, ...cutters].map(g => ({ geometry: g, matrix: identity })));
+    }
+    if (fillers.length > 0) {
+      result = CSGEngine.apply('union', [result, ...fillers].map(g => ({ geometry: g, matrix: identity })));
+    }
+    return result;
+  }
+
+  /**
+   * Plane normal for the joint between this segment and the one selected segment of the
+   * same kind that continues it, or null when the segment end stands alone.
+   */
+  private static miterAt(frames: SegmentFrame[], frame: SegmentFrame, point: THREE.Vector3, atStart: boolean): THREE.Vector3 | null {
+    const tolerance = WELD_TOLERANCE * 10;
+    const neighbours = frames.filter(other =>
+      other !== frame && (other.start.distanceTo(point) < tolerance || other.end.distanceTo(point) < tolerance)
+    );
+    if (neighbours.length !== 1 || neighbours[0].convex !== frame.convex) return null;
+
+    const other = neighbours[0];
+    // Direction of the neighbour oriented to run through the joint the same way as this segment
+    const continues = atStart ? other.end.distanceTo(point) < tolerance : other.start.distanceTo(point) < tolerance;
+    const otherDirection = continues ? other.direction : other.direction.clone().negate();
+    const miter = frame.direction.clone().add(otherDirection);
+    return miter.lengthSq() < 1e-9 ? null : miter.normalize();
+  }
+
+  private static frameFor(graph: EdgeGraph, segment: EdgeSegment): SegmentFrame | null {
+    const start = new THREE.Vector3(...segment.start);
+    const end = new THREE.Vector3(...segment.end);
+    const direction = end.clone().sub(start);
+    const length = direction.length();
+    if (length < WELD_TOLERANCE) return null;
+    direction.divideScalar(length);
+
+    // Any sharp mesh edge lying on the segment tells us which faces meet there
+    const line = new THREE.Line3(start, end);
+    const closest = new THREE.Vector3();
+    const onSegment = (p: THREE.Vector3) => line.closestPointToPoint(p, true, closest).distanceTo(p) < WELD_TOLERANCE * 10;
+    let found: MeshEdge | undefined;
+    for (const edge of graph.edges.values()) {
+      if (graph.isSharp(edge) && onSegment(graph.positions[edge.a]) && onSegment(graph.positions[edge.b])) {
+        found = edge;
+        break;
+      }
+    }
+    if (!found) return null;
+
+    const [f1, f2] = found.faces;
+    const n1 = graph.normals[f1].clone();
+    const n2 = graph.normals[f2].clone();
+    const inFace = (normal: THREE.Vector3, face: number) => {
+      const d = new THREE.Vector3().crossVectors(normal, direction).normalize();
+      const toOpposite = graph.oppositeVertex(face, found!).clone().sub(start);
+      return toOpposite.dot(d) < 0 ? d.negate() : d;
+    };
+    const d1 = inFace(n1, f1);
+    const d2 = inFace(n2, f2);
+
+    return { start, end, direction, d1, d2, n1, n2, convex: d2.dot(n1) < 0 };
+  }
+
+  // Joins runs of points that lie on one straight line
+  private static mergeCollinear(points: THREE.Vector3[]): Array<[THREE.Vector3, THREE.Vector3]> {
+    const segments: Array<[THREE.Vector3, THREE.Vector3]> = [];
+    let start = points[0];
+    for (let i = 1; i < points.length; i++) {
+      const next = points[i + 1];
+      const direction = points[i].clone().sub(start).normalize();
+      if (next && next.clone().sub(points[i]).normalize().dot(direction) > 1 - 1e-6) continue;
+      segments.push([start.clone(), points[i].clone()]);
+      start = points[i];
+    }
+    return segments;
+  }
+}
@@ -0,0 +1,112 @@
+import * as THREE from 'three';
+import { SketchShape3D } from '../utils/sketch3d';
+import { buildSectionSolid, CURVE_SEGMENTS, loopCentroid, loopNormal, resampleLoop, shapeOutline } from './profiles';
+
+export interface LoftSettings {
+  twist: number;     // extra degrees of rotation from the first to the last profile
+  endScale: number;  // scale applied at the last profile, interpolated from 1 at the first
+  capped: boolean;   // close the first and last profiles
+  segments: number;  // intermediate sections between two neighbouring profiles
+}
+
+export class LoftEngine {
+  /**
+   * Lofts a solid through two or more closed profiles, in the given order.
+   * Profiles are resampled to a common point count (keeping polygon corners) and
+   * matched by winding and closest start point, so a square can blend into a circle.
+   * @param profiles The closed cross-sections, typically on different workplanes.
+   * @param settings Twist, scale, capping and subdivision options.
+   * @returns A BufferGeometry of the lofted solid.
+   */
+  static loft(profiles: SketchShape3D[], settings: LoftSettings): THREE.BufferGeometry {
+    if (profiles.length < 2) {
+      throw new Error('Loft needs at least two profiles');
+    }
+
+    const outlines = profiles.map(profile => shapeOutline(profile));
+    if (outlines.some(outline => outline.length < 3)) {
+      throw new Error('Loft profiles must be closed shapes');
+    }
+
+    const curved = profiles.some(profile => profile.type === 'circle' || profile.type === 'spline');
+    const maxPoints = Math.max(...outlines.map(outline => outline.length));
+    const sameCount = outlines.every(outline => outline.length === maxPoints);
+    const count = sameCount && !curved ? maxPoints : Math.max(maxPoints, CURVE_SEGMENTS);
+
+    const centroids = outlines.map(loopCentroid);
+    const sections = outlines.map((outline, i) => {
+      // Wind every profile counter-clockwise around the direction of the loft
+      const ahead = i + 1 < centroids.length ? centroids[i + 1].clone().sub(centroids[i]) : centroids[i].clone().sub(centroids[i - 1]);
+      if (ahead.lengthSq() < 1e-12) {
+        throw new Error('Loft profiles must not share the same centre');
+      }
+      const ordered = loopNormal(outline).dot(ahead) < 0 ? [...outline].reverse() : outline;
+      return resampleLoop(ordered, count);
+    });
+
+    for (let i = 1; i < sections.length; i++) {
+      sections[i] = this.alignStart(sections[i - 1], centroids[i - 1], sections[i], centroids[i]);
+    }
+
+    // Progress along the loft by distance between profile centres
+    const distances = [0];
+    for (let i = 1; i < centroids.length; i++) {
+      distances.push(distances[i - 1] + centroids[i].distanceTo(centroids[i - 1]));
+    }
+    const total = distances[distances.length - 1];
+
+    const steps = Math.max(1, Math.round(settings.segments));
+    const rings: THREE.Vector3[][] = [];
+    for (let i = 0; i + 1 < sections.length; i++) {
+      const last = i + 2 === sections.length;
+      for (let s = 0; s <= (last ? steps : steps - 1); s++) {
+        const f = s / steps;
+        const ring = sections[i].map((p, j) => p.clone().lerp(sections[i + 1][j], f));
+        const t = (distances[i] + (distances[i + 1] - distances[i]) * f) / total;
+        rings.push(this.twistAndScale(ring, t, settings));
+      }
+    }
+
+    return buildSectionSolid(rings, settings.capped, curved);
+  }
+
+  /**
+   * Rotates a resampled loop so its first point best matches the previous profile,
+   * comparing positions relative to each profile's centre.
+   */
+  private static alignStart(
+    previous: THREE.Vector3[],
+    previousCentroid: THREE.Vector3,
+    current: THREE.Vector3[],
+    currentCentroid: THREE.Vector3
+  ): THREE.Vector3[] {
+    const reference = previous.map(p => p.clone().sub(previousCentroid));
+    const relative = current.map(p => p.clone().sub(currentCentroid));
+
+    let bestShift = 0;
+    let bestCost = Infinity;
+    for (let shift = 0; shift < current.length; shift++) {
+      let cost = 0;
+      for (let j = 0; j < current.length && cost < bestCost; j++) {
+        cost += reference[j].distanceToSquared(relative[(j + shift) % current.length]);
+      }
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestShift = shift;
+      }
+    }
+
+    return current.map((_, j) => current[(j + bestShift) % current.length]);
+  }
+
+  private static twistAndScale(ring: THREE.Vector3[], t: number, settings: LoftSettings): THREE.Vector3[] {
+    const angle = THREE.MathUtils.degToRad(settings.twist) * t;
+    const scale = 1 + (settings.endScale - 1) * t;
+    if (angle === 0 && scale === 1) return ring;
+
+    const centroid = loopCentroid(ring);
+    const axis = loopNormal(ring);
+    const rotation = new THREE.Quaternion().setFromAxisAngle(axis, angle);
+    return ring.map(p => p.clone().sub(centroid).applyQuaternion(rotation).multiplyScalar(scale).add(centroid));
+  }
+}
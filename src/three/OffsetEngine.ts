@@ -1,101 +1,404 @@
 import * as THREE from 'three';
+import { CSGEngine } from './CSGEngine';
+import { toCreasedNormals } from 'three/addons/utils/BufferGeometryUtils.js';
+import { directedEdges, isClosed, offsetDirection, planarRegion, selfIntersects, signedVolume, WeldedMesh, weldMesh } from './topology';
+
+export type OffsetCorners = 'mitered' | 'rounded';
+
+// Walls whose normal is this close to perpendicular to a moved face slide along with it
+const SLIDE_TOLERANCE = 1e-4;
+// Edges sharper than this get an arc in rounded offsets; flatter ones are mitred
+const ROUND_ANGLE = THREE.MathUtils.degToRad(15);
+// Largest turn between two points of a rounded corner
+const ARC_STEP = THREE.MathUtils.degToRad(15);
 
 export class OffsetEngine {
+  /**
+   * Pushes or pulls a flat face of a closed solid along its normal. The face is the
+   * whole planar region around the picked triangle. When the walls around it run
+   * along the normal (a box side, a cylinder wall) they stretch with the face;
+   * otherwise the face is extruded out of, or cut into, the solid so it stays closed.
+   * @param geometry The solid.
+   * @param faceIndex Any triangle of the face to move.
+   * @param offset Distance along the face normal; negative values push into the solid.
+   * @returns A new BufferGeometry.
+   */
   static offsetFace(geometry: THREE.BufferGeometry, faceIndex: number, offset: number): THREE.BufferGeometry {
-    const newGeometry = geometry.clone();
-    const positions = newGeometry.attributes.position;
-    const normals = newGeometry.attributes.normal;
-
-    if (!positions || !normals) return newGeometry;
-
-    // Get face vertices (assuming triangulated geometry)
-    const faceStart = faceIndex * 3;
-    
-    for (let i = 0; i < 3; i++) {
-      const vertexIndex = faceStart + i;
-      const x = positions.getX(vertexIndex);
-      const y = positions.getY(vertexIndex);
-      const z = positions.getZ(vertexIndex);
-      
-      const nx = normals.getX(vertexIndex);
-      const ny = normals.getY(vertexIndex);
-      const nz = normals.getZ(vertexIndex);
-
-      positions.setXYZ(
-        vertexIndex,
-        x + nx * offset,
-        y + ny * offset,
-        z + nz * offset
-      );
+    const mesh = weldMesh(geometry);
+    const edges = directedEdges(mesh);
+    const region = planarRegion(mesh, faceIndex, edges);
+    if (region.length === 0) {
+      throw new Error(`Face ${faceIndex} does not exist on this object`);
     }
+    if (offset === 0) return geometry.clone();
 
-    positions.needsUpdate = true;
-    newGeometry.computeVertexNormals();
-    
-    return newGeometry;
+    const inRegion = new Set(region);
+    const boundary: Array<[number, number]> = [];
+    for (const t of region) {
+      const tri = mesh.triangles[t]!;
+      for (let k = 0; k < 3; k++) {
+        const neighbour = edges.get(`${tri[(k + 1) % 3]}|${tri[k]}`);
+        if (neighbour === undefined) {
+          throw new Error('Push/pull needs a closed solid');
+        }
+        if (!inRegion.has(neighbour)) boundary.push([tri[k], tri[(k + 1) % 3]]);
+      }
+    }
+
+    const normal = mesh.normals[faceIndex];
+
+    return this.slideFace(geometry, mesh, inRegion, normal, offset)
+      ?? this.extrudeFace(geometry, mesh, region, boundary, normal, offset);
   }
 
-  static offsetBody(geometry: THREE.BufferGeometry, offset: number): THREE.BufferGeometry {
-    const newGeometry = geometry.clone();
-    const positions = newGeometry.attributes.position;
-    const normals = newGeometry.attributes.normal;
+  /**
+   * Moves the face's vertices when every wall touching it contains the normal, so
+   * the walls stay in their planes. Returns null when that does not hold or when
+   * the move would fold a wall over (pushed past the opposite end).
+   */
+  private static slideFace(
+    geometry: THREE.BufferGeometry,
+    mesh: WeldedMesh,
+    region: Set<number>,
+    normal: THREE.Vector3,
+    offset: number
+  ): THREE.BufferGeometry | null {
+    const moved = new Set<number>();
+    region.forEach(t => mesh.triangles[t]!.forEach(v => moved.add(v)));
 
-    if (!positions || !normals) return newGeometry;
+    const touching = mesh.triangles
+      .map((tri, t) => (tri && !region.has(t) && tri.some(v => moved.has(v)) ? t : -1))
+      .filter(t => t >= 0);
+    if (touching.some(t => Math.abs(mesh.normals[t].dot(normal)) > SLIDE_TOLERANCE)) {
+      return null;
+    }
 
-    // Offset all vertices along their normals
+    const shift = normal.clone().multiplyScalar(offset);
+    const position = (v: number) => (moved.has(v) ? mesh.vertices[v].clone().add(shift) : mesh.vertices[v]);
+    const folds = touching.some(t => {
+      const [a, b, c] = mesh.triangles[t]!.map(position);
+      const turned = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a));
+      return turned.dot(mesh.normals[t]) <= 1e-12;
+    });
+    if (folds) return null;
+
+    const result = geometry.clone();
+    const positions = result.getAttribute('position');
     for (let i = 0; i < positions.count; i++) {
-      const x = positions.getX(i);
-      const y = positions.getY(i);
-      const z = positions.getZ(i);
-      
-      const nx = normals.getX(i);
-      const ny = normals.getY(i);
-      const nz = normals.getZ(i);
-
-      positions.setXYZ(
-        i,
-        x + nx * offset,
-        y + ny * offset,
-        z + nz * offset
-      );
+      if (!moved.has(mesh.vertexIds[i])) continue;
+      positions.setXYZ(i, positions.getX(i) + shift.x, positions.getY(i) + shift.y, positions.getZ(i) + shift.z);
     }
 
     positions.needsUpdate = true;
-    newGeometry.computeVertexNormals();
-    
-    return newGeometry;
+    result.computeVertexNormals();
+    result.computeBoundingBox();
+    result.computeBoundingSphere();
+    return result;
+  }
+
+  /**
+   * Extrudes the face into a prism reaching the target distance and adds it to the
+   * solid (pull) or cuts it away (push). The prism starts slightly on the other side
+   * of the face so the boolean does not have to resolve coincident faces.
+   */
+  private static extrudeFace(
+    geometry: THREE.BufferGeometry,
+    mesh: WeldedMesh,
+    region: number[],
+    boundary: Array<[number, number]>,
+    normal: THREE.Vector3,
+    offset: number
+  ): THREE.BufferGeometry {
+    geometry.computeBoundingBox();
+    const pad = geometry.boundingBox!.getSize(new THREE.Vector3()).length() * 1e-3;
+    const [low, high] = offset > 0 ? [-pad, offset] : [offset, pad];
+    const at = (v: number, height: number) => mesh.vertices[v].clone().addScaledVector(normal, height);
+
+    const positions: number[] = [];
+    const push = (...points: THREE.Vector3[]) => points.forEach(p => positions.push(p.x, p.y, p.z));
+    for (const t of region) {
+      const [a, b, c] = mesh.triangles[t]!;
+      push(at(a, high), at(b, high), at(c, high));
+      push(at(a, low), at(c, low), at(b, low));
+    }
+    for (const [a, b] of boundary) {
+      push(at(a, low), at(b, low), at(b, high));
+      push(at(a, low), at(b, high), at(a, high));
+    }
+
+    const prism = new THREE.BufferGeometry();
+    prism.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+
+    const result = CSGEngine.apply(offset > 0 ? 'union' : 'subtract', [
+      { geometry, matrix: new THREE.Matrix4() },
+      { geometry: prism, matrix: new THREE.Matrix4() }
+    ]);
+    prism.dispose();
+    return result;
   }
 
-  static createShell(geometry: THREE.BufferGeometry, thickness: number): THREE.BufferGeometry {
-    // Create inner and outer surfaces
-    const outerGeometry = this.offsetBody(geometry, thickness / 2);
-    const innerGeometry = this.offsetBody(geometry, -thickness / 2);
-
-    // Flip inner geometry normals
-    const innerNormals = innerGeometry.attributes.normal;
-    for (let i = 0; i < innerNormals.count; i++) {
-      innerNormals.setXYZ(
-        i,
-        -innerNormals.getX(i),
-        -innerNormals.getY(i),
-        -innerNormals.getZ(i)
-      );
+  /**
+   * Inflates (positive offset) or shrinks (negative offset) a body along its
+   * surface normals. Coincident vertices are welded first, so split corners of
+   * non-indexed meshes (BoxGeometry, STL imports) move together and no cracks open.
+   * - mitered: faces move exactly the offset distance and corners stay sharp;
+   *   the mesh keeps its vertices, indices and attributes.
+   * - rounded: edges and corners the offset pulls apart are filled with arcs and
+   *   spherical patches, like rolling a ball over the surface.
+   * @param geometry The body to offset.
+   * @param offset Distance along the outward normals.
+   * @param corners How sharp edges are handled.
+   * @returns A new BufferGeometry.
+   * @throws If the offset surface would intersect itself.
+   */
+  static offsetBody(geometry: THREE.BufferGeometry, offset: number, corners: OffsetCorners = 'mitered'): THREE.BufferGeometry {
+    if (offset === 0) return geometry.clone();
+
+    const mesh = weldMesh(geometry);
+    const result = corners === 'rounded'
+      ? this.roundedOffset(mesh, offset)
+      : this.miteredOffset(geometry, mesh, offset);
+
+    const welded = weldMesh(result);
+    if (isClosed(mesh) && Math.sign(signedVolume(welded)) !== Math.sign(signedVolume(mesh))) {
+      result.dispose();
+      throw new Error('The offset is larger than the body allows; try a smaller distance');
     }
+    if (selfIntersects(welded)) {
+      result.dispose();
+      throw new Error(`An offset of ${offset} makes the surface intersect itself; try a smaller distance`);
+    }
+
+    result.computeBoundingBox();
+    result.computeBoundingSphere();
+    return result;
+  }
+
+  private static miteredOffset(geometry: THREE.BufferGeometry, mesh: WeldedMesh, offset: number): THREE.BufferGeometry {
+    const incident: THREE.Vector3[][] = mesh.vertices.map(() => []);
+    mesh.triangles.forEach((tri, t) => tri?.forEach(v => incident[v].push(mesh.normals[t])));
+    const shifts = incident.map(normals => offsetDirection(normals).multiplyScalar(offset));
+    this.checkFaces(mesh, (_t, v) => mesh.vertices[v].clone().add(shifts[v]));
+
+    const result = geometry.clone();
+    const positions = result.getAttribute('position');
+    for (let i = 0; i < positions.count; i++) {
+      const shift = shifts[mesh.vertexIds[i]];
+      if (!shift) continue;
+      positions.setXYZ(i, positions.getX(i) + shift.x, positions.getY(i) + shift.y, positions.getZ(i) + shift.z);
+    }
+    positions.needsUpdate = true;
+    result.computeVertexNormals();
+    return result;
+  }
 
-    // Combine geometries (simplified - in practice you'd need to handle edges)
-    const mergedGeometry = new THREE.BufferGeometry();
-    
-    // This is a simplified merge - a full implementation would properly connect edges
-    const outerPositions = outerGeometry.attributes.position.array;
-    const innerPositions = innerGeometry.attributes.position.array;
-    
-    const combinedPositions = new Float32Array(outerPositions.length + innerPositions.length);
-    combinedPositions.set(outerPositions, 0);
-    combinedPositions.set(innerPositions, outerPositions.length);
-    
-    mergedGeometry.setAttribute('position', new THREE.BufferAttribute(combinedPositions, 3));
-    mergedGeometry.computeVertexNormals();
-    
-    return mergedGeometry;
+  /**
+   * Offsets every face on its own, then closes the gaps: edges whose faces move
+   * apart get a strip of arc segments, and vertices where several such edges meet
+   * get a fan patch. Faces that move towards each other keep a mitred corner.
+   */
+  private static roundedOffset(mesh: WeldedMesh, offset: number): THREE.BufferGeometry {
+    const edges = directedEdges(mesh);
+    if (!isClosed(mesh, edges)) {
+      throw new Error('Rounded offset needs a closed solid');
+    }
+    const corners = new Map<number, number[]>();
+    mesh.triangles.forEach((tri, t) => tri?.forEach(v => {
+      const list = corners.get(v);
+      if (list) list.push(t);
+      else corners.set(v, [t]);
+    }));
+
+    const after = (t: number, v: number) => {
+      const tri = mesh.triangles[t]!;
+      return tri[(tri.indexOf(v) + 1) % 3];
+    };
+    const opposite = (t: number, a: number, b: number) => mesh.triangles[t]!.find(v => v !== a && v !== b)!;
+
+    // Faces pull apart across convex edges when inflating and concave edges when shrinking
+    const separates = (t1: number, t2: number, v: number, w: number) => {
+      const n1 = mesh.normals[t1];
+      if (n1.dot(mesh.normals[t2]) > Math.cos(ROUND_ANGLE)) return false;
+      const convex = n1.dot(mesh.vertices[opposite(t2, v, w)].clone().sub(mesh.vertices[v])) < 0;
+      return convex === offset > 0;
+    };
+
+    // Position of every triangle corner, shared by all faces between two separating edges
+    const cornerPositions = new Map<string, THREE.Vector3>();
+    // Arc points at a vertex from one face's corner to the next face's, keyed "v|t1|t2"
+    const arcs = new Map<string, THREE.Vector3[]>();
+    const fans = new Map<number, number[]>();
+
+    corners.forEach((incident, v) => {
+      // Walk the faces around the vertex in order
+      const fan = [incident[0]];
+      for (;;) {
+        const next = edges.get(`${after(fan[fan.length - 1], v)}|${v}`)!;
+        if (next === fan[0]) break;
+        fan.push(next);
+        if (fan.length > incident.length) break;
+      }
+      if (fan.length !== incident.length) {
+        throw new Error('Rounded offset needs a closed solid without shared vertices');
+      }
+
+      const cuts = fan
+        .map((t, i) => (separates(t, fan[(i + 1) % fan.length], v, after(t, v)) ? i : -1))
+        .filter(i => i >= 0);
+
+      // Faces between two cuts share one mitred corner
+      const groups: number[][] = [];
+      if (cuts.length === 0) {
+        groups.push(fan);
+      } else {
+        for (let c = 0; c < cuts.length; c++) {
+          const group: number[] = [];
+          const end = c + 1 < cuts.length ? cuts[c + 1] : cuts[0] + fan.length;
+          for (let i = cuts[c] + 1; i <= end; i++) group.push(fan[i % fan.length]);
+          groups.push(group);
+        }
+      }
+      for (const group of groups) {
+        const position = mesh.vertices[v].clone()
+          .addScaledVector(offsetDirection(group.map(t => mesh.normals[t])), offset);
+        group.forEach(t => cornerPositions.set(`${t}|${v}`, position));
+      }
+
+      // Arcs between the same two groups meet in a seam (a concave corner, or the
+      // middle of a straight edge), so they are solved together and line up
+      const groupOf = new Map<number, number>();
+      groups.forEach((group, g) => group.forEach(t => groupOf.set(t, g)));
+      const links = cuts.map(i => {
+        const t1 = fan[i];
+        const t2 = fan[(i + 1) % fan.length];
+        return { t1, t2, from: groupOf.get(t1)!, to: groupOf.get(t2)! };
+      });
+      const linkArcs = links.map(link => {
+        const pairs = links
+          .filter(other => (other.from === link.from && other.to === link.to) || (other.from === link.to && other.to === link.from))
+          .map(other => (other.from === link.from
+            ? [mesh.normals[other.t1], mesh.normals[other.t2]]
+            : [mesh.normals[other.t2], mesh.normals[other.t1]]) as [THREE.Vector3, THREE.Vector3]);
+        const steps = Math.max(1, Math.ceil(mesh.normals[link.t1].angleTo(mesh.normals[link.t2]) / ARC_STEP));
+        return this.arcPoints(
+          mesh.vertices[v],
+          pairs,
+          steps,
+          cornerPositions.get(`${link.t1}|${v}`)!,
+          cornerPositions.get(`${link.t2}|${v}`)!,
+          offset
+        );
+      });
+
+      // With two groups every arc traces the same seam; share the points instead of patching
+      const seam = groups.length === 2 && linkArcs.every(arc => arc.length === linkArcs[0].length);
+      links.forEach((link, i) => {
+        const arc = seam && link.from !== links[0].from ? [...linkArcs[0]].reverse() : seam ? linkArcs[0] : linkArcs[i];
+        arcs.set(`${v}|${link.t1}|${link.t2}`, arc);
+      });
+      if (groups.length > 1 && !seam) fans.set(v, links.map(link => link.t1));
+    });
+
+    this.checkFaces(mesh, (t, v) => cornerPositions.get(`${t}|${v}`)!);
+
+    const positions: number[] = [];
+    const push = (...points: THREE.Vector3[]) => points.forEach(p => positions.push(p.x, p.y, p.z));
+
+    mesh.triangles.forEach((tri, t) => {
+      if (!tri) return;
+      push(...tri.map(v => cornerPositions.get(`${t}|${v}`)!));
+
+      // Strip along each separating edge, built once from the face where it runs low to high
+      for (let k = 0; k < 3; k++) {
+        const v = tri[k];
+        const w = tri[(k + 1) % 3];
+        if (v > w) continue;
+        const other = edges.get(`${w}|${v}`)!;
+        const atV = arcs.get(`${v}|${t}|${other}`);
+        if (!atV) continue;
+        const atW = [...arcs.get(`${w}|${other}|${t}`)!].reverse();
+        for (let s = 0; s + 1 < atV.length; s++) {
+          push(atV[s], atV[s + 1], atW[s + 1]);
+          push(atV[s], atW[s + 1], atW[s]);
+        }
+      }
+    });
+
+    // Corner patches, fanned from the vertex's own offset point
+    fans.forEach((cutFaces, v) => {
+      const fanArcs = cutFaces.map(t1 => arcs.get(`${v}|${t1}|${edges.get(`${after(t1, v)}|${v}`)!}`)!);
+      const ring: THREE.Vector3[] = [];
+      fanArcs.forEach(arc => {
+        ring.push(...(ring.length > 0 && ring[ring.length - 1] === arc[0] ? arc.slice(1) : arc));
+      });
+      if (ring.length > 1 && ring[ring.length - 1] === ring[0]) ring.pop();
+      if (ring.length < 3) return;
+
+      const center = mesh.vertices[v].clone().addScaledVector(this.angleWeightedNormal(mesh, v, corners.get(v)!), offset);
+      for (let i = 0; i < ring.length; i++) {
+        push(center, ring[(i + 1) % ring.length], ring[i]);
+      }
+    });
+
+    const result = new THREE.BufferGeometry();
+    result.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    const creased = toCreasedNormals(result, ROUND_ANGLE);
+    result.dispose();
+    return creased;
+  }
+
+  /**
+   * Points of the arc a separating edge sweeps around a vertex, from one group's
+   * corner to the next. Every sample lies at the offset distance from all the face
+   * pairs meeting in the seam, each normal turned the same fraction of the way.
+   */
+  private static arcPoints(
+    origin: THREE.Vector3,
+    pairs: Array<[THREE.Vector3, THREE.Vector3]>,
+    steps: number,
+    start: THREE.Vector3,
+    end: THREE.Vector3,
+    offset: number
+  ): THREE.Vector3[] {
+    if (start === end) return new Array(steps + 1).fill(start);
+
+    const points = [start];
+    for (let s = 1; s < steps; s++) {
+      const normals = pairs.flatMap(([from, to]) => {
+        const axis = new THREE.Vector3().crossVectors(from, to);
+        if (axis.lengthSq() < 1e-18) return [];
+        return [from.clone().applyAxisAngle(axis.normalize(), (from.angleTo(to) * s) / steps)];
+      });
+      points.push(origin.clone().addScaledVector(offsetDirection(normals), offset));
+    }
+    points.push(end);
+    return points;
+  }
+
+  // Rejects offsets that shrink a face past zero size and turn it inside out
+  private static checkFaces(mesh: WeldedMesh, corner: (t: number, v: number) => THREE.Vector3): void {
+    const ab = new THREE.Vector3();
+    const ac = new THREE.Vector3();
+    mesh.triangles.forEach((tri, t) => {
+      if (!tri) return;
+      const [a, b, c] = tri.map(v => corner(t, v));
+      ab.subVectors(b, a);
+      ac.subVectors(c, a);
+      if (ab.cross(ac).dot(mesh.normals[t]) <= 0) {
+        throw new Error('The offset is larger than the body allows; try a smaller distance');
+      }
+    });
+  }
+
+  private static angleWeightedNormal(mesh: WeldedMesh, v: number, faces: number[]): THREE.Vector3 {
+    const normal = new THREE.Vector3();
+    for (const t of faces) {
+      const tri = mesh.triangles[t]!;
+      const k = tri.indexOf(v);
+      const a = mesh.vertices[tri[(k + 1) % 3]].clone().sub(mesh.vertices[v]);
+      const b = mesh.vertices[tri[(k + 2) % 3]].clone().sub(mesh.vertices[v]);
+      normal.addScaledVector(mesh.normals[t], a.angleTo(b));
+    }
+    return normal.normalize();
   }
 }
\ No newline at end of file
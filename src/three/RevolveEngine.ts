@@ -0,0 +1,224 @@
+import * as THREE from 'three';
+import { SketchShape3D } from '../utils/sketch3d';
+
+export type RevolveAxis =
+  | { kind: 'world'; axis: 'x' | 'y' | 'z' }
+  // A line of the sketch; it is used as the axis and left out of the profile
+  | { kind: 'line'; shapeId: string };
+
+export interface RevolveSettings {
+  axis: RevolveAxis;
+  angle: number;     // degrees, 360 for a full turn
+  segments: number;  // steps across the swept angle
+  capped: boolean;   // close the start and end faces of a partial revolve
+}
+
+// A profile point as (distance from the axis, height along the axis)
+type ProfilePoint = THREE.Vector2;
+
+const AXIS_EPSILON = 1e-6;
+// Resolution used when a circle is revolved (e.g. a torus)
+const CIRCLE_PROFILE_SEGMENTS = 32;
+
+export class RevolveEngine {
+  /**
+   * Revolves a sketch profile around an axis.
+   * Open profiles are closed through the axis, so half the outline of a shaft
+   * gives a solid shaft. Partial revolves get flat end caps when `capped` is set.
+   * @param shapes The sketch shapes; the profile is the first shape other than the axis line.
+   * @param settings The axis, angle, segment count and capping options.
+   * @returns A BufferGeometry of the revolved solid.
+   */
+  static revolveSketch(shapes: SketchShape3D[], settings: RevolveSettings): THREE.BufferGeometry {
+    const { origin, direction } = this.resolveAxis(shapes, settings.axis);
+    const candidates = shapes.filter(shape =>
+      !(settings.axis.kind === 'line' && shape.id === settings.axis.shapeId) &&
+      shape.points.length >= 2
+    );
+    // Prefer a shape that can enclose area over a bare construction segment
+    const profileShape = candidates.find(shape => shape.type === 'circle' || shape.points.length >= 3) ?? candidates[0];
+
+    if (!profileShape) {
+      throw new Error('No profile found to revolve');
+    }
+
+    // Radial direction of the profile half-plane, taken from the point farthest from the axis
+    const radial = new THREE.Vector3();
+    profileShape.points.forEach(point => {
+      const offset = point.position.clone().sub(origin);
+      const perpendicular = offset.sub(direction.clone().multiplyScalar(offset.dot(direction)));
+      if (perpendicular.length() > radial.length()) radial.copy(perpendicular);
+    });
+
+    if (radial.length() < AXIS_EPSILON) {
+      throw new Error('Profile lies on the revolve axis');
+    }
+    radial.normalize();
+
+    const profile = this.buildProfile(profileShape, origin, direction, radial);
+    if (profile.some(p => p.x < -AXIS_EPSILON)) {
+      console.warn('Profile crosses the revolve axis; the result will self-intersect');
+    }
+
+    const sweep = THREE.MathUtils.degToRad(THREE.MathUtils.clamp(settings.angle, 0.1, 360));
+    const fullTurn = settings.angle >= 360;
+    const segments = Math.max(fullTurn ? 3 : 1, Math.round(settings.segments));
+    const tangent = new THREE.Vector3().crossVectors(direction, radial);
+
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const indices: number[] = [];
+
+    // Maps a profile point at a given angle into world space
+    const place = (p: ProfilePoint, theta: number) => origin.clone()
+      .addScaledVector(direction, p.y)
+      .addScaledVector(radial, p.x * Math.cos(theta))
+      .addScaledVector(tangent, p.x * Math.sin(theta));
+
+    const pushVertex = (position: THREE.Vector3, normal: THREE.Vector3) => {
+      positions.push(position.x, position.y, position.z);
+      normals.push(normal.x, normal.y, normal.z);
+      return positions.length / 3 - 1;
+    };
+
+    // Side walls: every profile edge sweeps a band with its own vertices, which keeps
+    // shading smooth around the axis but sharp at the profile corners
+    for (let i = 0; i < profile.length; i++) {
+      const a = profile[i];
+      const b = profile[(i + 1) % profile.length];
+      if (a.x < AXIS_EPSILON && b.x < AXIS_EPSILON) continue; // edge on the axis sweeps nothing
+
+      // Outward normal of a counter-clockwise (radius, height) loop
+      const edgeNormal = new THREE.Vector2(b.y - a.y, a.x - b.x).normalize();
+      const bandStart = positions.length / 3;
+
+      for (let j = 0; j <= segments; j++) {
+        const theta = (j / segments) * sweep;
+        const normal = radial.clone().multiplyScalar(edgeNormal.x * Math.cos(theta))
+          .addScaledVector(tangent, edgeNormal.x * Math.sin(theta))
+          .addScaledVector(direction, edgeNormal.y);
+        pushVertex(place(a, theta), normal);
+        pushVertex(place(b, theta), normal);
+      }
+
+      for (let j = 0; j < segments; j++) {
+        const a0 = bandStart + j * 2;
+        const b0 = a0 + 1;
+        const a1 = a0 + 2;
+        const b1 = a0 + 3;
+        // Points on the axis collapse a quad into a single triangle
+        if (a.x >= AXIS_EPSILON) indices.push(a0, a1, b0);
+        if (b.x >= AXIS_EPSILON) indices.push(b0, a1, b1);
+      }
+    }
+
+    if (!fullTurn && settings.capped) {
+      const triangles = THREE.ShapeUtils.triangulateShape(profile, []);
+      const endNormal = radial.clone().multiplyScalar(-Math.sin(sweep)).addScaledVector(tangent, Math.cos(sweep));
+      const caps: Array<{ theta: number; normal: THREE.Vector3; flip: boolean }> = [
+        { theta: 0, normal: tangent.clone().negate(), flip: false },
+        { theta: sweep, normal: endNormal, flip: true }
+      ];
+
+      caps.forEach(cap => {
+        const capStart = positions.length / 3;
+        profile.forEach(p => pushVertex(place(p, cap.theta), cap.normal));
+        triangles.forEach(([x, y, z]) => {
+          if (cap.flip) indices.push(capStart + x, capStart + z, capStart + y);
+          else indices.push(capStart + x, capStart + y, capStart + z);
+        });
+      });
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+    geometry.setIndex(indices);
+    geometry.computeBoundingBox();
+    geometry.computeBoundingSphere();
+
+    return geometry;
+  }
+
+  /**
+   * Returns the sketch lines that can serve as a revolve axis. The line tool stores
+   * single segments as two-point polygons, so any two-point shape qualifies.
+   */
+  static axisCandidates(shapes: SketchShape3D[]): SketchShape3D[] {
+    return shapes.filter(shape => shape.type !== 'circle' && shape.points.length === 2);
+  }
+
+  private static resolveAxis(shapes: SketchShape3D[], axis: RevolveAxis): { origin: THREE.Vector3; direction: THREE.Vector3 } {
+    if (axis.kind === 'world') {
+      const direction = new THREE.Vector3(
+        axis.axis === 'x' ? 1 : 0,
+        axis.axis === 'y' ? 1 : 0,
+        axis.axis === 'z' ? 1 : 0
+      );
+      return { origin: new THREE.Vector3(), direction };
+    }
+
+    const line = shapes.find(shape => shape.id === axis.shapeId);
+    if (!line || line.points.length < 2) {
+      throw new Error(`Axis line ${axis.shapeId} not found in sketch`);
+    }
+
+    const start = line.points[0].position;
+    const end = line.points[line.points.length - 1].position;
+    const direction = end.clone().sub(start);
+    if (direction.length() < AXIS_EPSILON) {
+      throw new Error('Axis line has zero length');
+    }
+    return { origin: start.clone(), direction: direction.normalize() };
+  }
+
+  /**
+   * Converts a sketch shape into a closed, counter-clockwise (radius, height) loop.
+   */
+  private static buildProfile(
+    shape: SketchShape3D,
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    radial: THREE.Vector3
+  ): ProfilePoint[] {
+    const toProfile = (position: THREE.Vector3) => {
+      const offset = position.clone().sub(origin);
+      return new THREE.Vector2(offset.dot(radial), offset.dot(direction));
+    };
+
+    let profile: ProfilePoint[];
+    if (shape.type === 'circle') {
+      const center = toProfile(shape.points[0].position);
+      const radius = shape.points[0].position.distanceTo(shape.points[1].position);
+      profile = [];
+      for (let i = 0; i < CIRCLE_PROFILE_SEGMENTS; i++) {
+        const angle = (i / CIRCLE_PROFILE_SEGMENTS) * Math.PI * 2;
+        profile.push(new THREE.Vector2(center.x + Math.cos(angle) * radius, center.y + Math.sin(angle) * radius));
+      }
+    } else {
+      profile = shape.points.map(point => toProfile(point.position));
+      if (profile.length > 2 && profile[0].distanceTo(profile[profile.length - 1]) < AXIS_EPSILON) {
+        profile.pop();
+      }
+
+      // Open profiles (and single segments) are closed by running back along the axis
+      if (!shape.closed || profile.length === 2) {
+        const first = profile[0];
+        const last = profile[profile.length - 1];
+        if (Math.abs(last.x) > AXIS_EPSILON) profile.push(new THREE.Vector2(0, last.y));
+        if (Math.abs(first.x) > AXIS_EPSILON) profile.push(new THREE.Vector2(0, first.y));
+      }
+    }
+
+    if (profile.length < 3 || Math.abs(THREE.ShapeUtils.area(profile)) < AXIS_EPSILON) {
+      throw new Error('Revolve profile encloses no area');
+    }
+
+    // Points on the axis are snapped so they sweep to a single point
+    profile.forEach(p => {
+      if (Math.abs(p.x) < AXIS_EPSILON) p.x = 0;
+    });
+
+    return THREE.ShapeUtils.isClockWise(profile) ? profile.reverse() : profile;
+  }
+}
@@ -0,0 +1,119 @@
+import * as THREE from 'three';
+import { directedEdges, isClosed, offsetDirection, planarRegion, signedVolume, weldMesh } from './topology';
+
+export type ShellDirection = 'inward' | 'outward' | 'centered';
+
+export class ShellEngine {
+  /**
+   * Hollows a closed solid into walls of constant thickness. The flat faces that
+   * contain the picked triangles are removed to open the shell, and their outline
+   * is closed with a rim between the outer and inner walls, so the result stays a
+   * closed manifold. Without removed faces the solid gets a sealed inner void.
+   * @param geometry The solid to hollow (indexed or not).
+   * @param faces Triangle indices picked on the faces to remove.
+   * @param thickness Wall thickness.
+   * @param direction Whether the wall grows into the solid, out of it, or both ways.
+   * @returns A new non-indexed BufferGeometry.
+   */
+  static shell(
+    geometry: THREE.BufferGeometry,
+    faces: number[],
+    thickness: number,
+    direction: ShellDirection
+  ): THREE.BufferGeometry {
+    if (!(thickness > 0)) {
+      throw new Error('Shell thickness must be greater than zero');
+    }
+
+    const mesh = weldMesh(geometry);
+    const edges = directedEdges(mesh);
+    if (!isClosed(mesh, edges)) {
+      throw new Error('Shell needs a closed solid without open or shared edges');
+    }
+
+    const removed = new Set<number>();
+    faces.forEach(face => planarRegion(mesh, face, edges).forEach(t => removed.add(t)));
+    const kept = mesh.triangles
+      .map((tri, t) => (tri && !removed.has(t) ? t : -1))
+      .filter(t => t >= 0);
+    if (kept.length === 0) {
+      throw new Error('Shell cannot remove every face of the solid');
+    }
+
+    // Offsets are measured along the outward normals; flip if the mesh is wound inside out
+    const orientation = signedVolume(mesh) < 0 ? -1 : 1;
+    const [outerDistance, innerDistance] = direction === 'inward'
+      ? [0, -thickness]
+      : direction === 'outward'
+        ? [thickness, 0]
+        : [thickness / 2, -thickness / 2];
+
+    const directions = this.vertexDirections(mesh.vertices.length, kept, mesh.triangles, mesh.normals);
+    const layer = (distance: number) => mesh.vertices.map((v, i) =>
+      v.clone().addScaledVector(directions[i], distance * orientation));
+    const outer = layer(outerDistance);
+    const inner = layer(innerDistance);
+
+    this.checkLayer(outer, kept, mesh.triangles, mesh.normals);
+    this.checkLayer(inner, kept, mesh.triangles, mesh.normals);
+
+    const positions: number[] = [];
+    const push = (...points: THREE.Vector3[]) => points.forEach(p => positions.push(p.x, p.y, p.z));
+
+    for (const t of kept) {
+      const [a, b, c] = mesh.triangles[t]!;
+      push(outer[a], outer[b], outer[c]);
+      push(inner[a], inner[c], inner[b]);
+
+      // Close the opening with a rim wherever a kept triangle borders a removed one
+      for (let k = 0; k < 3; k++) {
+        const from = mesh.triangles[t]![k];
+        const to = mesh.triangles[t]![(k + 1) % 3];
+        if (!removed.has(edges.get(`${to}|${from}`)!)) continue;
+        push(outer[to], outer[from], inner[from]);
+        push(outer[to], inner[from], inner[to]);
+      }
+    }
+
+    const result = new THREE.BufferGeometry();
+    result.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    result.computeVertexNormals();
+    result.computeBoundingBox();
+    result.computeBoundingSphere();
+
+    return result;
+  }
+
+  // Offset direction of every vertex, taken from the kept faces around it
+  private static vertexDirections(
+    vertexCount: number,
+    kept: number[],
+    triangles: Array<[number, number, number] | null>,
+    normals: THREE.Vector3[]
+  ): THREE.Vector3[] {
+    const incident: THREE.Vector3[][] = Array.from({ length: vertexCount }, () => []);
+    for (const t of kept) {
+      for (const v of triangles[t]!) incident[v].push(normals[t]);
+    }
+    return incident.map(offsetDirection);
+  }
+
+  // Rejects walls so thick that an offset layer folds over itself
+  private static checkLayer(
+    layer: THREE.Vector3[],
+    kept: number[],
+    triangles: Array<[number, number, number] | null>,
+    normals: THREE.Vector3[]
+  ): void {
+    const ab = new THREE.Vector3();
+    const ac = new THREE.Vector3();
+    for (const t of kept) {
+      const [a, b, c] = triangles[t]!;
+      ab.subVectors(layer[b], layer[a]);
+      ac.subVectors(layer[c], layer[a]);
+      if (ab.cross(ac).dot(normals[t]) <= 0) {
+        throw new Error('Wall thickness is too large for this shape');
+      }
+    }
+  }
+}
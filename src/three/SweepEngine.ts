@@ -0,0 +1,122 @@
+import * as THREE from 'three';
+import { SketchShape3D } from '../utils/sketch3d';
+import { buildSectionSolid, loopCentroid, loopNormal, planeBasis, shapeOutline, shapePath } from './profiles';
+
+export interface SweepSettings {
+  twist: number;     // degrees of rotation accumulated from the start to the end of the path
+  endScale: number;  // profile scale at the end of the path, interpolated from 1 at the start
+  capped: boolean;   // close both ends
+}
+
+// Longest mitre as a multiple of the profile's distance from the path (as SVG's stroke-miterlimit);
+// sharper corners tilt the section less than the bisecting plane instead of spiking out
+const MITER_LIMIT = 4;
+
+export class SweepEngine {
+  /**
+   * Sweeps a closed profile along an open path.
+   * The profile is centred on the path and carried along it with rotation-minimising
+   * frames; at sharp corners of a line chain the section is mitred so the wall keeps
+   * its thickness, up to a mitre limit.
+   * @param profile The closed cross-section shape.
+   * @param path The path shape, followed from its first to its last point.
+   * @param settings Twist, scale-along-path and capping options.
+   * @returns A BufferGeometry of the swept solid.
+   */
+  static sweep(profile: SketchShape3D, path: SketchShape3D, settings: SweepSettings): THREE.BufferGeometry {
+    const pathPoints = shapePath(path);
+    if (pathPoints.length < 2) {
+      throw new Error('Sweep path needs at least two distinct points');
+    }
+
+    const outline = shapeOutline(profile);
+    if (outline.length < 3) {
+      throw new Error('Sweep profile must be a closed shape');
+    }
+
+    const directions = pathPoints.slice(1).map((p, i) => p.clone().sub(pathPoints[i]).normalize());
+    const frames = this.transportFrames(directions, outline);
+
+    // Profile coordinates in the first frame, wound counter-clockwise around the path
+    const centroid = loopCentroid(outline);
+    let section = outline.map(p => {
+      const offset = p.clone().sub(centroid);
+      return new THREE.Vector2(offset.dot(frames.profileU), offset.dot(frames.profileV));
+    });
+    if (THREE.ShapeUtils.isClockWise(section)) section = section.reverse();
+
+    const lengths = [0];
+    for (let i = 1; i < pathPoints.length; i++) {
+      lengths.push(lengths[i - 1] + pathPoints[i].distanceTo(pathPoints[i - 1]));
+    }
+    const total = lengths[lengths.length - 1];
+
+    const rings = pathPoints.map((point, i) => {
+      // Sections use the frame of the segment arriving at the point
+      const segment = Math.max(0, i - 1);
+      const incoming = directions[segment];
+      const normal = frames.normals[segment];
+      const binormal = new THREE.Vector3().crossVectors(incoming, normal);
+
+      // Sections at inner points lie on the plane bisecting the corner
+      const outgoing = directions[Math.min(i, directions.length - 1)];
+      let miter = incoming.clone().add(outgoing);
+      if (miter.lengthSq() < 1e-9) miter = incoming.clone();
+      miter.normalize();
+
+      const t = total > 0 ? lengths[i] / total : 0;
+      const angle = THREE.MathUtils.degToRad(settings.twist) * t;
+      const scale = 1 + (settings.endScale - 1) * t;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+
+      return section.map(p => {
+        const x = (p.x * cos - p.y * sin) * scale;
+        const y = (p.x * sin + p.y * cos) * scale;
+        const offset = normal.clone().multiplyScalar(x).addScaledVector(binormal, y);
+        const along = -offset.dot(miter) / Math.max(incoming.dot(miter), 1 / MITER_LIMIT);
+        return point.clone().add(offset).addScaledVector(incoming, along);
+      });
+    });
+
+    const smooth = profile.type === 'circle' || profile.type === 'spline';
+    return buildSectionSolid(rings, settings.capped, smooth);
+  }
+
+  /**
+   * Carries a normal vector along the path segments by parallel transport.
+   * The first normal follows the profile: a profile drawn across the path keeps its
+   * orientation, a profile drawn flat (on the path's own workplane) is stood upright.
+   */
+  private static transportFrames(directions: THREE.Vector3[], outline: THREE.Vector3[]) {
+    const start = directions[0];
+    const profileNormal = loopNormal(outline);
+    if (profileNormal.lengthSq() === 0) {
+      throw new Error('Sweep profile encloses no area');
+    }
+    if (profileNormal.dot(start) < 0) profileNormal.negate();
+
+    // Profile axes with u × v pointing along the path, so the profile is not mirrored
+    const { u: profileU, v: profileV } = planeBasis(profileNormal);
+
+    let first: THREE.Vector3;
+    if (Math.abs(profileNormal.dot(start)) > 0.9) {
+      first = profileU.clone();
+    } else {
+      first = profileNormal.clone();
+    }
+    first.sub(start.clone().multiplyScalar(first.dot(start)));
+    if (first.lengthSq() < 1e-9) first = planeBasis(start).u;
+    first.normalize();
+
+    const normals = [first];
+    for (let i = 1; i < directions.length; i++) {
+      const rotation = new THREE.Quaternion().setFromUnitVectors(directions[i - 1], directions[i]);
+      const next = normals[i - 1].clone().applyQuaternion(rotation);
+      next.sub(directions[i].clone().multiplyScalar(next.dot(directions[i]))).normalize();
+      normals.push(next);
+    }
+
+    return { normals, profileU, profileV };
+  }
+}
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { Vec3 } from '../utils/math'; // Assuming Vec3 is defined in this path
+import { Feature } from './FeatureEngine';
 
 // Define a basic Vec3 class if it's not available, for standalone functionality.
 // If you have this defined elsewhere, you can remove this class.
@@ -61,8 +62,19 @@ if (typeof (globalThis as any).Vec3 === 'undefined') {
 }
 
 
+// A node of an imported file that objects are listed under in the scene hierarchy.
+// When the id is another object's id, the object is nested under that object.
+export interface HierarchyNode {
+    id: string;
+    name: string;
+}
+
 export interface RenderObject {
     id: string;
+    // Display name; objects without one are named after their id
+    name?: string;
+    // Nodes the object is nested under, outermost first
+    hierarchy?: HierarchyNode[];
     mesh: THREE.Mesh;
     position: Vec3;
     rotation: Vec3;
@@ -72,6 +84,8 @@ export interface RenderObject {
     visible: boolean;
     originalMaterial?: THREE.Material;
     meshData?: any;
+    // Creation history; see FeatureEngine
+    features?: Feature[];
 }
 
 export interface LightSettings {
@@ -217,12 +231,20 @@ export class ThreeRenderer {
         this.scene.add(this.axes);
     }
 
-    addObject(id: string, geometry: THREE.BufferGeometry, color: Vec3): void {
-        const material = new THREE.MeshPhongMaterial({
+    /**
+     * Adds a mesh for an object. Objects are drawn with a shiny Phong material in their
+     * color, unless they bring a PBR material of their own (e.g. a textured glTF import),
+     * which is shown as-is; its color still follows the object's color.
+     */
+    addObject(id: string, geometry: THREE.BufferGeometry, color: Vec3, sourceMaterial?: THREE.MeshStandardMaterial): void {
+        const material = sourceMaterial ? sourceMaterial.clone() : new THREE.MeshPhongMaterial({
             color: new THREE.Color(color.x, color.y, color.z),
             shininess: 100,
             specular: 0x222222
         });
+        // Restored when the object is deselected
+        material.userData.emissive = material.emissive.getHex();
+        material.userData.emissiveIntensity = material.emissiveIntensity;
 
         const mesh = new THREE.Mesh(geometry, material);
         mesh.castShadow = true;
@@ -296,7 +318,7 @@ export class ThreeRenderer {
 
         if (updates.color) {
             obj.color = updates.color;
-            const material = obj.mesh.material as THREE.MeshPhongMaterial;
+            const material = obj.mesh.material as THREE.MeshPhongMaterial | THREE.MeshStandardMaterial;
             material.color.setRGB(updates.color.x, updates.color.y, updates.color.z);
         }
 
@@ -312,13 +334,13 @@ export class ThreeRenderer {
     }
 
     private updateSelectionHighlight(obj: RenderObject): void {
-        const material = obj.mesh.material as THREE.MeshPhongMaterial;
+        const material = obj.mesh.material as THREE.MeshPhongMaterial | THREE.MeshStandardMaterial;
         if (obj.selected) {
             material.emissive.setHex(0x004080);
             material.emissiveIntensity = 0.3;
         } else {
-            material.emissive.setHex(0x000000);
-            material.emissiveIntensity = 0;
+            material.emissive.setHex(material.userData.emissive ?? 0x000000);
+            material.emissiveIntensity = material.userData.emissiveIntensity ?? 0;
         }
     }
 
@@ -355,6 +377,10 @@ export class ThreeRenderer {
         return Array.from(this.objects.values());
     }
 
+    getMesh(id: string): THREE.Mesh | null {
+        return this.objects.get(id)?.mesh ?? null;
+    }
+
     getSelectedMesh(): THREE.Mesh | null {
         for (const obj of this.objects.values()) {
             if (obj.selected) {
@@ -511,6 +537,43 @@ export class ThreeRenderer {
     }
 
 
+    /**
+     * Gets the IDs of all visible objects whose on-screen bounds centre lies inside a rectangle.
+     * Coordinates are in pixels relative to the canvas' top-left corner.
+     */
+    getObjectsInRect(x1: number, y1: number, x2: number, y2: number): string[] {
+        const canvasBounds = this.renderer.domElement.getBoundingClientRect();
+        const minX = Math.min(x1, x2);
+        const maxX = Math.max(x1, x2);
+        const minY = Math.min(y1, y2);
+        const maxY = Math.max(y1, y2);
+
+        const ids: string[] = [];
+        const box = new THREE.Box3();
+        const center = new THREE.Vector3();
+
+        for (const obj of this.objects.values()) {
+            if (!obj.visible) continue;
+
+            box.setFromObject(obj.mesh);
+            if (box.isEmpty()) continue;
+            box.getCenter(center);
+
+            // Skip objects behind the camera; project() would mirror them onto the screen
+            const projected = center.project(this.camera);
+            if (projected.z > 1) continue;
+
+            const screenX = (projected.x * 0.5 + 0.5) * canvasBounds.width;
+            const screenY = (-projected.y * 0.5 + 0.5) * canvasBounds.height;
+
+            if (screenX >= minX && screenX <= maxX && screenY >= minY && screenY <= maxY) {
+                ids.push(obj.id);
+            }
+        }
+
+        return ids;
+    }
+
     getIntersectionPoint(x: number, y: number): Vec3 | null {
         const canvasBounds = this.renderer.domElement.getBoundingClientRect();
         this.mouse.x = ((x - canvasBounds.left) / canvasBounds.width) * 2 - 1;
@@ -10,10 +10,23 @@ export interface ExtrusionSettings {
   bevelSegments: number;
 }
 
+// Closed sketch outline projected onto the sketch plane
+interface SketchLoop {
+  outline: THREE.Vector2[];
+  area: number;
+  // Circles are traced as true arcs rather than their sampled outline
+  circle?: { center: THREE.Vector2; radius: number };
+}
+
+// Resolution of the polygon used to test circle nesting (drawing uses exact arcs)
+const CIRCLE_TEST_SEGMENTS = 64;
+
 export class ExtrusionEngine {
   /**
-   * Extrudes the first valid, closed shape from a list of sketch shapes.
-   * This version correctly handles different shape types like circles and polygons.
+   * Extrudes every closed shape of a sketch into a single geometry.
+   * Loops are sorted by nesting: a loop inside an odd number of others is a hole in
+   * its innermost container, all other loops are outer boundaries, so a circle drawn
+   * inside a rectangle cuts a hole and separate regions are extruded together.
    * @param shapes An array of 3D sketch shapes.
    * @param settings The settings for the extrusion (depth, bevels, etc.).
    * @returns A BufferGeometry of the extruded model.
@@ -26,60 +39,33 @@ export class ExtrusionEngine {
 
     console.log('Attempting to extrude from provided shapes:', shapes);
 
-    // Find the first valid shape to extrude.
-    const shapeToExtrude = shapes.find(s => s.closed && s.points.length >= 2); // Circle needs 2 pts, polygons need >= 3
+    const closedShapes = shapes.filter(s =>
+      s.closed && (s.type === 'circle' ? s.points.length >= 2 : s.points.length >= 3)
+    );
 
-    if (!shapeToExtrude) {
-      console.warn('No valid, closed shape with at least 2 points found for extrusion.');
+    if (closedShapes.length === 0) {
+      console.warn('No valid, closed shape found for extrusion.');
       return new THREE.BoxGeometry(1, 1, 1);
     }
-    
-    console.log(`Processing shape: ${shapeToExtrude.type} with ${shapeToExtrude.points.length} points`);
 
-    const threeShape = new THREE.Shape();
-    let transformMatrix: THREE.Matrix4;
-
-    // --- NEW LOGIC: Handle shapes based on their type ---
-    if (shapeToExtrude.type === 'circle' && shapeToExtrude.points.length >= 2) {
-      // For a circle, points[0] is center, points[1] is on the edge.
-      const points3D = shapeToExtrude.points.map(p => p.position);
-      const projection = this.projectPointsTo2DPlane(points3D);
-      transformMatrix = projection.transformMatrix;
-      const points2D = projection.points2D;
-
-      const center2D = points2D[0];
-      const edge2D = points2D[1];
-      const radius = center2D.distanceTo(edge2D);
+    // All loops are projected onto one plane so that their nesting can be compared
+    const transformMatrix = this.getSketchPlane(closedShapes);
+    const inverseMatrix = transformMatrix.clone().invert();
+    const to2D = (point: THREE.Vector3) => {
+      const local = point.clone().applyMatrix4(inverseMatrix);
+      return new THREE.Vector2(local.x, local.y);
+    };
 
-      console.log(`Creating circle for extrusion with 2D center at (${center2D.x}, ${center2D.y}) and radius ${radius}`);
-      
-      // Use absarc to create a true circle path for the shape.
-      threeShape.absarc(center2D.x, center2D.y, radius, 0, Math.PI * 2, false);
+    const loops = closedShapes
+      .map(shape => this.createLoop(shape, to2D))
+      .filter((loop): loop is SketchLoop => loop !== null);
 
-    } else if (shapeToExtrude.type === 'rectangle' || shapeToExtrude.type === 'polygon') {
-      if (shapeToExtrude.points.length < 3) {
-        console.warn('Polygon-based shapes must have at least 3 points.');
-        return new THREE.BoxGeometry(1, 1, 1);
-      }
-      // This is the default behavior for any shape defined by a list of vertices.
-      const points3D = shapeToExtrude.points.map(p => p.position);
-      const projection = this.projectPointsTo2DPlane(points3D);
-      transformMatrix = projection.transformMatrix;
-      const points2D = projection.points2D;
-
-      if (points2D.length === 0) {
-        console.warn('Projection to 2D failed for polygon-based shape, cannot extrude.');
-        return new THREE.BoxGeometry(1, 1, 1);
-      }
-      
-      console.log('Creating polygon-based shape for extrusion from points.');
-      threeShape.setFromPoints(points2D);
-    } else {
-        console.warn(`Unsupported shape type for extrusion: "${shapeToExtrude.type}"`);
-        return new THREE.BoxGeometry(1, 1, 1);
+    if (loops.length === 0) {
+      console.warn('Projection to 2D failed for all shapes, cannot extrude.');
+      return new THREE.BoxGeometry(1, 1, 1);
     }
 
-    threeShape.closePath(); // Ensure the shape is closed for extrusion.
+    const threeShapes = this.buildShapesWithHoles(loops);
 
     // Define the extrusion settings for Three.js.
     const extrudeSettings: THREE.ExtrudeGeometryOptions = {
@@ -94,7 +80,7 @@ export class ExtrusionEngine {
 
     try {
       // Create the geometry. It will be created "flat" on the world's XY plane.
-      const geometry = new THREE.ExtrudeGeometry(threeShape, extrudeSettings);
+      const geometry = new THREE.ExtrudeGeometry(threeShapes, extrudeSettings);
       
       // Re-orient the extruded geometry back into the original 3D orientation.
       geometry.applyMatrix4(transformMatrix);
@@ -111,43 +97,138 @@ export class ExtrusionEngine {
   }
 
   /**
-   * Projects an array of 3D points onto a 2D plane that best fits them.
-   * @param points3D The array of 3D points to project.
-   * @returns An object containing the projected 2D points and the matrix used for the transformation.
+   * Converts a closed sketch shape into a 2D loop on the sketch plane.
+   * Circles keep their exact centre and radius so they can be drawn with arcs.
    */
-  private static projectPointsTo2DPlane(points3D: THREE.Vector3[]): { points2D: THREE.Vector2[], transformMatrix: THREE.Matrix4 } {
-    if (points3D.length < 2) { // Changed to 2, as we can project a line
-        console.warn("Cannot define a plane with fewer than 2 points.");
-        return { points2D: [], transformMatrix: new THREE.Matrix4() };
+  private static createLoop(shape: SketchShape3D, to2D: (p: THREE.Vector3) => THREE.Vector2): SketchLoop | null {
+    if (shape.type === 'circle') {
+      const center = to2D(shape.points[0].position);
+      const radius = shape.points[0].position.distanceTo(shape.points[1].position);
+      if (radius < 1e-9) return null;
+
+      const outline: THREE.Vector2[] = [];
+      for (let i = 0; i < CIRCLE_TEST_SEGMENTS; i++) {
+        const angle = (i / CIRCLE_TEST_SEGMENTS) * Math.PI * 2;
+        outline.push(new THREE.Vector2(center.x + Math.cos(angle) * radius, center.y + Math.sin(angle) * radius));
+      }
+      return { outline, area: Math.PI * radius * radius, circle: { center, radius } };
     }
 
-    const p0 = points3D[0];
-    const u = points3D[1].clone().sub(p0).normalize();
-    let n: THREE.Vector3;
-
-    if (points3D.length < 3) {
-        // For a line (2 points), we must guess the plane's normal.
-        // This is not robust but provides a fallback.
-        n = new THREE.Vector3(0, 0, 1); // Assume normal is Z axis
-        if (Math.abs(u.dot(n)) > 0.99) n.set(0, 1, 0); // If line is aligned with Z, use Y.
-    } else {
-        // For 3+ points, we can calculate the normal from the first triangle.
-        const tempVec = points3D[2].clone().sub(p0);
-        n = u.clone().cross(tempVec).normalize();
+    const outline = shape.points.map(p => to2D(p.position));
+    // Drop a repeated closing point, THREE.Shape closes the path itself
+    if (outline.length > 3 && outline[0].distanceTo(outline[outline.length - 1]) < 1e-9) {
+      outline.pop();
     }
-    
-    const v = n.clone().cross(u).normalize();
-    
-    const transformMatrix = new THREE.Matrix4().makeBasis(u, v, n).setPosition(p0);
-    const inverseMatrix = transformMatrix.clone().invert();
 
-    const points2D = points3D.map(point => {
-        const projectedPoint = point.clone().applyMatrix4(inverseMatrix);
-        return new THREE.Vector2(projectedPoint.x, projectedPoint.y);
+    const area = Math.abs(THREE.ShapeUtils.area(outline));
+    if (area < 1e-12) {
+      console.warn(`Skipping degenerate loop ${shape.id}`);
+      return null;
+    }
+    return { outline, area };
+  }
+
+  /**
+   * Turns loops into THREE.Shapes: even nesting depth = outer boundary, odd = hole
+   * of the smallest loop that contains it.
+   */
+  private static buildShapesWithHoles(loops: SketchLoop[]): THREE.Shape[] {
+    const containers = loops.map(loop =>
+      loops.filter(other => other !== loop && other.area > loop.area && this.loopContains(other, loop))
+    );
+
+    const depth = containers.map(list => list.length);
+    const shapes = new Map<SketchLoop, THREE.Shape>();
+
+    loops.forEach((loop, i) => {
+      if (depth[i] % 2 === 0) {
+        const shape = new THREE.Shape();
+        this.tracePath(shape, loop, false);
+        shapes.set(loop, shape);
+      }
+    });
+
+    loops.forEach((loop, i) => {
+      if (depth[i] % 2 === 1) {
+        // The direct parent is the smallest container
+        const parent = containers[i].reduce((best, candidate) => (candidate.area < best.area ? candidate : best));
+        const hole = new THREE.Path();
+        this.tracePath(hole, loop, true);
+        shapes.get(parent)?.holes.push(hole);
+      }
+    });
+
+    return Array.from(shapes.values());
+  }
+
+  // Outer loops run counter-clockwise and holes clockwise, as THREE.Shape expects
+  private static tracePath(path: THREE.Path, loop: SketchLoop, clockwise: boolean): void {
+    if (loop.circle) {
+      path.absarc(loop.circle.center.x, loop.circle.center.y, loop.circle.radius, 0, Math.PI * 2, clockwise);
+      return;
+    }
+
+    let points = loop.outline;
+    if (THREE.ShapeUtils.isClockWise(points) !== clockwise) {
+      points = [...points].reverse();
+    }
+    path.setFromPoints(points);
+    path.closePath();
+  }
+
+  private static loopContains(outer: SketchLoop, inner: SketchLoop): boolean {
+    // Loops do not cross in a valid sketch, so a single vertex decides containment
+    return this.pointInPolygon(inner.outline[0], outer.outline);
+  }
+
+  private static pointInPolygon(point: THREE.Vector2, polygon: THREE.Vector2[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  /**
+   * Finds the plane the sketch lies on and returns a matrix mapping its 2D coordinates
+   * (XY, extrusion along +Z) into world space.
+   * The normal comes from the polygon loops (Newell's method), then from the shapes'
+   * workplane or normal, and defaults to the horizontal workplane used by SketchEngine3D.
+   */
+  private static getSketchPlane(shapes: SketchShape3D[]): THREE.Matrix4 {
+    const normal = new THREE.Vector3();
+    shapes.filter(s => s.type !== 'circle').forEach(shape => {
+      const points = shape.points.map(p => p.position);
+      for (let i = 0; i < points.length; i++) {
+        const current = points[i];
+        const next = points[(i + 1) % points.length];
+        normal.x += (current.y - next.y) * (current.z + next.z);
+        normal.y += (current.z - next.z) * (current.x + next.x);
+        normal.z += (current.x - next.x) * (current.y + next.y);
+      }
     });
 
-    // console.log('Successfully projected 3D points to 2D:', points2D);
-    return { points2D, transformMatrix };
+    if (normal.lengthSq() < 1e-12) {
+      const withPlane = shapes.find(s => s.workplane || s.normal);
+      normal.copy(withPlane?.workplane?.normal ?? withPlane?.normal ?? new THREE.Vector3(0, 1, 0));
+    }
+    normal.normalize();
+
+    // Extrude towards the positive side of the dominant axis regardless of drawing direction
+    const components = [normal.x, normal.y, normal.z];
+    const dominant = components.reduce((best, value, i) => (Math.abs(value) > Math.abs(components[best]) ? i : best), 0);
+    if (components[dominant] < 0) normal.negate();
+
+    const axes = [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)];
+    const reference = axes.reduce((best, axis) => (Math.abs(axis.dot(normal)) < Math.abs(best.dot(normal)) ? axis : best));
+    const u = reference.clone().sub(normal.clone().multiplyScalar(reference.dot(normal))).normalize();
+    const v = new THREE.Vector3().crossVectors(normal, u).normalize();
+
+    return new THREE.Matrix4().makeBasis(u, v, normal).setPosition(shapes[0].points[0].position);
   }
 
   /**
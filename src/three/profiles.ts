@@ -0,0 +1,207 @@
+import * as THREE from 'three';
+import { SketchShape3D } from '../utils/sketch3d';
+
+// Helpers shared by the engines that build solids from sketch cross-sections (sweep, loft)
+
+export const CURVE_SEGMENTS = 48;
+const EPSILON = 1e-9;
+
+/**
+ * Returns a shape as a closed loop of world points without a repeated closing point.
+ * Circles are sampled on their workplane (the horizontal sketch plane by default).
+ */
+export function shapeOutline(shape: SketchShape3D, segments: number = CURVE_SEGMENTS): THREE.Vector3[] {
+  if (shape.type === 'circle') {
+    const center = shape.points[0].position;
+    const edge = shape.points[1].position;
+    const normal = (shape.workplane?.normal ?? shape.normal ?? new THREE.Vector3(0, 1, 0)).clone().normalize();
+    const u = edge.clone().sub(center);
+    u.sub(normal.clone().multiplyScalar(u.dot(normal)));
+    const radius = u.length();
+    u.normalize();
+    const v = new THREE.Vector3().crossVectors(normal, u);
+
+    const points: THREE.Vector3[] = [];
+    for (let i = 0; i < segments; i++) {
+      const angle = (i / segments) * Math.PI * 2;
+      points.push(center.clone()
+        .addScaledVector(u, Math.cos(angle) * radius)
+        .addScaledVector(v, Math.sin(angle) * radius));
+    }
+    return points;
+  }
+
+  const points = shape.type === 'spline' && shape.points.length > 2
+    ? new THREE.CatmullRomCurve3(shape.points.map(p => p.position), true).getPoints(segments).slice(0, -1)
+    : shape.points.map(p => p.position.clone());
+  return dropDuplicates(points, true);
+}
+
+/**
+ * Returns a path shape as an open polyline. Splines are smoothed through their points;
+ * every other shape is followed point by point from the first to the last.
+ */
+export function shapePath(shape: SketchShape3D, segments: number = CURVE_SEGMENTS): THREE.Vector3[] {
+  const points = shape.type === 'spline' && shape.points.length > 2
+    ? new THREE.CatmullRomCurve3(shape.points.map(p => p.position)).getPoints(segments)
+    : shape.points.map(p => p.position.clone());
+  return dropDuplicates(points, false);
+}
+
+/**
+ * Normal of a closed loop by Newell's method; its direction follows the winding.
+ */
+export function loopNormal(points: THREE.Vector3[]): THREE.Vector3 {
+  const normal = new THREE.Vector3();
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+    normal.x += (current.y - next.y) * (current.z + next.z);
+    normal.y += (current.z - next.z) * (current.x + next.x);
+    normal.z += (current.x - next.x) * (current.y + next.y);
+  }
+  return normal.lengthSq() > EPSILON ? normal.normalize() : normal;
+}
+
+export function loopCentroid(points: THREE.Vector3[]): THREE.Vector3 {
+  const centroid = new THREE.Vector3();
+  points.forEach(p => centroid.add(p));
+  return centroid.divideScalar(Math.max(points.length, 1));
+}
+
+/**
+ * Two unit vectors spanning the plane with the given normal, with u × v = normal.
+ */
+export function planeBasis(normal: THREE.Vector3): { u: THREE.Vector3; v: THREE.Vector3 } {
+  const axes = [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)];
+  const reference = axes.reduce((best, axis) => (Math.abs(axis.dot(normal)) < Math.abs(best.dot(normal)) ? axis : best));
+  const u = reference.clone().sub(normal.clone().multiplyScalar(reference.dot(normal))).normalize();
+  const v = new THREE.Vector3().crossVectors(normal, u).normalize();
+  return { u, v };
+}
+
+/**
+ * Resamples a closed loop to exactly `count` points. Original vertices are kept, so
+ * rectangle corners stay sharp, and the extra points are spread by edge length.
+ */
+export function resampleLoop(points: THREE.Vector3[], count: number): THREE.Vector3[] {
+  if (points.length === count) return points.map(p => p.clone());
+  if (points.length > count) {
+    throw new Error(`Cannot resample a loop of ${points.length} points down to ${count}`);
+  }
+
+  const lengths = points.map((p, i) => p.distanceTo(points[(i + 1) % points.length]));
+  const perimeter = lengths.reduce((sum, length) => sum + length, 0);
+
+  // Every edge keeps at least its start vertex; the rest go to the longest remainders
+  const exact = lengths.map(length => (perimeter > 0 ? (length / perimeter) * count : count / points.length));
+  const allocation = exact.map(value => Math.max(1, Math.floor(value)));
+  let remaining = count - allocation.reduce((sum, n) => sum + n, 0);
+  const order = exact.map((value, i) => ({ i, rest: value - Math.floor(value) })).sort((a, b) => b.rest - a.rest);
+  for (let k = 0; remaining > 0; k = (k + 1) % order.length, remaining--) {
+    allocation[order[k].i]++;
+  }
+  for (let k = order.length - 1; remaining < 0; k = (k - 1 + order.length) % order.length) {
+    if (allocation[order[k].i] > 1) {
+      allocation[order[k].i]--;
+      remaining++;
+    }
+  }
+
+  const result: THREE.Vector3[] = [];
+  points.forEach((start, i) => {
+    const end = points[(i + 1) % points.length];
+    for (let k = 0; k < allocation[i]; k++) {
+      result.push(start.clone().lerp(end, k / allocation[i]));
+    }
+  });
+  return result;
+}
+
+/**
+ * Skins a sequence of cross-section rings into a solid.
+ * Rings must have the same point count, matching point order, and be wound
+ * counter-clockwise around the direction of travel.
+ * @param rings The cross-sections in order along the solid.
+ * @param capped Whether to close the first and last ring with flat faces.
+ * @param smooth Share vertices around each ring (round profiles) instead of keeping profile edges sharp.
+ * @returns An indexed BufferGeometry with vertex normals.
+ */
+export function buildSectionSolid(rings: THREE.Vector3[][], capped: boolean, smooth: boolean): THREE.BufferGeometry {
+  const count = rings[0].length;
+  const positions: number[] = [];
+  const indices: number[] = [];
+
+  // Each profile edge uses columns (a, b); smooth rings share columns between neighbouring edges
+  const columns = smooth ? count : count * 2;
+  const columnPoint = (column: number) => (smooth ? column : Math.ceil(column / 2) % count);
+  const edgeColumns = (j: number): [number, number] => (smooth ? [j, (j + 1) % count] : [j * 2, j * 2 + 1]);
+
+  rings.forEach(ring => {
+    for (let column = 0; column < columns; column++) {
+      const point = ring[columnPoint(column)];
+      positions.push(point.x, point.y, point.z);
+    }
+  });
+
+  for (let k = 0; k + 1 < rings.length; k++) {
+    for (let j = 0; j < count; j++) {
+      const [ca, cb] = edgeColumns(j);
+      const a = k * columns + ca;
+      const b = k * columns + cb;
+      const c = (k + 1) * columns + cb;
+      const d = (k + 1) * columns + ca;
+      indices.push(a, b, c, a, c, d);
+    }
+  }
+
+  if (capped) {
+    const travel = loopCentroid(rings[rings.length - 1]).sub(loopCentroid(rings[0]));
+    [0, rings.length - 1].forEach((k, end) => {
+      const ring = rings[k];
+      // The start cap faces backwards along the solid, the end cap forwards
+      const facing = loopNormal(ring);
+      if (facing.lengthSq() === 0) facing.copy(travel).normalize();
+      if (end === 0) facing.negate();
+
+      const capStart = positions.length / 3;
+      ring.forEach(p => positions.push(p.x, p.y, p.z));
+      triangulateLoop(ring, facing).forEach(index => indices.push(capStart + index));
+    });
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+/**
+ * Triangulates a planar loop so that every triangle faces along `facing`.
+ */
+export function triangulateLoop(points: THREE.Vector3[], facing: THREE.Vector3): number[] {
+  const { u, v } = planeBasis(facing);
+  const contour = points.map(p => new THREE.Vector2(p.dot(u), p.dot(v)));
+  const indices: number[] = [];
+  const edge1 = new THREE.Vector3();
+  const edge2 = new THREE.Vector3();
+
+  THREE.ShapeUtils.triangulateShape(contour, []).forEach(([a, b, c]) => {
+    edge1.subVectors(points[b], points[a]);
+    edge2.subVectors(points[c], points[a]);
+    if (edge1.cross(edge2).dot(facing) >= 0) indices.push(a, b, c);
+    else indices.push(a, c, b);
+  });
+  return indices;
+}
+
+function dropDuplicates(points: THREE.Vector3[], closed: boolean): THREE.Vector3[] {
+  const result = points.filter((p, i) => i === 0 || p.distanceToSquared(points[i - 1]) > EPSILON);
+  if (closed && result.length > 2 && result[0].distanceToSquared(result[result.length - 1]) <= EPSILON) {
+    result.pop();
+  }
+  return result;
+}
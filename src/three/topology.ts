@@ -0,0 +1,270 @@
+import * as THREE from 'three';
+
+// Helpers shared by the engines and tools that work on the faces of an existing mesh (shell, push/pull)
+
+// Vertices closer than this are treated as the same vertex
+const WELD_TOLERANCE = 1e-4;
+// Neighbouring triangles whose normals differ by less than this belong to the same flat face
+const PLANAR_ANGLE = THREE.MathUtils.degToRad(0.5);
+
+/**
+ * A geometry with coincident vertices merged. Triangle `i` is triangle `i` of the
+ * source geometry; triangles that collapse when welding are kept as `null` so the
+ * numbering stays the same.
+ */
+export interface WeldedMesh {
+  vertices: THREE.Vector3[];
+  // Welded vertex of every entry of the source position attribute
+  vertexIds: number[];
+  triangles: Array<[number, number, number] | null>;
+  normals: THREE.Vector3[];
+}
+
+export function weldMesh(geometry: THREE.BufferGeometry): WeldedMesh {
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex();
+  const vertices: THREE.Vector3[] = [];
+  const vertexIds: number[] = [];
+  const lookup = new Map<string, number>();
+
+  const weld = (i: number) => {
+    const p = new THREE.Vector3().fromBufferAttribute(position, i);
+    const key = `${Math.round(p.x / WELD_TOLERANCE)},${Math.round(p.y / WELD_TOLERANCE)},${Math.round(p.z / WELD_TOLERANCE)}`;
+    let id = lookup.get(key);
+    if (id === undefined) {
+      id = vertices.length;
+      lookup.set(key, id);
+      vertices.push(p);
+    }
+    vertexIds[i] = id;
+    return id;
+  };
+
+  const triangles: WeldedMesh['triangles'] = [];
+  const normals: THREE.Vector3[] = [];
+  const count = index ? index.count : position.count;
+  for (let i = 0; i + 2 < count; i += 3) {
+    const [a, b, c] = [0, 1, 2].map(k => weld(index ? index.getX(i + k) : i + k));
+    const normal = new THREE.Vector3()
+      .subVectors(vertices[b], vertices[a])
+      .cross(new THREE.Vector3().subVectors(vertices[c], vertices[a]));
+
+    if (a === b || b === c || c === a || normal.lengthSq() < 1e-18) {
+      triangles.push(null);
+      normals.push(new THREE.Vector3());
+    } else {
+      triangles.push([a, b, c]);
+      normals.push(normal.normalize());
+    }
+  }
+
+  return { vertices, vertexIds, triangles, normals };
+}
+
+/**
+ * Maps every directed edge "a|b" of the mesh to the triangle that uses it. On a
+ * closed, consistently wound mesh each edge's twin "b|a" belongs to the neighbour.
+ */
+export function directedEdges(mesh: WeldedMesh): Map<string, number> {
+  const edges = new Map<string, number>();
+  mesh.triangles.forEach((tri, t) => {
+    if (!tri) return;
+    for (let k = 0; k < 3; k++) {
+      edges.set(`${tri[k]}|${tri[(k + 1) % 3]}`, t);
+    }
+  });
+  return edges;
+}
+
+/**
+ * True when every edge of the mesh is shared by exactly two consistently wound triangles.
+ */
+export function isClosed(mesh: WeldedMesh, edges: Map<string, number> = directedEdges(mesh)): boolean {
+  const valid = mesh.triangles.filter(tri => tri !== null).length;
+  return edges.size === valid * 3 &&
+    Array.from(edges.keys()).every(key => edges.has(key.split('|').reverse().join('|')));
+}
+
+/**
+ * Collects the flat face a triangle belongs to: every triangle reachable across
+ * shared edges that lies in the same plane.
+ * @param mesh The welded mesh.
+ * @param seed Index of the picked triangle.
+ * @param edges Directed edge map of the mesh, if already built.
+ * @returns Triangle indices of the face, including the seed.
+ */
+export function planarRegion(mesh: WeldedMesh, seed: number, edges: Map<string, number> = directedEdges(mesh)): number[] {
+  const start = mesh.triangles[seed];
+  if (!start) return [];
+
+  const normal = mesh.normals[seed];
+  const offset = normal.dot(mesh.vertices[start[0]]);
+  const cosLimit = Math.cos(PLANAR_ANGLE);
+  const region = new Set<number>([seed]);
+  const queue = [seed];
+
+  while (queue.length > 0) {
+    const tri = mesh.triangles[queue.pop()!]!;
+    for (let k = 0; k < 3; k++) {
+      const neighbour = edges.get(`${tri[(k + 1) % 3]}|${tri[k]}`);
+      if (neighbour === undefined || region.has(neighbour)) continue;
+
+      const other = mesh.triangles[neighbour]!;
+      const inPlane = mesh.normals[neighbour].dot(normal) > cosLimit &&
+        other.every(v => Math.abs(normal.dot(mesh.vertices[v]) - offset) < WELD_TOLERANCE * 10);
+      if (inPlane) {
+        region.add(neighbour);
+        queue.push(neighbour);
+      }
+    }
+  }
+
+  return Array.from(region);
+}
+
+/**
+ * Volume enclosed by a closed mesh; negative when the mesh is wound inside out.
+ */
+export function signedVolume(mesh: WeldedMesh): number {
+  const cross = new THREE.Vector3();
+  let volume = 0;
+  for (const tri of mesh.triangles) {
+    if (!tri) continue;
+    cross.crossVectors(mesh.vertices[tri[1]], mesh.vertices[tri[2]]);
+    volume += mesh.vertices[tri[0]].dot(cross) / 6;
+  }
+  return volume;
+}
+
+// Offset directions are capped at this multiple of the offset distance (very sharp corners)
+const MAX_MITER = 4;
+// Face normals closer than this (as 1 - dot) count once when offsetting a vertex
+const NORMAL_MERGE = 1e-6;
+
+/**
+ * Finds the vertex displacement that moves every adjacent face plane by one unit
+ * along its normal (least squares over the distinct normals). Corners between flat
+ * faces stay sharp (mitred) and each face keeps exactly the offset distance.
+ * @param normals Unit normals of the faces around the vertex.
+ * @returns The displacement for an offset of 1, capped for very sharp corners.
+ */
+export function offsetDirection(normals: THREE.Vector3[]): THREE.Vector3 {
+  const distinct: THREE.Vector3[] = [];
+  for (const n of normals) {
+    if (!distinct.some(other => 1 - other.dot(n) < NORMAL_MERGE)) distinct.push(n);
+  }
+  if (distinct.length === 0) return new THREE.Vector3();
+
+  // Normal equations (sum n nᵀ) d = sum n, slightly regularised so directions
+  // no face constrains (e.g. along a straight edge) get no offset
+  const e = new Array(9).fill(0);
+  const rhs = new THREE.Vector3();
+  for (const n of distinct) {
+    const c = [n.x, n.y, n.z];
+    for (let r = 0; r < 3; r++) {
+      for (let s = 0; s < 3; s++) e[r * 3 + s] += c[r] * c[s];
+    }
+    rhs.add(n);
+  }
+  e[0] += 1e-9;
+  e[4] += 1e-9;
+  e[8] += 1e-9;
+
+  const system = new THREE.Matrix3().set(e[0], e[1], e[2], e[3], e[4], e[5], e[6], e[7], e[8]);
+  const offset = rhs.applyMatrix3(system.invert());
+  return offset.length() > MAX_MITER ? offset.setLength(MAX_MITER) : offset;
+}
+
+/**
+ * Tests whether any two triangles of a mesh cross each other. Triangles sharing a
+ * vertex are not compared, so touching neighbours do not count. Triangles are
+ * bucketed in a uniform grid to keep large meshes tractable.
+ * @returns True if an edge of one triangle passes through another triangle.
+ */
+export function selfIntersects(mesh: WeldedMesh): boolean {
+  const tris = mesh.triangles
+    .map((tri, t) => (tri ? t : -1))
+    .filter(t => t >= 0);
+  if (tris.length < 2) return false;
+
+  const boxes = new Map<number, THREE.Box3>();
+  const bounds = new THREE.Box3();
+  let extent = 0;
+  for (const t of tris) {
+    const box = new THREE.Box3().setFromPoints(mesh.triangles[t]!.map(v => mesh.vertices[v]));
+    boxes.set(t, box);
+    bounds.union(box);
+    const size = box.getSize(new THREE.Vector3());
+    extent += Math.max(size.x, size.y, size.z);
+  }
+
+  // Cells about twice the average triangle, but never more than ~200 per side
+  const diagonal = bounds.getSize(new THREE.Vector3()).length();
+  const cell = Math.max((extent / tris.length) * 2, diagonal / 200, 1e-9);
+  const cells = new Map<string, number[]>();
+  for (const t of tris) {
+    const box = boxes.get(t)!;
+    const lo = box.min.clone().sub(bounds.min).divideScalar(cell).floor();
+    const hi = box.max.clone().sub(bounds.min).divideScalar(cell).floor();
+    for (let x = lo.x; x <= hi.x; x++) {
+      for (let y = lo.y; y <= hi.y; y++) {
+        for (let z = lo.z; z <= hi.z; z++) {
+          const key = `${x},${y},${z}`;
+          const list = cells.get(key);
+          if (list) list.push(t);
+          else cells.set(key, [t]);
+        }
+      }
+    }
+  }
+
+  const tested = new Set<number>();
+  const count = mesh.triangles.length;
+  for (const list of cells.values()) {
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const [a, b] = list[i] < list[j] ? [list[i], list[j]] : [list[j], list[i]];
+        const pair = a * count + b;
+        if (tested.has(pair)) continue;
+        tested.add(pair);
+
+        const triA = mesh.triangles[a]!;
+        const triB = mesh.triangles[b]!;
+        if (triA.some(v => triB.includes(v))) continue;
+        if (!boxes.get(a)!.intersectsBox(boxes.get(b)!)) continue;
+        if (trianglesCross(mesh, triA, triB)) return true;
+      }
+    }
+  }
+  return false;
+}
+
+function trianglesCross(mesh: WeldedMesh, a: [number, number, number], b: [number, number, number]): boolean {
+  const pa = a.map(v => mesh.vertices[v]);
+  const pb = b.map(v => mesh.vertices[v]);
+  for (let k = 0; k < 3; k++) {
+    if (segmentHitsTriangle(pa[k], pa[(k + 1) % 3], pb)) return true;
+    if (segmentHitsTriangle(pb[k], pb[(k + 1) % 3], pa)) return true;
+  }
+  return false;
+}
+
+// Möller–Trumbore, counting only hits strictly inside both the segment and the triangle
+function segmentHitsTriangle(start: THREE.Vector3, end: THREE.Vector3, tri: THREE.Vector3[]): boolean {
+  const EPS = 1e-9;
+  const direction = new THREE.Vector3().subVectors(end, start);
+  const e1 = new THREE.Vector3().subVectors(tri[1], tri[0]);
+  const e2 = new THREE.Vector3().subVectors(tri[2], tri[0]);
+  const p = new THREE.Vector3().crossVectors(direction, e2);
+  const det = e1.dot(p);
+  if (Math.abs(det) < EPS * direction.length() * e1.length() * e2.length()) return false;
+
+  const s = new THREE.Vector3().subVectors(start, tri[0]);
+  const u = s.dot(p) / det;
+  if (u <= EPS || u >= 1 - EPS) return false;
+  const q = new THREE.Vector3().crossVectors(s, e1);
+  const v = direction.dot(q) / det;
+  if (v <= EPS || u + v >= 1 - EPS) return false;
+  const t = e2.dot(q) / det;
+  return t > EPS && t < 1 - EPS;
+}
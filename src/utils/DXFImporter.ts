@@ -0,0 +1,282 @@
+import * as THREE from 'three';
+import { SketchShape3D } from './sketch3d';
+import { DrawingPath, SketchPlane, chainPaths, pathsToSketch } from './importedSketch';
+
+// Millimetres per drawing unit, by the $INSUNITS header code; unitless drawings are read as millimetres
+const INSUNITS: Record<number, number> = {
+  0: 1,
+  1: 25.4,
+  2: 304.8,
+  4: 1,
+  5: 10,
+  6: 1000,
+  8: 0.0000254,
+  9: 0.0254,
+  10: 914.4,
+  13: 0.001,
+  14: 100
+};
+
+// Segments used to sample a full turn of an arc or ellipse
+const ARC_SEGMENTS = 64;
+// Segments per knot span when sampling splines
+const SPLINE_SEGMENTS = 16;
+// Relative gap (of the drawing size) below which entity ends are joined
+const CHAIN_TOLERANCE = 1e-5;
+
+type GroupCode = [number, string];
+
+export interface DXFImportResult {
+  shapes: SketchShape3D[];
+  layers: string[];
+  // Counts of entity types that were skipped, e.g. TEXT or INSERT
+  skipped: Record<string, number>;
+}
+
+export class DXFImporter {
+  /**
+   * Converts the LINE, LWPOLYLINE, CIRCLE, ARC, SPLINE and ELLIPSE entities of an ASCII
+   * DXF drawing into sketch shapes on a workplane. Curves are sampled, entities whose
+   * ends meet are joined into closed profiles, and each shape's group is its layer.
+   * @param text The DXF file contents.
+   * @param plane The workplane the drawing's XY plane is placed on.
+   * @returns The shapes, the layers that contributed shapes and the skipped entities.
+   */
+  static import(text: string, plane: SketchPlane): DXFImportResult {
+    const codes = this.readGroupCodes(text);
+    const scale = INSUNITS[this.headerUnits(codes)] ?? 1;
+
+    const paths: DrawingPath[] = [];
+    const skipped: Record<string, number> = {};
+    this.entities(codes).forEach(entity => {
+      const path = this.toPath(entity);
+      if (path) {
+        paths.push(path);
+      } else {
+        const type = entity[0][1];
+        skipped[type] = (skipped[type] || 0) + 1;
+      }
+    });
+
+    if (paths.length === 0) {
+      throw new Error('The drawing contains no supported entities');
+    }
+
+    paths.forEach(path => {
+      path.points.forEach(p => p.multiplyScalar(scale));
+      if (path.circle) {
+        path.circle.center.multiplyScalar(scale);
+        path.circle.radius *= scale;
+      }
+    });
+
+    const bounds = new THREE.Box2().setFromPoints(paths.flatMap(path => path.points));
+    const size = bounds.getSize(new THREE.Vector2()).length();
+    const chained = chainPaths(paths, Math.max(size * CHAIN_TOLERANCE, 1e-9));
+
+    if (Object.keys(skipped).length > 0) {
+      console.warn('DXF entities skipped:', skipped);
+    }
+    return {
+      shapes: pathsToSketch(chained, plane, 'dxf'),
+      layers: Array.from(new Set(chained.map(path => path.group || '0'))),
+      skipped
+    };
+  }
+
+  private static readGroupCodes(text: string): GroupCode[] {
+    const lines = text.split(/\r?\n/);
+    const codes: GroupCode[] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+      const code = parseInt(lines[i].trim(), 10);
+      if (Number.isNaN(code)) {
+        throw new Error(`Invalid DXF group code "${lines[i].trim()}" on line ${i + 1}; binary DXF is not supported`);
+      }
+      codes.push([code, lines[i + 1].trim()]);
+    }
+    return codes;
+  }
+
+  private static headerUnits(codes: GroupCode[]): number {
+    const index = codes.findIndex(([code, value]) => code === 9 && value === '$INSUNITS');
+    return index >= 0 && codes[index + 1]?.[0] === 70 ? parseInt(codes[index + 1][1], 10) : 0;
+  }
+
+  // Entities of the ENTITIES section, each a list of group codes starting with its type
+  private static entities(codes: GroupCode[]): GroupCode[][] {
+    const start = codes.findIndex(([code, value], i) => code === 2 && value === 'ENTITIES' && codes[i - 1]?.[1] === 'SECTION');
+    if (start < 0) {
+      throw new Error('The drawing has no ENTITIES section');
+    }
+
+    const entities: GroupCode[][] = [];
+    for (let i = start + 1; i < codes.length; i++) {
+      const [code, value] = codes[i];
+      if (code !== 0) {
+        entities[entities.length - 1]?.push(codes[i]);
+      } else if (value === 'ENDSEC') {
+        break;
+      } else {
+        entities.push([codes[i]]);
+      }
+    }
+    return entities;
+  }
+
+  private static toPath(entity: GroupCode[]): DrawingPath | null {
+    const number = (code: number, fallback = 0) => {
+      const entry = entity.find(([c]) => c === code);
+      return entry ? parseFloat(entry[1]) : fallback;
+    };
+    const numbers = (code: number) => entity.filter(([c]) => c === code).map(([, value]) => parseFloat(value));
+    const group = entity.find(([c]) => c === 8)?.[1] || '0';
+    // Circles, arcs and polylines are in object coordinates; a -Z extrusion mirrors them in X
+    const mirror = number(230, 1) < 0;
+    const ocs = (x: number, y: number) => new THREE.Vector2(mirror ? -x : x, y);
+
+    switch (entity[0][1]) {
+      case 'LINE':
+        return {
+          points: [new THREE.Vector2(number(10), number(20)), new THREE.Vector2(number(11), number(21))],
+          closed: false,
+          group
+        };
+
+      case 'CIRCLE': {
+        const center = ocs(number(10), number(20));
+        const radius = number(40);
+        return { points: this.sampleArc(center, radius, 0, Math.PI * 2).slice(0, -1), closed: true, circle: { center, radius }, group };
+      }
+
+      case 'ARC': {
+        const start = THREE.MathUtils.degToRad(number(50));
+        let end = THREE.MathUtils.degToRad(number(51));
+        while (end <= start) end += Math.PI * 2;
+        const points = this.sampleArc(new THREE.Vector2(number(10), number(20)), number(40), start, end);
+        return { points: points.map(p => ocs(p.x, p.y)), closed: false, group };
+      }
+
+      case 'LWPOLYLINE': {
+        const vertices: Array<{ point: THREE.Vector2; bulge: number }> = [];
+        entity.forEach(([code, value]) => {
+          if (code === 10) vertices.push({ point: new THREE.Vector2(parseFloat(value), 0), bulge: 0 });
+          else if (code === 20 && vertices.length > 0) vertices[vertices.length - 1].point.y = parseFloat(value);
+          else if (code === 42 && vertices.length > 0) vertices[vertices.length - 1].bulge = parseFloat(value);
+        });
+        const closed = (number(70) & 1) === 1;
+        const points: THREE.Vector2[] = [];
+        vertices.forEach((vertex, i) => {
+          points.push(vertex.point);
+          const next = vertices[i + 1] ?? (closed ? vertices[0] : null);
+          if (next && Math.abs(vertex.bulge) > 1e-12) {
+            points.push(...this.sampleBulge(vertex.point, next.point, vertex.bulge));
+          }
+        });
+        return { points: points.map(p => ocs(p.x, p.y)), closed: closed && points.length > 2, group };
+      }
+
+      case 'ELLIPSE': {
+        const center = new THREE.Vector2(number(10), number(20));
+        const major = new THREE.Vector2(number(11), number(21));
+        const minor = new THREE.Vector2(-major.y, major.x).multiplyScalar(number(40, 1));
+        const start = number(41);
+        let end = number(42, Math.PI * 2);
+        while (end <= start) end += Math.PI * 2;
+        const full = end - start >= Math.PI * 2 - 1e-9;
+        const segments = Math.max(8, Math.ceil(((end - start) / (Math.PI * 2)) * ARC_SEGMENTS));
+        const points: THREE.Vector2[] = [];
+        for (let i = 0; i <= (full ? segments - 1 : segments); i++) {
+          const t = start + ((end - start) * i) / segments;
+          points.push(center.clone().addScaledVector(major, Math.cos(t)).addScaledVector(minor, Math.sin(t)));
+        }
+        return { points, closed: full, group };
+      }
+
+      case 'SPLINE': {
+        const closed = (number(70) & 1) === 1;
+        const controls = this.pointList(entity, 10, 20);
+        const points = controls.length >= 2
+          ? this.sampleNURBS(controls, numbers(40), numbers(41), number(71, 3))
+          : this.pointList(entity, 11, 21);
+        if (points.length < 2) return null;
+        if (closed && points[0].distanceTo(points[points.length - 1]) < 1e-9) points.pop();
+        return { points, closed: closed && points.length > 2, group };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private static pointList(entity: GroupCode[], xCode: number, yCode: number): THREE.Vector2[] {
+    const points: THREE.Vector2[] = [];
+    entity.forEach(([code, value]) => {
+      if (code === xCode) points.push(new THREE.Vector2(parseFloat(value), 0));
+      else if (code === yCode && points.length > 0) points[points.length - 1].y = parseFloat(value);
+    });
+    return points;
+  }
+
+  private static sampleArc(center: THREE.Vector2, radius: number, start: number, end: number): THREE.Vector2[] {
+    const segments = Math.max(4, Math.ceil((Math.abs(end - start) / (Math.PI * 2)) * ARC_SEGMENTS));
+    const points: THREE.Vector2[] = [];
+    for (let i = 0; i <= segments; i++) {
+      const angle = start + ((end - start) * i) / segments;
+      points.push(new THREE.Vector2(center.x + Math.cos(angle) * radius, center.y + Math.sin(angle) * radius));
+    }
+    return points;
+  }
+
+  // Points strictly between two polyline vertices joined by an arc; bulge = tan(angle / 4), positive counter-clockwise
+  private static sampleBulge(from: THREE.Vector2, to: THREE.Vector2, bulge: number): THREE.Vector2[] {
+    const chord = to.clone().sub(from);
+    const length = chord.length();
+    if (length < 1e-12) return [];
+    const left = new THREE.Vector2(-chord.y, chord.x).divideScalar(length);
+    const center = from.clone().add(to).multiplyScalar(0.5)
+      .addScaledVector(left, (length * (1 - bulge * bulge)) / (4 * bulge));
+    const radius = center.distanceTo(from);
+    const start = Math.atan2(from.y - center.y, from.x - center.x);
+    const sweep = 4 * Math.atan(bulge);
+    return this.sampleArc(center, radius, start, start + sweep).slice(1, -1);
+  }
+
+  // Evaluates a (rational) B-spline with de Boor's algorithm at evenly spaced parameters per knot span
+  private static sampleNURBS(controls: THREE.Vector2[], knots: number[], weights: number[], degree: number): THREE.Vector2[] {
+    const n = controls.length;
+    const p = Math.min(degree, n - 1);
+    if (knots.length !== n + p + 1) {
+      // Clamped uniform knots when the file carries none (or a mismatched vector)
+      knots = Array.from({ length: n + p + 1 }, (_, i) => Math.min(Math.max(i - p, 0), n - p));
+    }
+    const w = weights.length === n ? weights : controls.map(() => 1);
+
+    const evaluate = (t: number, span: number) => {
+      const d = Array.from({ length: p + 1 }, (_, j) => {
+        const c = controls[span - p + j];
+        const wj = w[span - p + j];
+        return new THREE.Vector3(c.x * wj, c.y * wj, wj);
+      });
+      for (let r = 1; r <= p; r++) {
+        for (let j = p; j >= r; j--) {
+          const i = span - p + j;
+          const denominator = knots[i + p - r + 1] - knots[i];
+          const alpha = denominator > 0 ? (t - knots[i]) / denominator : 0;
+          d[j] = d[j - 1].clone().lerp(d[j], alpha);
+        }
+      }
+      return new THREE.Vector2(d[p].x / d[p].z, d[p].y / d[p].z);
+    };
+
+    const points: THREE.Vector2[] = [];
+    for (let span = p; span < n; span++) {
+      const a = knots[span];
+      const b = knots[span + 1];
+      if (b <= a) continue;
+      for (let i = points.length === 0 ? 0 : 1; i <= SPLINE_SEGMENTS; i++) {
+        points.push(evaluate(a + ((b - a) * i) / SPLINE_SEGMENTS, span));
+      }
+    }
+    return points;
+  }
+}
@@ -1,13 +1,83 @@
 import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { readZip } from './zip';
+import { SketchShape3D } from './sketch3d';
+import { SketchPlane } from './importedSketch';
+import { DXFImporter } from './DXFImporter';
+import { SVGImporter } from './SVGImporter';
+import { MeshFormat, parseMeshFile, unpackImportedFile } from './meshParsers';
+import { MeshReport, RepairOptions, repairImportedFile } from './meshRepair';
+import { LengthUnit } from './units';
+import type { ImportJob, ImportWorkerMessage } from './import.worker';
+
+// A node of the file's own hierarchy (glTF node, scene...) that meshes are nested under
+export interface ImportedNode {
+  key: string;
+  name: string;
+}
 
-export interface ImportedFile {
+export interface ImportedMesh {
   name: string;
   geometry: THREE.BufferGeometry;
   material?: THREE.Material;
+  // Material the mesh refers to by name, resolved after parsing (OBJ usemtl)
+  materialName?: string;
+  // Problems found in the mesh when it was checked after parsing
+  report?: MeshReport;
+  // Placement of the mesh in the file; missing when the geometry is already in place
+  matrix?: THREE.Matrix4;
+  // Node key of the mesh itself, so meshes further down can nest under it
+  key?: string;
+  // Nodes above the mesh, outermost first
+  path?: ImportedNode[];
+}
+
+export interface ImportedFile {
+  name: string;
+  meshes: ImportedMesh[];
+  // 2D drawings (DXF, SVG) import as sketch shapes instead of meshes
+  sketch?: SketchShape3D[];
+  // Material libraries the file references (OBJ mtllib)
+  materialLibraries?: string[];
+  // Unit of the coordinates when the format declares one; otherwise picked on import
+  unit?: LengthUnit;
   size: number;
   format: string;
 }
 
+export interface LoadOptions {
+  // Workplane 2D drawings are placed on
+  sketchPlane?: SketchPlane;
+  // Size in millimetres of the larger side of SVG drawings, which carry no physical units
+  drawingSize?: number;
+  // Repairs applied to imported meshes; meshes are only checked when missing
+  repair?: RepairOptions;
+  // Cancels the import; files not finished yet are reported as cancelled
+  signal?: AbortSignal;
+}
+
+// Files that are only read as dependencies of a model (glTF buffers, OBJ materials and textures)
+const RESOURCE_FORMATS = ['bin', 'mtl', 'png', 'jpg', 'jpeg', 'webp'];
+
+// Millimetres per 3MF model unit; the scene is in millimetres
+const THREEMF_UNITS: Record<string, number> = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  inch: 25.4,
+  foot: 304.8,
+  meter: 1000
+};
+
+// 3MF is Z-up with the build plate on XY; the scene is Y-up. Turning -90° about X maps 3MF +Z to scene +Y.
+const THREEMF_TO_SCENE = new THREE.Matrix4().makeRotationX(-Math.PI / 2);
+
+const IMPORT_CANCELLED = 'Import cancelled';
+
+// Files loaded at the same time, leaving a core for the page
+const PARALLEL_LOADS = Math.max(1, Math.min(4, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency || 2) - 1));
+
+// Bytes loaded over all files; `file` is the one that last made progress
 export interface LoadProgress {
   loaded: number;
   total: number;
@@ -29,380 +99,566 @@ export class FileLoader {
   public async loadFiles(
     files: FileList,
     onProgress?: (progress: LoadProgress) => void,
-    onError?: (error: string, file: string) => void
+    onError?: (error: string, file: string) => void,
+    options: LoadOptions = {}
   ): Promise<ImportedFile[]> {
-    const results: ImportedFile[] = [];
-    const totalFiles = files.length;
-
-    for (let i = 0; i < totalFiles; i++) {
-      const file = files[i];
-
-      try {
-        onProgress?.({
-          loaded: i,
-          total: totalFiles,
-          file: file.name,
-        });
+    const all = Array.from(files);
+    const resources = all.filter(file => this.isResource(file.name));
+    const models = all.filter(file => !this.isResource(file.name));
+    const results: Array<ImportedFile | null> = models.map(() => null);
+    const loaded = models.map(() => 0);
+    const total = models.reduce((sum, file) => sum + file.size, 0);
+
+    const report = (index: number, bytes: number) => {
+      loaded[index] = Math.min(Math.round(bytes), models[index].size);
+      onProgress?.({
+        loaded: loaded.reduce((sum, bytes) => sum + bytes, 0),
+        total,
+        file: models[index].name,
+      });
+    };
 
-        const importedFile = await this.loadSingleFile(file);
-        if (importedFile) {
-          // Provide default material if missing
-          if (!importedFile.material) {
-            importedFile.material = new THREE.MeshStandardMaterial({ color: 0x888888 });
+    // A few queues take files in turn, so small files don't wait behind a large one
+    let next = 0;
+    const runQueue = async () => {
+      while (next < models.length && !options.signal?.aborted) {
+        const index = next++;
+        const file = models[index];
+
+        try {
+          results[index] = await this.loadSingleFile(file, resources, options, bytes => report(index, bytes));
+          report(index, file.size);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          onError?.(errorMessage, file.name);
+          if (errorMessage !== IMPORT_CANCELLED) {
+            console.error(`Failed to load ${file.name}:`, error);
           }
-          results.push(importedFile);
         }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        onError?.(errorMessage, file.name);
-        console.error(`Failed to load ${file.name}:`, error);
       }
+    };
+    await Promise.all(Array.from({ length: Math.min(PARALLEL_LOADS, models.length) }, runQueue));
+
+    if (options.signal?.aborted) {
+      models.slice(next).forEach(file => onError?.(IMPORT_CANCELLED, file.name));
+    } else {
+      onProgress?.({
+        loaded: total,
+        total,
+        file: 'Complete',
+      });
     }
 
-    onProgress?.({
-      loaded: totalFiles,
-      total: totalFiles,
-      file: 'Complete',
-    });
+    return results.filter((file): file is ImportedFile => file !== null);
+  }
 
-    return results;
+  public isResource(filename: string): boolean {
+    return RESOURCE_FORMATS.includes(filename.toLowerCase().split('.').pop() || '');
   }
 
-  private async loadSingleFile(file: File): Promise<ImportedFile | null> {
+  private async loadSingleFile(
+    file: File,
+    resources: File[],
+    options: LoadOptions,
+    onProgress: (bytes: number) => void
+  ): Promise<ImportedFile | null> {
     const extension = file.name.toLowerCase().split('.').pop() || '';
+    const { signal } = options;
     switch (extension) {
-      case 'obj': {
-        const content = await this.readFileAsText(file);
-        return this.loadOBJ(file.name, content, file.size);
+      case 'gltf':
+      case 'glb': {
+        const buffer = await this.readFileAsArrayBuffer(file, signal, onProgress);
+        return repairImportedFile(await this.loadGLTF(file.name, buffer, file.size, resources), options.repair);
+      }
+      case '3mf': {
+        const buffer = await this.readFileAsArrayBuffer(file, signal, onProgress);
+        return repairImportedFile(await this.load3MF(file.name, buffer, file.size), options.repair);
       }
-      case 'stl': {
-        const buffer = await this.readFileAsArrayBuffer(file);
-        return this.loadSTL(file.name, buffer, file.size);
+      case 'dxf': {
+        const content = await this.readFileAsText(file, signal, onProgress);
+        const result = DXFImporter.import(content, options.sketchPlane ?? 'xz');
+        return { name: file.name, meshes: [], sketch: result.shapes, size: file.size, format: 'DXF' };
       }
-      case 'ply': {
-        const content = await this.readFileAsText(file);
-        return this.loadPLY(file.name, content, file.size);
+      case 'svg': {
+        const content = await this.readFileAsText(file, signal, onProgress);
+        const baseName = file.name.replace(/\.[^.]+$/, '');
+        const result = SVGImporter.import(content, options.sketchPlane ?? 'xz', options.drawingSize, baseName);
+        return { name: file.name, meshes: [], sketch: result.shapes, size: file.size, format: 'SVG' };
       }
+      case 'obj': {
+        const imported = await this.parseMesh(file, 'obj', options, onProgress);
+        return this.resolveOBJMaterials(imported, resources);
+      }
+      case 'stl':
+      case 'ply':
+        return this.parseMesh(file, extension, options, onProgress);
       default:
         throw new Error(`Unsupported file format: ${extension}`);
     }
   }
 
-  private readFileAsText(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string);
-      reader.onerror = () => reject(new Error('Failed to read file as text'));
-      reader.readAsText(file);
-    });
+  private readFileAsText(file: File, signal?: AbortSignal, onProgress?: (bytes: number) => void): Promise<string> {
+    return this.readFile(reader => reader.readAsText(file), 'Failed to read file as text', signal, onProgress);
+  }
+
+  private readFileAsArrayBuffer(file: File, signal?: AbortSignal, onProgress?: (bytes: number) => void): Promise<ArrayBuffer> {
+    return this.readFile(reader => reader.readAsArrayBuffer(file), 'Failed to read file as array buffer', signal, onProgress);
   }
 
-  private readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  private readFile<T>(
+    start: (reader: FileReader) => void,
+    failure: string,
+    signal?: AbortSignal,
+    onProgress?: (bytes: number) => void
+  ): Promise<T> {
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error(IMPORT_CANCELLED));
+        return;
+      }
       const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
-      reader.onerror = () => reject(new Error('Failed to read file as array buffer'));
-      reader.readAsArrayBuffer(file);
+      const abort = () => reader.abort();
+      signal?.addEventListener('abort', abort);
+      reader.onprogress = (e) => onProgress?.(e.loaded);
+      reader.onload = (e) => resolve(e.target?.result as T);
+      reader.onerror = () => reject(new Error(failure));
+      reader.onabort = () => reject(new Error(IMPORT_CANCELLED));
+      reader.onloadend = () => signal?.removeEventListener('abort', abort);
+      start(reader);
     });
   }
 
-  private loadOBJ(filename: string, content: string, size: number): ImportedFile {
-    const geometry = new THREE.BufferGeometry();
-    const positions: number[] = [];
-    const normals: number[] = [];
-    const uvs: number[] = [];
-
-    const vertexPositions: THREE.Vector3[] = [];
-    const vertexNormals: THREE.Vector3[] = [];
-    const vertexUVs: THREE.Vector2[] = [];
-
-    const lines = content.split(/\r?\n/);
-
-    for (const line of lines) {
-      const parts = line.trim().split(/\s+/);
-      if (!parts.length) continue;
-
-      switch (parts[0]) {
-        case 'v':
-          if (parts.length >= 4)
-            vertexPositions.push(new THREE.Vector3(+parts[1], +parts[2], +parts[3]));
-          break;
-        case 'vn':
-          if (parts.length >= 4)
-            vertexNormals.push(new THREE.Vector3(+parts[1], +parts[2], +parts[3]));
-          break;
-        case 'vt':
-          if (parts.length >= 3)
-            vertexUVs.push(new THREE.Vector2(+parts[1], +parts[2]));
-          break;
-        case 'f':
-          if (parts.length < 4) break; // faces need at least 3 vertices
-
-          // Triangulate face (fan triangulation)
-          const faceVertices = parts.slice(1);
-          for (let i = 1; i < faceVertices.length - 1; i++) {
-            const triVerts = [faceVertices[0], faceVertices[i], faceVertices[i + 1]];
-            for (const v of triVerts) {
-              const { vertex, uv, normal } = this.parseOBJFaceVertex(v);
-
-              const pos = vertexPositions[vertex - 1];
-              if (!pos) continue;
-              positions.push(pos.x, pos.y, pos.z);
-
-              if (normal && vertexNormals[normal - 1]) {
-                const n = vertexNormals[normal - 1];
-                normals.push(n.x, n.y, n.z);
-              }
-
-              if (uv && vertexUVs[uv - 1]) {
-                const uvCoord = vertexUVs[uv - 1];
-                uvs.push(uvCoord.x, uvCoord.y);
-              }
-            }
-          }
-          break;
-      }
-    }
-
-    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-
-    if (normals.length === positions.length) {
-      geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
-    } else {
-      geometry.computeVertexNormals();
-    }
-
-    if (uvs.length > 0) {
-      geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  /**
+   * Parses and checks an STL, OBJ or PLY file in a Web Worker, which reads the file
+   * itself and transfers the geometry buffers back. Each file gets its own worker, ended when the
+   * file is done or the import is cancelled. Parses on this thread where workers are
+   * unavailable.
+   */
+  private parseMesh(file: File, format: MeshFormat, options: LoadOptions, onProgress?: (bytes: number) => void): Promise<ImportedFile> {
+    const { signal, repair } = options;
+    if (typeof Worker === 'undefined') {
+      return this.readFileAsArrayBuffer(file, signal, onProgress)
+        .then(buffer => repairImportedFile(parseMeshFile(format, buffer, file.name), repair));
     }
 
-    geometry.computeBoundingBox();
-    if (geometry.boundingBox) {
-      const center = geometry.boundingBox.getCenter(new THREE.Vector3());
-      geometry.translate(-center.x, -center.y, -center.z);
-    }
-
-    return {
-      name: filename,
-      geometry,
-      size,
-      format: 'OBJ',
-    };
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error(IMPORT_CANCELLED));
+        return;
+      }
+      const worker = new Worker(new URL('./import.worker.ts', import.meta.url), { type: 'module' });
+      const finish = () => {
+        worker.terminate();
+        signal?.removeEventListener('abort', abort);
+      };
+      const abort = () => {
+        finish();
+        reject(new Error(IMPORT_CANCELLED));
+      };
+      signal?.addEventListener('abort', abort);
+
+      worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          onProgress?.(message.bytes);
+          return;
+        }
+        finish();
+        if (message.type === 'done') {
+          resolve(unpackImportedFile(message.file));
+        } else {
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || 'The import worker failed'));
+      };
+
+      const job: ImportJob = { file, format, repair };
+      worker.postMessage(job);
+    });
   }
 
-  private parseOBJFaceVertex(vertex: string): { vertex: number; uv?: number; normal?: number } {
-    const parts = vertex.split('/');
-    return {
-      vertex: parseInt(parts[0]) || 0,
-      uv: parts[1] ? parseInt(parts[1]) : undefined,
-      normal: parts[2] ? parseInt(parts[2]) : undefined,
-    };
+  /**
+   * Resolves the materials of a parsed OBJ file from the .mtl libraries it references,
+   * with their textures, when those files were dropped alongside.
+   */
+  private async resolveOBJMaterials(file: ImportedFile, resources: File[]): Promise<ImportedFile> {
+    const materials = await this.loadMTL(file.materialLibraries ?? [], resources);
+    file.meshes.forEach(mesh => {
+      if (mesh.materialName) mesh.material = materials.get(mesh.materialName);
+    });
+    return file;
   }
 
-  private loadSTL(filename: string, buffer: ArrayBuffer, size: number): ImportedFile {
-    const geometry = new THREE.BufferGeometry();
+  /**
+   * Reads materials from MTL libraries among the dropped files. Phong parameters are
+   * mapped to metal/roughness materials (PBR extension values win when present) and
+   * texture maps are loaded from the dropped images. Missing files only log a warning.
+   */
+  private async loadMTL(libraries: string[], resources: File[]): Promise<Map<string, THREE.MeshStandardMaterial>> {
+    const materials = new Map<string, THREE.MeshStandardMaterial>();
+    const findResource = (path: string) => {
+      const name = path.split(/[\\/]/).pop()!.toLowerCase();
+      return resources.find(file => file.name.toLowerCase() === name);
+    };
+    const textureLoader = new THREE.TextureLoader();
+    const textures: Promise<void>[] = [];
+    const loadTexture = (path: string, apply: (texture: THREE.Texture) => void, color = false) => {
+      const file = findResource(path);
+      if (!file) {
+        console.warn(`Texture ${path} was not dropped with the model`);
+        return;
+      }
+      const url = URL.createObjectURL(file);
+      textures.push(textureLoader.loadAsync(url)
+        .then(texture => {
+          texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+          if (color) texture.colorSpace = THREE.SRGBColorSpace;
+          apply(texture);
+        })
+        .catch(() => console.warn(`Failed to load texture ${path}`))
+        .finally(() => URL.revokeObjectURL(url)));
+    };
 
-    // Detect ASCII or binary STL by checking header
-    const isASCII = this.isASCIISTL(buffer);
+    for (const library of libraries) {
+      const file = findResource(library);
+      if (!file) {
+        console.warn(`Material library ${library} was not dropped with the model`);
+        continue;
+      }
 
-    if (isASCII) {
-      const decoder = new TextDecoder('utf-8');
-      const text = decoder.decode(buffer);
-      return this.parseASCIISTL(filename, text, size);
-    } else {
-      return this.parseBinarySTL(filename, buffer, size);
+      let current: THREE.MeshStandardMaterial | null = null;
+      let explicitRoughness = false;
+      const content = await this.readFileAsText(file);
+      for (const line of content.split(/\r?\n/)) {
+        const parts = line.trim().split(/\s+/);
+        const key = parts[0].toLowerCase();
+        const values = parts.slice(1).map(Number);
+        // Map statements may carry options before the file name
+        const mapFile = parts[parts.length - 1];
+
+        if (key === 'newmtl') {
+          current = new THREE.MeshStandardMaterial({ name: parts.slice(1).join(' '), metalness: 0, roughness: 0.5, side: THREE.DoubleSide });
+          explicitRoughness = false;
+          materials.set(current.name, current);
+          continue;
+        }
+        if (!current) continue;
+        const material = current;
+
+        switch (key) {
+          case 'kd':
+            material.color.setRGB(values[0], values[1], values[2], THREE.SRGBColorSpace);
+            break;
+          case 'ke':
+            material.emissive.setRGB(values[0], values[1], values[2], THREE.SRGBColorSpace);
+            break;
+          case 'ns':
+            // Blinn-Phong shininess to GGX roughness, the inverse of the glTF export mapping
+            if (!explicitRoughness) material.roughness = Math.min(1, Math.sqrt(2 / (values[0] + 2)));
+            break;
+          case 'pr':
+            material.roughness = values[0];
+            explicitRoughness = true;
+            break;
+          case 'pm':
+            material.metalness = values[0];
+            break;
+          case 'd':
+            material.opacity = values[0];
+            material.transparent = values[0] < 1;
+            break;
+          case 'tr':
+            material.opacity = 1 - values[0];
+            material.transparent = values[0] > 0;
+            break;
+          case 'map_kd':
+            loadTexture(mapFile, texture => { material.map = texture; }, true);
+            break;
+          case 'map_ke':
+            loadTexture(mapFile, texture => { material.emissiveMap = texture; material.emissive.set(0xffffff); }, true);
+            break;
+          case 'map_bump':
+          case 'bump':
+            loadTexture(mapFile, texture => { material.bumpMap = texture; });
+            break;
+          case 'norm':
+            loadTexture(mapFile, texture => { material.normalMap = texture; });
+            break;
+          case 'map_d':
+            loadTexture(mapFile, texture => { material.alphaMap = texture; material.transparent = true; });
+            break;
+        }
+      }
     }
-  }
-
-  private isASCIISTL(buffer: ArrayBuffer): boolean {
-    // ASCII STL usually starts with "solid" and does not contain null bytes near the start
-    const decoder = new TextDecoder('utf-8');
-    const header = decoder.decode(buffer.slice(0, 80));
-    if (!header.toLowerCase().startsWith('solid')) return false;
 
-    // Check if buffer contains null bytes indicating binary STL
-    const uint8 = new Uint8Array(buffer);
-    for (let i = 0; i < 80; i++) {
-      if (uint8[i] === 0) return false;
-    }
-    return true;
+    await Promise.all(textures);
+    return materials;
   }
 
-  private parseASCIISTL(filename: string, text: string, size: number): ImportedFile {
-    const geometry = new THREE.BufferGeometry();
-    const vertices: number[] = [];
-    const normals: number[] = [];
-
-    const lines = text.split(/\r?\n/);
-    let currentNormal = new THREE.Vector3();
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed.startsWith('facet normal')) {
-        const parts = trimmed.split(/\s+/);
-        currentNormal.set(+parts[2], +parts[3], +parts[4]);
-      } else if (trimmed.startsWith('vertex')) {
-        const parts = trimmed.split(/\s+/);
-        vertices.push(+parts[1], +parts[2], +parts[3]);
-        normals.push(currentNormal.x, currentNormal.y, currentNormal.z);
-      }
-    }
-
-    geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
-    if (normals.length === vertices.length) {
-      geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
-    } else {
-      geometry.computeVertexNormals();
-    }
 
-    geometry.computeBoundingBox();
-    if (geometry.boundingBox) {
-      const center = geometry.boundingBox.getCenter(new THREE.Vector3());
-      geometry.translate(-center.x, -center.y, -center.z);
+  /**
+   * Loads a glTF 2.0 file (GLB or JSON glTF) as its node hierarchy. Every mesh keeps its
+   * PBR material and textures, and its world transform within the default scene.
+   * Buffers and images referenced by relative URI are taken from the other dropped files.
+   */
+  private async loadGLTF(filename: string, buffer: ArrayBuffer, size: number, resources: File[]): Promise<ImportedFile> {
+    const urls = new Map(resources.map(file => [file.name.toLowerCase(), URL.createObjectURL(file)]));
+    const fileName = (uri: string) => decodeURIComponent(uri.split(/[\\/]/).pop() || '').toLowerCase();
+
+    if (!filename.toLowerCase().endsWith('.glb')) {
+      const json = JSON.parse(new TextDecoder('utf-8').decode(buffer));
+      const missing = [...(json.buffers || []), ...(json.images || [])]
+        .map((entry: { uri?: string }) => entry.uri)
+        .filter((uri?: string): uri is string => !!uri && !uri.startsWith('data:') && !urls.has(fileName(uri)));
+      if (missing.length > 0) {
+        urls.forEach(url => URL.revokeObjectURL(url));
+        throw new Error(`Missing ${missing.join(', ')}; import it together with ${filename}`);
+      }
     }
 
-    return {
-      name: filename,
-      geometry,
-      size,
-      format: 'STL (ASCII)',
-    };
-  }
+    const manager = new THREE.LoadingManager();
+    manager.setURLModifier(url => (url.startsWith('data:') || url.startsWith('blob:') ? url : urls.get(fileName(url)) ?? url));
+
+    try {
+      const gltf = await new GLTFLoader(manager).parseAsync(buffer, '');
+      const root = gltf.scene;
+      root.updateMatrixWorld(true);
+
+      const meshes: ImportedMesh[] = [];
+      const usedGeometries = new Set<THREE.BufferGeometry>();
+      const visit = (node: THREE.Object3D, path: ImportedNode[]) => {
+        // The scene root is named after the file unless the file names it
+        const name = node.name || (node === root ? filename : `Node ${meshes.length + 1}`);
+        const entry: ImportedNode = { key: node.uuid, name };
+        if (node instanceof THREE.Mesh) {
+          // Nodes instancing the same glTF mesh get their own copy so edits stay separate
+          const geometry = usedGeometries.has(node.geometry) ? node.geometry.clone() : node.geometry;
+          usedGeometries.add(node.geometry);
+          if (!geometry.getAttribute('normal')) geometry.computeVertexNormals();
+
+          meshes.push({
+            name: entry.name,
+            geometry,
+            material: Array.isArray(node.material) ? node.material[0] : node.material,
+            matrix: node.matrixWorld.clone(),
+            key: entry.key,
+            path
+          });
+        }
+        node.children.forEach(child => visit(child, [...path, entry]));
+      };
+      visit(root, []);
 
-  private parseBinarySTL(filename: string, buffer: ArrayBuffer, size: number): ImportedFile {
-    const geometry = new THREE.BufferGeometry();
-
-    const dataView = new DataView(buffer);
-    const facesCount = dataView.getUint32(80, true);
-    const vertices: number[] = [];
-    const normals: number[] = [];
-
-    let offset = 84;
-    for (let i = 0; i < facesCount; i++) {
-      // Normal vector
-      const nx = dataView.getFloat32(offset, true);
-      const ny = dataView.getFloat32(offset + 4, true);
-      const nz = dataView.getFloat32(offset + 8, true);
-      offset += 12;
-
-      // 3 vertices
-      for (let v = 0; v < 3; v++) {
-        const x = dataView.getFloat32(offset, true);
-        const y = dataView.getFloat32(offset + 4, true);
-        const z = dataView.getFloat32(offset + 8, true);
-        offset += 12;
-        vertices.push(x, y, z);
-        normals.push(nx, ny, nz);
+      if (meshes.length === 0) {
+        throw new Error('The file contains no meshes');
       }
 
-      // Skip attribute byte count
-      offset += 2;
+      return {
+        name: filename,
+        meshes,
+        size,
+        format: filename.toLowerCase().endsWith('.glb') ? 'glTF (Binary)' : 'glTF',
+        // glTF coordinates are always metres
+        unit: 'm'
+      };
+    } finally {
+      urls.forEach(url => URL.revokeObjectURL(url));
     }
+  }
 
-    geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
-    if (normals.length === vertices.length) {
-      geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
-    } else {
-      geometry.computeVertexNormals();
+  /**
+   * Loads a 3MF package. Every build item becomes a mesh placed by its build transform;
+   * objects assembled from components are merged into one mesh. Geometry is scaled from
+   * the model unit into millimetres and keeps the object's name and display color.
+   */
+  private async load3MF(filename: string, buffer: ArrayBuffer, size: number): Promise<ImportedFile> {
+    const entries = await readZip(buffer);
+    const parts = new Map(Object.entries(entries).map(([path, data]) => [path.replace(/^\//, '').toLowerCase(), data]));
+    const decoder = new TextDecoder('utf-8');
+    const parseXML = (path: string): Element => {
+      const data = parts.get(path.replace(/^\//, '').toLowerCase());
+      if (!data) {
+        throw new Error(`The package is missing ${path}`);
+      }
+      const doc = new DOMParser().parseFromString(decoder.decode(data), 'application/xml');
+      if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error(`${path} is not valid XML`);
+      }
+      return doc.documentElement;
+    };
+    // 3MF elements live in several namespaces (core, materials, production); match by local name
+    const childrenOf = (element: Element | undefined, name: string) =>
+      Array.from(element?.children ?? []).filter(child => child.localName === name);
+    const childOf = (element: Element | undefined, name: string) => childrenOf(element, name)[0];
+
+    // The root relationship points at the model part, usually /3D/3dmodel.model
+    let rootPath = '3D/3dmodel.model';
+    if (parts.has('_rels/.rels')) {
+      const relationship = childrenOf(parseXML('_rels/.rels'), 'Relationship')
+        .find(rel => rel.getAttribute('Type')?.endsWith('/3dmodel'));
+      rootPath = relationship?.getAttribute('Target') ?? rootPath;
     }
 
-    geometry.computeBoundingBox();
-    if (geometry.boundingBox) {
-      const center = geometry.boundingBox.getCenter(new THREE.Vector3());
-      geometry.translate(-center.x, -center.y, -center.z);
+    const root = parseXML(rootPath);
+    const unit = root.getAttribute('unit') || 'millimeter';
+    const unitScale = THREEMF_UNITS[unit];
+    if (unitScale === undefined) {
+      throw new Error(`Unknown 3MF unit "${unit}"`);
     }
 
-    return {
-      name: filename,
-      geometry,
-      size,
-      format: 'STL (Binary)',
+    // Transforms are 3x4 row-major matrices for row vectors, i.e. Matrix4 elements minus the last row;
+    // translations are scaled like the geometry
+    const parseTransform = (value: string | null): THREE.Matrix4 => {
+      const matrix = new THREE.Matrix4();
+      if (!value) return matrix;
+      const m = value.trim().split(/\s+/).map(Number);
+      if (m.length !== 12 || m.some(v => !Number.isFinite(v))) {
+        throw new Error(`Invalid 3MF transform "${value}"`);
+      }
+      return matrix.fromArray([m[0], m[1], m[2], 0, m[3], m[4], m[5], 0, m[6], m[7], m[8], 0,
+        m[9] * unitScale, m[10] * unitScale, m[11] * unitScale, 1]);
     };
-  }
 
-  private loadPLY(filename: string, content: string, size: number): ImportedFile {
-    const geometry = new THREE.BufferGeometry();
-
-    const lines = content.split(/\r?\n/);
-    let vertexCount = 0;
-    let faceCount = 0;
-    let headerEnded = false;
-    let currentLine = 0;
-
-    // Parse header
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (line.startsWith('element vertex')) {
-        vertexCount = parseInt(line.split(/\s+/)[2]);
-      } else if (line.startsWith('element face')) {
-        faceCount = parseInt(line.split(/\s+/)[2]);
-      } else if (line === 'end_header') {
-        currentLine = i + 1;
-        headerEnded = true;
-        break;
+    // Property groups (base materials, color groups) indexed by model part and id
+    type Property = { color: THREE.Color; opacity: number };
+    const models = new Map<string, { objects: Map<string, Element>; properties: Map<string, Property[]> }>();
+    const loadModel = (path: string) => {
+      const key = path.replace(/^\//, '').toLowerCase();
+      if (!models.has(key)) {
+        const resources = childOf(key === rootPath.replace(/^\//, '').toLowerCase() ? root : parseXML(path), 'resources');
+        const toProperty = (value: string | null): Property => {
+          const hex = /^#([0-9a-f]{6})([0-9a-f]{2})?$/i.exec(value || '');
+          return hex
+            ? { color: new THREE.Color(`#${hex[1]}`), opacity: hex[2] ? parseInt(hex[2], 16) / 255 : 1 }
+            : { color: new THREE.Color(0xcccccc), opacity: 1 };
+        };
+        const properties = new Map<string, Property[]>();
+        childrenOf(resources, 'basematerials').forEach(group => properties.set(
+          group.getAttribute('id') || '',
+          childrenOf(group, 'base').map(base => toProperty(base.getAttribute('displaycolor')))
+        ));
+        childrenOf(resources, 'colorgroup').forEach(group => properties.set(
+          group.getAttribute('id') || '',
+          childrenOf(group, 'color').map(color => toProperty(color.getAttribute('color')))
+        ));
+        const objects = new Map(childrenOf(resources, 'object').map(object => [object.getAttribute('id') || '', object]));
+        models.set(key, { objects, properties });
       }
-    }
-
-    if (!headerEnded) {
-      throw new Error('Invalid PLY file: no end_header found');
-    }
+      return models.get(key)!;
+    };
 
-    // Parse vertices
-    const positions: number[] = [];
-    for (let i = 0; i < vertexCount; i++) {
-      const line = lines[currentLine + i].trim();
-      const parts = line.split(/\s+/);
-      if (parts.length < 3) throw new Error('Invalid vertex line in PLY');
-      positions.push(+parts[0], +parts[1], +parts[2]);
-    }
+    // Collects the object's triangles in the coordinates given by matrix, following components
+    const collect = (path: string, id: string, matrix: THREE.Matrix4, positions: number[], depth = 0): Property | undefined => {
+      const model = loadModel(path);
+      const object = model.objects.get(id);
+      if (!object) {
+        throw new Error(`Build references missing object ${id}`);
+      }
+      if (depth > 32) {
+        throw new Error(`Object ${id} has cyclic components`);
+      }
 
-    // Parse faces
-    const indices: number[] = [];
-    for (let i = 0; i < faceCount; i++) {
-      const line = lines[currentLine + vertexCount + i].trim();
-      const parts = line.split(/\s+/).map(Number);
-      const n = parts[0];
-      if (n === 3) {
-        indices.push(parts[1], parts[2], parts[3]);
-      } else if (n === 4) {
-        // triangulate quad
-        indices.push(parts[1], parts[2], parts[3]);
-        indices.push(parts[1], parts[3], parts[4]);
-      } else {
-        // ignore polygons with more than 4 vertices for now
+      const mesh = childOf(object, 'mesh');
+      if (!mesh) {
+        let property: Property | undefined;
+        childrenOf(childOf(object, 'components'), 'component').forEach(component => {
+          const componentPath = Array.from(component.attributes).find(attr => attr.localName === 'path')?.value ?? path;
+          const componentMatrix = matrix.clone().multiply(parseTransform(component.getAttribute('transform')));
+          const componentProperty = collect(componentPath, component.getAttribute('objectid') || '', componentMatrix, positions, depth + 1);
+          property = property ?? componentProperty;
+        });
+        return property;
       }
-    }
 
-    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-    if (indices.length > 0) {
-      geometry.setIndex(indices);
-    }
+      const vertex = new THREE.Vector3();
+      const vertices = childrenOf(childOf(mesh, 'vertices'), 'vertex').map(v => vertex.set(
+        Number(v.getAttribute('x')) * unitScale,
+        Number(v.getAttribute('y')) * unitScale,
+        Number(v.getAttribute('z')) * unitScale
+      ).applyMatrix4(matrix).toArray());
+      const triangles = childrenOf(childOf(mesh, 'triangles'), 'triangle');
+      triangles.forEach(triangle => {
+        ['v1', 'v2', 'v3'].forEach(attribute => {
+          const v = vertices[Number(triangle.getAttribute(attribute))];
+          if (!v) {
+            throw new Error(`Object ${id} has a triangle with an invalid vertex index`);
+          }
+          positions.push(...v);
+        });
+      });
 
-    geometry.computeVertexNormals();
+      // The object's default property, else the first triangle's
+      const source = object.hasAttribute('pid') ? object : triangles.find(triangle => triangle.hasAttribute('pid'));
+      const group = model.properties.get(source?.getAttribute('pid') || '');
+      const index = Number(source?.getAttribute(source === object ? 'pindex' : 'p1') || 0);
+      return group?.[index];
+    };
+
+    const fileNode: ImportedNode = { key: filename, name: filename };
+    const meshes: ImportedMesh[] = [];
+    childrenOf(childOf(root, 'build'), 'item').forEach(item => {
+      const id = item.getAttribute('objectid') || '';
+      const itemPath = Array.from(item.attributes).find(attr => attr.localName === 'path')?.value ?? rootPath;
+      const positions: number[] = [];
+      // Geometry stays in object space; the build transform becomes the object's placement
+      const property = collect(itemPath, id, new THREE.Matrix4(), positions);
+      if (positions.length === 0) return;
+
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+      geometry.computeVertexNormals();
+      geometry.computeBoundingBox();
+
+      const object = loadModel(itemPath).objects.get(id);
+      meshes.push({
+        name: object?.getAttribute('name') || `Object ${id}`,
+        geometry,
+        material: property && new THREE.MeshPhongMaterial({
+          color: property.color,
+          opacity: property.opacity,
+          transparent: property.opacity < 1,
+          side: THREE.DoubleSide
+        }),
+        matrix: parseTransform(item.getAttribute('transform')).premultiply(THREEMF_TO_SCENE),
+        path: [fileNode]
+      });
+    });
 
-    geometry.computeBoundingBox();
-    if (geometry.boundingBox) {
-      const center = geometry.boundingBox.getCenter(new THREE.Vector3());
-      geometry.translate(-center.x, -center.y, -center.z);
+    if (meshes.length === 0) {
+      throw new Error('The build contains no meshes');
     }
 
     return {
       name: filename,
-      geometry,
+      meshes,
       size,
-      format: 'PLY',
+      format: '3MF',
+      // Model units were converted while reading
+      unit: 'mm',
     };
   }
 
   public getSupportedFormats(): string[] {
-    return ['obj', 'stl', 'ply'];
+    return ['obj', 'stl', 'ply', 'gltf', 'glb', '3mf', 'dxf', 'svg'];
+  }
+
+  public getAcceptedFormats(): string[] {
+    return [...this.getSupportedFormats(), ...RESOURCE_FORMATS];
   }
 
   public getFormatDescription(format: string): string {
     const descriptions: Record<string, string> = {
-      obj: 'Wavefront OBJ - Common 3D format with material support',
+      obj: 'Wavefront OBJ - One part per object/group; drop .mtl and textures alongside',
       stl: 'Stereolithography - 3D printing format',
       ply: 'Polygon File Format - Research and scanning format',
+      gltf: 'glTF 2.0 - Scene hierarchy with PBR materials; drop .bin and textures alongside',
+      glb: 'Binary glTF - Self-contained scene with PBR materials and textures',
+      '3mf': '3D Manufacturing Format - Printer package with units, colors and build plate',
+      dxf: 'AutoCAD DXF - 2D drawing imported as sketch profiles, one group per layer',
+      svg: 'Scalable Vector Graphics - Logos and outlines as sketch profiles with holes',
     };
     return descriptions[format.toLowerCase()] || 'Unknown format';
   }
@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+import { RenderObject, LightSettings } from '../three/ThreeRenderer';
+
+export interface GLTFExportOptions {
+  // GLB (single binary file) instead of JSON glTF with embedded buffers
+  binary: boolean;
+  // Also write the directional and point lights; glTF has no ambient light
+  lights?: LightSettings;
+}
+
+// glTF is always in metres; the scene is in millimetres
+const METRES_PER_MM = 0.001;
+
+export class GLTFSceneExporter {
+  /**
+   * Writes the visible objects as a glTF 2.0 scene. Objects keep their transforms,
+   * names and the hierarchy they were imported with; Phong colors are converted to
+   * metal/roughness PBR materials, imported PBR materials are written as they are.
+   * glTF is in metres, so everything hangs under a root node scaled from millimetres.
+   * @param objects The scene objects; hidden ones are skipped.
+   * @param options Output format and optional lights.
+   * @returns The GLB bytes, or the glTF JSON text.
+   */
+  static async export(objects: RenderObject[], options: GLTFExportOptions): Promise<ArrayBuffer | string> {
+    const scene = new THREE.Scene();
+    scene.name = 'Scene';
+    const root = new THREE.Group();
+    root.name = 'Root';
+    root.scale.setScalar(METRES_PER_MM);
+    scene.add(root);
+
+    const visible = objects.filter(obj => obj.visible);
+    const nodes = new Map<string, THREE.Object3D>();
+    visible.forEach(obj => {
+      const mesh = new THREE.Mesh(obj.mesh.geometry, this.toPBR(obj));
+      mesh.name = obj.name || obj.id;
+      mesh.position.set(obj.position.x, obj.position.y, obj.position.z);
+      mesh.rotation.set(obj.rotation.x, obj.rotation.y, obj.rotation.z);
+      mesh.scale.set(obj.scale.x, obj.scale.y, obj.scale.z);
+      root.add(mesh);
+      nodes.set(obj.id, mesh);
+    });
+
+    // Rebuild imported hierarchies; attach() keeps each object's world transform
+    visible.forEach(obj => {
+      let parent: THREE.Object3D = root;
+      for (const node of obj.hierarchy ?? []) {
+        let group = nodes.get(node.id);
+        if (!group) {
+          group = new THREE.Group();
+          group.name = node.name;
+          parent.add(group);
+          nodes.set(node.id, group);
+        }
+        parent = group;
+      }
+      if (parent !== root) {
+        scene.updateMatrixWorld(true);
+        parent.attach(nodes.get(obj.id)!);
+      }
+    });
+
+    if (options.lights) {
+      this.addLights(root, options.lights);
+    }
+
+    const result = await new GLTFExporter().parseAsync(scene, { binary: options.binary, trs: true, onlyVisible: true });
+    return result instanceof ArrayBuffer ? result : JSON.stringify(result, null, 2);
+  }
+
+  private static toPBR(obj: RenderObject): THREE.Material {
+    const source = obj.mesh.material as THREE.Material;
+    // The properties panel keeps alpha as an extra w component of the color
+    const opacity = (obj.color as { w?: number }).w ?? 1;
+
+    if (source instanceof THREE.MeshStandardMaterial) {
+      const material = source.clone();
+      material.color.setRGB(obj.color.x, obj.color.y, obj.color.z);
+      return material;
+    }
+
+    // Blinn-Phong shininess to GGX roughness (Walter et al. approximation)
+    const shininess = source instanceof THREE.MeshPhongMaterial ? source.shininess : 30;
+    return new THREE.MeshStandardMaterial({
+      name: source.name,
+      color: new THREE.Color(obj.color.x, obj.color.y, obj.color.z),
+      roughness: Math.min(1, Math.sqrt(2 / (shininess + 2))),
+      metalness: 0,
+      opacity,
+      transparent: opacity < 1,
+      side: source.side
+    });
+  }
+
+  private static addLights(parent: THREE.Object3D, settings: LightSettings): void {
+    const directional = new THREE.DirectionalLight(
+      new THREE.Color(...settings.directional.color),
+      settings.directional.intensity
+    );
+    directional.name = 'Directional Light';
+    directional.position.set(...settings.directional.position);
+    // glTF directional lights shine down their local -Z, so aim the node at the origin
+    directional.lookAt(0, 0, 0);
+    directional.add(directional.target);
+    directional.target.position.set(0, 0, -1);
+    parent.add(directional);
+
+    const point = new THREE.PointLight(new THREE.Color(...settings.point.color), settings.point.intensity);
+    point.name = 'Point Light';
+    point.position.set(...settings.point.position);
+    parent.add(point);
+  }
+}
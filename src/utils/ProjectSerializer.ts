@@ -0,0 +1,341 @@
+import * as THREE from 'three';
+import { RenderObject, LightSettings, GridSettings, HierarchyNode } from '../three/ThreeRenderer';
+import { SketchShape3D } from './sketch3d';
+import { Measurement } from './measurement';
+import { Vec3 } from './math';
+import {
+  Feature, ExtrudeFeature, RevolveFeature, SweepFeature, LoftFeature, BooleanFeature, ImportFeature
+} from '../three/FeatureEngine';
+import { SketchConstraint } from './constraints';
+import { DEFAULT_UNIT_SETTINGS, UnitSettings } from './units';
+
+export const PROJECT_FORMAT = 'webgl-cad-project';
+export const PROJECT_VERSION = 2;
+
+export interface ProjectData {
+  objects: RenderObject[];
+  sketches: SketchShape3D[];
+  sketchConstraints: SketchConstraint[];
+  measurements: Measurement[];
+  lightSettings: LightSettings;
+  gridSettings: GridSettings;
+  units: UnitSettings;
+}
+
+type Tuple3 = [number, number, number];
+
+interface SerializedObject {
+  id: string;
+  name?: string;
+  hierarchy?: HierarchyNode[];
+  // Output of THREE.Object3D.toJSON() for the object's mesh (geometry, material, textures)
+  mesh: unknown;
+  position: Tuple3;
+  rotation: Tuple3;
+  scale: Tuple3;
+  color: Tuple3;
+  visible: boolean;
+  features?: SerializedFeature[];
+}
+
+// Features whose params are plain JSON are stored as they are
+type PlainFeature = Exclude<
+  Feature,
+  ExtrudeFeature | RevolveFeature | SweepFeature | LoftFeature | BooleanFeature | ImportFeature
+>;
+
+// The others are stored with their params made JSON-safe (sketches, nested operands, geometry)
+interface EncodedFeature {
+  id: string;
+  type: Exclude<Feature['type'], PlainFeature['type']>;
+  params: Record<string, unknown>;
+}
+
+type SerializedFeature = PlainFeature | EncodedFeature;
+
+interface SerializedSketch {
+  id: string;
+  type: SketchShape3D['type'];
+  closed: boolean;
+  points: Array<{
+    id: string;
+    position: Tuple3;
+    onSurface?: boolean;
+    surfaceNormal?: Tuple3;
+  }>;
+  workplane?: { normal: Tuple3; constant: number };
+  normal?: Tuple3;
+  group?: string;
+}
+
+interface SerializedMeasurement extends Omit<Measurement, 'points'> {
+  points: Tuple3[];
+}
+
+export interface ProjectFileJSON {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  metadata: {
+    savedAt: string;
+    renderer: string;
+  };
+  objects: SerializedObject[];
+  sketches: SerializedSketch[];
+  // Added after version 1 shipped; older files simply have no constraints
+  sketchConstraints?: SketchConstraint[];
+  measurements: SerializedMeasurement[];
+  lightSettings: LightSettings;
+  gridSettings: Omit<GridSettings, 'color'> & { color: Tuple3 };
+  // Version 2: the project unit and display precision
+  units: UnitSettings;
+}
+
+const toTuple = (v: { x: number; y: number; z: number }): Tuple3 => [v.x, v.y, v.z];
+
+export class ProjectSerializer {
+  /**
+   * Serializes the full scene state into a versioned project file.
+   * Geometry is written as raw buffer attributes so that any transforms baked into
+   * a geometry (extrusions, offsets, imports) survive the round trip.
+   * @param data The scene state to save.
+   * @returns The project file contents as a JSON string.
+   */
+  static serialize(data: ProjectData): string {
+    const file: ProjectFileJSON = {
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      metadata: {
+        savedAt: new Date().toISOString(),
+        renderer: 'Three.js'
+      },
+      objects: data.objects.map(obj => this.serializeObject(obj)),
+      sketches: data.sketches.map(shape => this.serializeSketch(shape)),
+      sketchConstraints: data.sketchConstraints,
+      measurements: data.measurements.map(m => ({ ...m, points: m.points.map(toTuple) })),
+      lightSettings: data.lightSettings,
+      gridSettings: { ...data.gridSettings, color: toTuple(data.gridSettings.color) },
+      units: data.units
+    };
+
+    return JSON.stringify(file);
+  }
+
+  /**
+   * Parses a project file and rebuilds the scene state it describes.
+   * @param text The project file contents.
+   * @returns The restored scene state.
+   * @throws If the file is not a project file or was written by a newer version.
+   */
+  static async deserialize(text: string): Promise<ProjectData> {
+    let json: ProjectFileJSON;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error('Project file is not valid JSON');
+    }
+
+    if (!json || json.format !== PROJECT_FORMAT) {
+      throw new Error('File is not a CAD project file');
+    }
+    if (typeof json.version !== 'number' || json.version > PROJECT_VERSION) {
+      throw new Error(`Unsupported project version: ${json.version}`);
+    }
+    json = this.migrate(json);
+
+    const loader = new THREE.ObjectLoader();
+    const objects = await Promise.all(json.objects.map(obj => this.deserializeObject(obj, loader)));
+
+    return {
+      objects,
+      sketches: (json.sketches || []).map(shape => this.deserializeSketch(shape)),
+      sketchConstraints: json.sketchConstraints || [],
+      measurements: (json.measurements || []).map(m => ({
+        ...m,
+        points: m.points.map(p => new Vec3(...p))
+      })),
+      lightSettings: json.lightSettings,
+      gridSettings: { ...json.gridSettings, color: new Vec3(...json.gridSettings.color) },
+      units: json.units
+    };
+  }
+
+  // Brings files written by older versions up to the current layout, one version at a time
+  private static migrate(json: ProjectFileJSON): ProjectFileJSON {
+    if (json.version < 2) {
+      // Version 1 had no unit setting; everything was shown in millimetres
+      json = { ...json, version: 2, units: DEFAULT_UNIT_SETTINGS };
+    }
+    return json;
+  }
+
+  private static serializeObject(obj: RenderObject): SerializedObject {
+    // Copy into a plain BufferGeometry: parametric geometries (Box, Extrude...) would otherwise
+    // serialize only their constructor parameters and lose any matrix applied afterwards.
+    const geometry = new THREE.BufferGeometry().copy(obj.mesh.geometry);
+    const mesh = new THREE.Mesh(geometry, obj.mesh.material);
+    mesh.name = obj.mesh.name;
+
+    return {
+      id: obj.id,
+      name: obj.name,
+      hierarchy: obj.hierarchy,
+      mesh: mesh.toJSON(),
+      position: toTuple(obj.position),
+      rotation: toTuple(obj.rotation),
+      scale: toTuple(obj.scale),
+      color: toTuple(obj.color),
+      visible: obj.visible,
+      features: obj.features?.map(feature => this.serializeFeature(feature, obj.mesh.geometry))
+    };
+  }
+
+  private static serializeFeature(feature: Feature, meshGeometry?: THREE.BufferGeometry): SerializedFeature {
+    const { id } = feature;
+    switch (feature.type) {
+      case 'extrude':
+      case 'revolve':
+      case 'sweep':
+      case 'loft':
+        return {
+          id, type: feature.type,
+          params: { ...feature.params, sketch: feature.params.sketch.map(shape => this.serializeSketch(shape)) }
+        };
+      case 'boolean':
+        return {
+          id, type: feature.type,
+          params: {
+            ...feature.params,
+            operands: feature.params.operands.map(operand => ({
+              matrix: operand.matrix,
+              features: operand.features.map(f => this.serializeFeature(f))
+            }))
+          }
+        };
+      case 'import':
+        // An untouched import shares its geometry with the mesh, which is already saved
+        return {
+          id, type: feature.type,
+          params: {
+            name: feature.params.name,
+            geometry: feature.params.geometry === meshGeometry ? null : feature.params.geometry.toJSON()
+          }
+        };
+      default:
+        return feature;
+    }
+  }
+
+  private static deserializeFeature(
+    data: SerializedFeature,
+    loader: THREE.BufferGeometryLoader,
+    meshGeometry?: THREE.BufferGeometry
+  ): Feature {
+    switch (data.type) {
+      case 'extrude':
+      case 'revolve':
+      case 'sweep':
+      case 'loft': {
+        const params = data.params;
+        return {
+          id: data.id,
+          type: data.type,
+          params: {
+            ...(params as object),
+            sketch: (params.sketch as SerializedSketch[]).map(shape => this.deserializeSketch(shape))
+          }
+        } as Feature;
+      }
+      case 'boolean': {
+        const params = data.params;
+        return {
+          id: data.id,
+          type: 'boolean',
+          params: {
+            ...(params as object),
+            operands: (params.operands as Array<{ matrix: number[]; features: SerializedFeature[] }>).map(operand => ({
+              matrix: operand.matrix,
+              features: operand.features.map(f => this.deserializeFeature(f, loader))
+            }))
+          }
+        } as Feature;
+      }
+      case 'import': {
+        const params = data.params;
+        const geometry = params.geometry ? loader.parse(params.geometry) : meshGeometry;
+        if (!geometry) {
+          throw new Error(`Imported feature ${data.id} has no geometry`);
+        }
+        return { id: data.id, type: 'import', params: { name: params.name as string, geometry } };
+      }
+      default:
+        return data;
+    }
+  }
+
+  private static async deserializeObject(data: SerializedObject, loader: THREE.ObjectLoader): Promise<RenderObject> {
+    const loaded = await loader.parseAsync(data.mesh);
+    if (!(loaded instanceof THREE.Mesh)) {
+      throw new Error(`Object ${data.id} does not contain a mesh`);
+    }
+
+    const mesh = loaded as THREE.Mesh;
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    mesh.userData = { id: data.id };
+
+    const geometryLoader = new THREE.BufferGeometryLoader();
+    const features = data.features?.map(feature => this.deserializeFeature(feature, geometryLoader, mesh.geometry));
+
+    return {
+      id: data.id,
+      name: data.name,
+      hierarchy: data.hierarchy,
+      mesh,
+      position: new Vec3(...data.position),
+      rotation: new Vec3(...data.rotation),
+      scale: new Vec3(...data.scale),
+      color: new Vec3(...data.color),
+      selected: false,
+      visible: data.visible,
+      features
+    };
+  }
+
+  private static serializeSketch(shape: SketchShape3D): SerializedSketch {
+    return {
+      id: shape.id,
+      type: shape.type,
+      closed: shape.closed,
+      points: shape.points.map(p => ({
+        id: p.id,
+        position: toTuple(p.position),
+        onSurface: p.onSurface,
+        surfaceNormal: p.surfaceNormal ? toTuple(p.surfaceNormal) : undefined
+      })),
+      workplane: shape.workplane
+        ? { normal: toTuple(shape.workplane.normal), constant: shape.workplane.constant }
+        : undefined,
+      normal: shape.normal ? toTuple(shape.normal) : undefined,
+      group: shape.group
+    };
+  }
+
+  private static deserializeSketch(data: SerializedSketch): SketchShape3D {
+    return {
+      id: data.id,
+      type: data.type,
+      closed: data.closed,
+      points: data.points.map(p => ({
+        id: p.id,
+        position: new THREE.Vector3(...p.position),
+        onSurface: p.onSurface,
+        surfaceNormal: p.surfaceNormal ? new THREE.Vector3(...p.surfaceNormal) : undefined
+      })),
+      workplane: data.workplane
+        ? new THREE.Plane(new THREE.Vector3(...data.workplane.normal), data.workplane.constant)
+        : undefined,
+      normal: data.normal ? new THREE.Vector3(...data.normal) : undefined,
+      group: data.group
+    };
+  }
+}
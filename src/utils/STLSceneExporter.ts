@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { STLExporter } from 'three/addons/exporters/STLExporter.js';
+import { RenderObject } from '../three/ThreeRenderer';
+import { createZip } from './zip';
+import { LengthUnit, MM_PER_UNIT } from './units';
+
+export interface STLExportOptions {
+  binary: boolean;
+  // One STL per object, bundled into a zip archive
+  perObject: boolean;
+  unit: LengthUnit;
+}
+
+export interface ExportedFile {
+  data: BlobPart;
+  filename: string;
+  mimeType: string;
+}
+
+export class STLSceneExporter {
+  /**
+   * Writes objects as STL with their transforms applied, scaled into the output unit.
+   * @param objects The objects to write.
+   * @param options Binary or ASCII, one file or one per object (zipped), output unit.
+   * @param baseName Filename without extension.
+   * @returns The file to download.
+   */
+  static export(objects: RenderObject[], options: STLExportOptions, baseName: string): ExportedFile {
+    if (objects.length === 0) {
+      throw new Error('There are no objects to export');
+    }
+
+    const exporter = new STLExporter();
+    const write = (items: RenderObject[]): Uint8Array => {
+      const root = new THREE.Group();
+      // Scene units are millimetres
+      root.scale.setScalar(1 / MM_PER_UNIT[options.unit]);
+      items.forEach(obj => {
+        const mesh = new THREE.Mesh(obj.mesh.geometry);
+        mesh.position.set(obj.position.x, obj.position.y, obj.position.z);
+        mesh.rotation.set(obj.rotation.x, obj.rotation.y, obj.rotation.z);
+        mesh.scale.set(obj.scale.x, obj.scale.y, obj.scale.z);
+        root.add(mesh);
+      });
+      root.updateMatrixWorld(true);
+
+      if (options.binary) {
+        const view = exporter.parse(root, { binary: true });
+        return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+      }
+      return new TextEncoder().encode(exporter.parse(root, { binary: false }));
+    };
+
+    if (!options.perObject) {
+      return { data: write(objects), filename: `${baseName}.stl`, mimeType: 'model/stl' };
+    }
+
+    const entries: Record<string, Uint8Array> = {};
+    objects.forEach(obj => {
+      const name = (obj.name || obj.id).replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+      let filename = `${name}.stl`;
+      for (let n = 2; entries[filename]; n++) filename = `${name}-${n}.stl`;
+      entries[filename] = write([obj]);
+    });
+    return { data: createZip(entries), filename: `${baseName}.zip`, mimeType: 'application/zip' };
+  }
+}
@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
+import { SketchShape3D } from './sketch3d';
+import { DrawingPath, SketchPlane, pathsToSketch } from './importedSketch';
+
+// Points per curve segment (bezier or arc) when flattening paths
+const CURVE_DIVISIONS = 12;
+
+export interface SVGImportResult {
+  shapes: SketchShape3D[];
+  // Closed subpaths that were recognised as holes of a filled outline
+  holes: number;
+}
+
+export class SVGImporter {
+  /**
+   * Converts the paths of an SVG document into sketch shapes on a workplane. Beziers and
+   * arcs are flattened and element transforms applied. Filled paths are split into
+   * outlines and holes using the path's fill rule; unfilled paths keep their open or
+   * closed subpaths as drawn. The drawing is centred on the origin, y up, and scaled so
+   * its larger side is `targetSize` millimetres.
+   * @param text The SVG file contents.
+   * @param plane The workplane the drawing is placed on.
+   * @param targetSize Size of the drawing's larger side in millimetres; keeps SVG user units when missing.
+   * @param name Group name for paths without an id.
+   */
+  static import(text: string, plane: SketchPlane, targetSize: number | undefined, name: string): SVGImportResult {
+    const data = new SVGLoader().parse(text);
+
+    const paths: DrawingPath[] = [];
+    let holes = 0;
+    data.paths.forEach((shapePath, i) => {
+      const node = shapePath.userData?.node as Element | undefined;
+      const group = node?.getAttribute('id') || `${name} ${i + 1}`;
+      const fill = shapePath.userData?.style?.fill;
+
+      if (fill !== undefined && fill !== 'none') {
+        SVGLoader.createShapes(shapePath).forEach(shape => {
+          const { shape: outline, holes: inner } = shape.extractPoints(CURVE_DIVISIONS);
+          paths.push({ points: this.dropClosingPoint(outline), closed: true, group });
+          inner.forEach(hole => paths.push({ points: this.dropClosingPoint(hole), closed: true, group }));
+          holes += inner.length;
+        });
+        return;
+      }
+
+      // Outlines drawn with strokes only: keep every subpath, closed or not
+      shapePath.subPaths.forEach(subPath => {
+        const points = subPath.getPoints(CURVE_DIVISIONS);
+        const closed = subPath.autoClose || (points.length > 2 && points[0].distanceTo(points[points.length - 1]) < 1e-9);
+        paths.push({ points: closed ? this.dropClosingPoint(points) : points, closed, group });
+      });
+    });
+
+    const usable = paths.filter(path => path.points.length >= (path.closed ? 3 : 2));
+    if (usable.length === 0) {
+      throw new Error('The SVG contains no paths');
+    }
+
+    // SVG y points down; flip it, centre the drawing and scale it to the target size
+    const bounds = new THREE.Box2().setFromPoints(usable.flatMap(path => path.points));
+    const center = bounds.getCenter(new THREE.Vector2());
+    const size = bounds.getSize(new THREE.Vector2());
+    const largest = Math.max(size.x, size.y);
+    const scale = targetSize && largest > 0 ? targetSize / largest : 1;
+    usable.forEach(path => path.points.forEach(p => p.set((p.x - center.x) * scale, (center.y - p.y) * scale)));
+
+    return { shapes: pathsToSketch(usable, plane, 'svg'), holes };
+  }
+
+  private static dropClosingPoint(points: THREE.Vector2[]): THREE.Vector2[] {
+    return points.length > 3 && points[0].distanceTo(points[points.length - 1]) < 1e-9 ? points.slice(0, -1) : points;
+  }
+}
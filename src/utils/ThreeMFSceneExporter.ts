@@ -0,0 +1,148 @@
+import * as THREE from 'three';
+import { RenderObject } from '../three/ThreeRenderer';
+import { ExportedFile } from './STLSceneExporter';
+import { createZip } from './zip';
+import { LengthUnit, MM_PER_UNIT } from './units';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+// 3MF names of the project units
+const THREEMF_UNIT_NAMES: Record<LengthUnit, string> = {
+  mm: 'millimeter',
+  cm: 'centimeter',
+  m: 'meter',
+  in: 'inch',
+  ft: 'foot'
+};
+
+// The scene is Y-up; 3MF is Z-up with the build plate on XY. Turning 90° about X maps scene +Y to 3MF +Z.
+const SCENE_TO_THREEMF = new THREE.Matrix4().makeRotationX(Math.PI / 2);
+
+const escapeXML = (value: string) => value.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+// Short decimal form; 3MF readers parse plain decimals and reject exponents
+const formatNumber = (value: number) => {
+  const rounded = Math.abs(value) < 1e-9 ? 0 : value;
+  return String(+rounded.toFixed(6));
+};
+
+export class ThreeMFSceneExporter {
+  /**
+   * Writes the visible objects as a 3MF package in the given unit. Each object becomes a
+   * 3MF object with its name and display color, in its own coordinates; the position,
+   * rotation and scale, turned from Y-up to Z-up, are written as the build item transform.
+   * @param objects The scene objects; hidden ones are skipped.
+   * @param baseName Filename without extension.
+   * @param unit Unit of the model; the scene is scaled from millimetres into it.
+   * @returns The file to download.
+   */
+  static export(objects: RenderObject[], baseName: string, unit: LengthUnit = 'mm'): ExportedFile {
+    const visible = objects.filter(obj => obj.visible);
+    if (visible.length === 0) {
+      throw new Error('There are no objects to export');
+    }
+
+    const scale = 1 / MM_PER_UNIT[unit];
+    const bases: string[] = [];
+    const resources: string[] = [];
+    const items: string[] = [];
+    visible.forEach((obj, i) => {
+      const id = i + 2; // id 1 is the base material group
+      const name = escapeXML(obj.name || obj.id);
+      // displaycolor is sRGB; getHexString converts from the linear working space
+      const alpha = Math.round(((obj.color as { w?: number }).w ?? 1) * 255);
+      const color = new THREE.Color(obj.color.x, obj.color.y, obj.color.z).getHexString().toUpperCase();
+      bases.push(`      <base name="${name}" displaycolor="#${color}${alpha.toString(16).padStart(2, '0').toUpperCase()}"/>`);
+
+      resources.push(
+        `    <object id="${id}" type="model" name="${name}" pid="1" pindex="${i}">`,
+        '      <mesh>',
+        ...this.writeMesh(obj.mesh.geometry, scale),
+        '      </mesh>',
+        '    </object>'
+      );
+
+      const matrix = new THREE.Matrix4().compose(
+        new THREE.Vector3(obj.position.x, obj.position.y, obj.position.z).multiplyScalar(scale),
+        new THREE.Quaternion().setFromEuler(new THREE.Euler(obj.rotation.x, obj.rotation.y, obj.rotation.z)),
+        new THREE.Vector3(obj.scale.x, obj.scale.y, obj.scale.z)
+      ).premultiply(SCENE_TO_THREEMF);
+      // Row-major 3x4 for row vectors is the column-major Matrix4 without its last row
+      const transform = [0, 1, 2, 4, 5, 6, 8, 9, 10, 12, 13, 14].map(e => formatNumber(matrix.elements[e])).join(' ');
+      items.push(`    <item objectid="${id}" transform="${transform}"/>`);
+    });
+
+    const model = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<model unit="${THREEMF_UNIT_NAMES[unit]}" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">`,
+      `  <metadata name="Title">${escapeXML(baseName)}</metadata>`,
+      '  <resources>',
+      '    <basematerials id="1">',
+      ...bases,
+      '    </basematerials>',
+      ...resources,
+      '  </resources>',
+      '  <build>',
+      ...items,
+      '  </build>',
+      '</model>',
+      ''
+    ].join('\n');
+
+    const encoder = new TextEncoder();
+    const data = createZip({
+      '[Content_Types].xml': encoder.encode(CONTENT_TYPES),
+      '_rels/.rels': encoder.encode(RELATIONSHIPS),
+      '3D/3dmodel.model': encoder.encode(model)
+    });
+    return { data, filename: `${baseName}.3mf`, mimeType: 'model/3mf' };
+  }
+
+  // 3MF meshes share vertices between triangles, so coincident corners are merged
+  private static writeMesh(geometry: THREE.BufferGeometry, scale: number): string[] {
+    const position = geometry.getAttribute('position');
+    const index = geometry.getIndex();
+    const vertices: string[] = [];
+    const lookup = new Map<string, number>();
+    const vertexIndex = (i: number) => {
+      const key = [position.getX(i), position.getY(i), position.getZ(i)].map(value => formatNumber(value * scale)).join(' ');
+      let v = lookup.get(key);
+      if (v === undefined) {
+        v = vertices.length;
+        lookup.set(key, v);
+        const [x, y, z] = key.split(' ');
+        vertices.push(`          <vertex x="${x}" y="${y}" z="${z}"/>`);
+      }
+      return v;
+    };
+
+    const triangles: string[] = [];
+    const count = index ? index.count : position.count;
+    for (let i = 0; i + 2 < count; i += 3) {
+      const [a, b, c] = [i, i + 1, i + 2].map(j => vertexIndex(index ? index.getX(j) : j));
+      // Triangles collapsed by the merge are invalid in 3MF
+      if (a === b || b === c || a === c) continue;
+      triangles.push(`          <triangle v1="${a}" v2="${b}" v3="${c}"/>`);
+    }
+
+    return [
+      '        <vertices>',
+      ...vertices,
+      '        </vertices>',
+      '        <triangles>',
+      ...triangles,
+      '        </triangles>'
+    ];
+  }
+}
@@ -0,0 +1,504 @@
+import * as THREE from 'three';
+import { SketchShape3D } from './sketch3d';
+
+/**
+ * Refers to part of a sketch shape by index, since point ids are not unique across shapes.
+ * - Points: `index` is the point index in `shape.points`.
+ * - Lines: `index` is the edge from `points[index]` to the next point (wrapping for closed shapes).
+ * - Circles: `index` is ignored; the reference means the circle itself.
+ */
+export interface SketchRef {
+  shapeId: string;
+  index: number;
+}
+
+export type SketchConstraintType =
+  | 'coincident'
+  | 'horizontal'
+  | 'vertical'
+  | 'parallel'
+  | 'perpendicular'
+  | 'tangent'
+  | 'equal'
+  | 'fixed'
+  | 'distance'
+  | 'angle'
+  | 'radius';
+
+export interface SketchConstraint {
+  id: string;
+  type: SketchConstraintType;
+  // Point refs for coincident/distance/fixed, line/circle refs for everything else
+  refs: SketchRef[];
+  // Distance and radius in world units, angle in degrees
+  value?: number;
+  // World position a fixed point is held at
+  target?: [number, number, number];
+}
+
+// 'redundant': every constraint holds, but some only repeat what others already fix;
+// 'over-constrained': the constraints conflict and could not all be satisfied
+export type ConstraintStatus = 'under-constrained' | 'fully-constrained' | 'redundant' | 'over-constrained';
+
+export interface ConstraintSolveResult {
+  shapes: SketchShape3D[];
+  status: ConstraintStatus;
+  // Remaining degrees of freedom (variables minus independent equations)
+  dof: number;
+  // True when every constraint is satisfied within tolerance
+  converged: boolean;
+  // Constraints that are not satisfied after solving (conflicts)
+  unsatisfied: string[];
+  residual: number;
+}
+
+// What each constraint type expects in `refs`
+export const CONSTRAINT_ARITY: Record<SketchConstraintType, { refs: number; kind: 'point' | 'line' | 'circle' | 'line-or-circle'; needsValue: boolean }> = {
+  coincident: { refs: 2, kind: 'point', needsValue: false },
+  horizontal: { refs: 1, kind: 'line', needsValue: false },
+  vertical: { refs: 1, kind: 'line', needsValue: false },
+  parallel: { refs: 2, kind: 'line', needsValue: false },
+  perpendicular: { refs: 2, kind: 'line', needsValue: false },
+  tangent: { refs: 2, kind: 'line-or-circle', needsValue: false },
+  equal: { refs: 2, kind: 'line-or-circle', needsValue: false },
+  fixed: { refs: 1, kind: 'point', needsValue: false },
+  distance: { refs: 2, kind: 'point', needsValue: true },
+  angle: { refs: 2, kind: 'line', needsValue: true },
+  radius: { refs: 1, kind: 'circle', needsValue: true }
+};
+
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-8;
+const JACOBIAN_STEP = 1e-7;
+const RANK_TOLERANCE = 1e-6;
+
+// Solver-side view of the sketch: every point and circle radius becomes a variable
+interface Line2D {
+  a: number; // variable index of the start point's x (y is a + 1)
+  b: number;
+}
+
+interface Circle2D {
+  center: number;
+  radius: number; // variable index
+}
+
+type Residual = (x: Float64Array) => number;
+
+/**
+ * Solves geometric constraints between sketch shapes on their workplane.
+ * Shapes are projected into the workplane's 2D coordinates, solved with a damped
+ * least-squares (Levenberg-Marquardt) iteration, and written back in 3D.
+ */
+export class SketchConstraintSolver {
+  /**
+   * Moves the sketch points so that all constraints hold, changing the sketch as little as possible.
+   * @param shapes The sketch shapes; they are not modified.
+   * @param constraints The constraints to satisfy.
+   * @returns Copies of the shapes at the solved positions plus the constraint status.
+   */
+  static solve(shapes: SketchShape3D[], constraints: SketchConstraint[]): ConstraintSolveResult {
+    const basis = this.getWorkplaneBasis(shapes);
+
+    // Flatten every point into the variable vector. A circle contributes its centre and
+    // radius only: the edge point's direction is meaningless and would be a free DOF.
+    const variables: number[] = [];
+    const pointIndex = new Map<string, number[]>();
+    const heights = new Map<string, number[]>();
+    const circles = new Map<string, Circle2D>();
+    shapes.forEach(shape => {
+      const isCircle = shape.type === 'circle' && shape.points.length >= 2;
+      const points = isCircle ? shape.points.slice(0, 1) : shape.points;
+      pointIndex.set(shape.id, points.map(p => {
+        variables.push(p.position.dot(basis.u), p.position.dot(basis.v));
+        return variables.length - 2;
+      }));
+      heights.set(shape.id, shape.points.map(p => p.position.dot(basis.n)));
+
+      if (isCircle) {
+        variables.push(shape.points[0].position.distanceTo(shape.points[1].position));
+        circles.set(shape.id, { center: variables.length - 3, radius: variables.length - 1 });
+      }
+    });
+
+    const initial = Float64Array.from(variables);
+    const equations: Array<{ constraintId: string; residual: Residual }> = [];
+    constraints.forEach(constraint => {
+      try {
+        this.buildResiduals(constraint, shapes, pointIndex, circles, basis, initial)
+          .forEach(residual => equations.push({ constraintId: constraint.id, residual }));
+      } catch (error) {
+        console.warn(`Skipping constraint ${constraint.id}:`, error);
+      }
+    });
+
+    const x = Float64Array.from(initial);
+    const residual = equations.length > 0 ? this.levenbergMarquardt(x, equations.map(e => e.residual)) : 0;
+
+    const unsatisfied = Array.from(new Set(
+      equations.filter(e => Math.abs(e.residual(x)) > 1e-5).map(e => e.constraintId)
+    ));
+    const converged = unsatisfied.length === 0;
+
+    // Degrees of freedom come from the rank of the constraint Jacobian at the solution
+    const rank = equations.length > 0 ? this.rank(this.jacobian(x, equations.map(e => e.residual))) : 0;
+    const dof = x.length - rank;
+    const redundant = rank < equations.length;
+
+    let status: ConstraintStatus;
+    if (!converged) {
+      status = 'over-constrained';
+    } else if (redundant) {
+      status = 'redundant';
+    } else if (dof > 0) {
+      status = 'under-constrained';
+    } else {
+      status = 'fully-constrained';
+    }
+
+    return {
+      shapes: this.writeBack(shapes, x, pointIndex, heights, circles, basis),
+      status,
+      dof,
+      converged,
+      unsatisfied,
+      residual
+    };
+  }
+
+  /**
+   * Whether a reference points at a circle shape.
+   */
+  static isCircle(shapes: SketchShape3D[], ref: SketchRef): boolean {
+    return shapes.find(s => s.id === ref.shapeId)?.type === 'circle';
+  }
+
+  /**
+   * Number of line edges a shape exposes for constraints (circles expose none).
+   */
+  static edgeCount(shape: SketchShape3D): number {
+    if (shape.type === 'circle') return 0;
+    const n = shape.points.length;
+    if (n < 2) return 0;
+    return shape.closed ? n : n - 1;
+  }
+
+  private static buildResiduals(
+    constraint: SketchConstraint,
+    shapes: SketchShape3D[],
+    pointIndex: Map<string, number[]>,
+    circles: Map<string, Circle2D>,
+    basis: { u: THREE.Vector3; v: THREE.Vector3; n: THREE.Vector3 },
+    initial: Float64Array
+  ): Residual[] {
+    const point = (ref: SketchRef): number => {
+      const index = pointIndex.get(ref.shapeId)?.[ref.index];
+      if (index === undefined) throw new Error(`Unknown point ${ref.shapeId}[${ref.index}]`);
+      return index;
+    };
+    const line = (ref: SketchRef): Line2D => {
+      const shape = shapes.find(s => s.id === ref.shapeId);
+      const indices = pointIndex.get(ref.shapeId);
+      if (!shape || !indices || shape.type === 'circle' || ref.index >= this.edgeCount(shape)) {
+        throw new Error(`Unknown line ${ref.shapeId}[${ref.index}]`);
+      }
+      return { a: indices[ref.index], b: indices[(ref.index + 1) % indices.length] };
+    };
+    const circle = (ref: SketchRef): Circle2D => {
+      const c = circles.get(ref.shapeId);
+      if (!c) throw new Error(`Unknown circle ${ref.shapeId}`);
+      return c;
+    };
+    const dir = (x: Float64Array, l: Line2D) => [x[l.b] - x[l.a], x[l.b + 1] - x[l.a + 1]];
+    const len = (d: number[]) => Math.hypot(d[0], d[1]) || 1e-12;
+
+    const [r0, r1] = constraint.refs;
+    const value = constraint.value ?? 0;
+
+    switch (constraint.type) {
+      case 'coincident': {
+        const a = point(r0);
+        const b = point(r1);
+        return [x => x[a] - x[b], x => x[a + 1] - x[b + 1]];
+      }
+      case 'fixed': {
+        const p = point(r0);
+        const target = constraint.target ? new THREE.Vector3(...constraint.target) : null;
+        const tx = target ? target.dot(basis.u) : initial[p];
+        const ty = target ? target.dot(basis.v) : initial[p + 1];
+        return [x => x[p] - tx, x => x[p + 1] - ty];
+      }
+      case 'horizontal': {
+        const l = line(r0);
+        return [x => x[l.b + 1] - x[l.a + 1]];
+      }
+      case 'vertical': {
+        const l = line(r0);
+        return [x => x[l.b] - x[l.a]];
+      }
+      case 'parallel': {
+        const a = line(r0);
+        const b = line(r1);
+        return [x => {
+          const da = dir(x, a);
+          const db = dir(x, b);
+          return (da[0] * db[1] - da[1] * db[0]) / (len(da) * len(db));
+        }];
+      }
+      case 'perpendicular': {
+        const a = line(r0);
+        const b = line(r1);
+        return [x => {
+          const da = dir(x, a);
+          const db = dir(x, b);
+          return (da[0] * db[0] + da[1] * db[1]) / (len(da) * len(db));
+        }];
+      }
+      case 'angle': {
+        const a = line(r0);
+        const b = line(r1);
+        const target = THREE.MathUtils.degToRad(value);
+        return [x => {
+          const da = dir(x, a);
+          const db = dir(x, b);
+          const angle = Math.atan2(da[0] * db[1] - da[1] * db[0], da[0] * db[0] + da[1] * db[1]);
+          // Wrap the difference so 359° and -1° count as the same angle
+          return Math.atan2(Math.sin(angle - target), Math.cos(angle - target));
+        }];
+      }
+      case 'equal': {
+        if (this.isCircle(shapes, r0) && this.isCircle(shapes, r1)) {
+          const a = circle(r0);
+          const b = circle(r1);
+          return [x => x[a.radius] - x[b.radius]];
+        }
+        const a = line(r0);
+        const b = line(r1);
+        return [x => len(dir(x, a)) - len(dir(x, b))];
+      }
+      case 'distance': {
+        const a = point(r0);
+        const b = point(r1);
+        return [x => Math.hypot(x[a] - x[b], x[a + 1] - x[b + 1]) - value];
+      }
+      case 'radius': {
+        const c = circle(r0);
+        return [x => x[c.radius] - value];
+      }
+      case 'tangent': {
+        const circle0 = this.isCircle(shapes, r0);
+        const circle1 = this.isCircle(shapes, r1);
+        if (circle0 && circle1) {
+          const a = circle(r0);
+          const b = circle(r1);
+          // Keep whichever tangency (external or internal) the sketch is closer to
+          const d0 = Math.hypot(initial[a.center] - initial[b.center], initial[a.center + 1] - initial[b.center + 1]);
+          const internal = Math.abs(d0 - Math.abs(initial[a.radius] - initial[b.radius])) < Math.abs(d0 - (initial[a.radius] + initial[b.radius]));
+          return [x => {
+            const d = Math.hypot(x[a.center] - x[b.center], x[a.center + 1] - x[b.center + 1]);
+            return internal ? d - Math.abs(x[a.radius] - x[b.radius]) : d - (x[a.radius] + x[b.radius]);
+          }];
+        }
+        if (circle0 === circle1) {
+          throw new Error('Tangent needs a circle and a line or two circles');
+        }
+        const l = line(circle0 ? r1 : r0);
+        const c = circle(circle0 ? r0 : r1);
+        // Signed distance keeps the circle on the side of the line it started on
+        const signedDistance = (x: Float64Array) => {
+          const d = dir(x, l);
+          return (d[0] * (x[c.center + 1] - x[l.a + 1]) - d[1] * (x[c.center] - x[l.a])) / len(d);
+        };
+        const side = Math.sign(signedDistance(initial)) || 1;
+        return [x => side * signedDistance(x) - x[c.radius]];
+      }
+    }
+  }
+
+  /**
+   * Minimises the sum of squared residuals in place. Damping keeps steps small, so
+   * under-constrained sketches move as little as possible from where they were drawn.
+   * @returns The final residual norm.
+   */
+  private static levenbergMarquardt(x: Float64Array, residuals: Residual[]): number {
+    const evaluate = (v: Float64Array) => residuals.map(r => r(v));
+    const norm = (r: number[]) => Math.sqrt(r.reduce((sum, value) => sum + value * value, 0));
+
+    let r = evaluate(x);
+    let error = norm(r);
+    let lambda = 1e-3;
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS && error > TOLERANCE; iteration++) {
+      const J = this.jacobian(x, residuals);
+      const n = x.length;
+
+      // Normal equations: (JᵀJ + λ·diag) δ = -Jᵀr
+      const A: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+      const g = new Array(n).fill(0);
+      for (let i = 0; i < J.length; i++) {
+        const row = J[i];
+        for (let j = 0; j < n; j++) {
+          if (row[j] === 0) continue;
+          g[j] += row[j] * r[i];
+          for (let k = 0; k < n; k++) {
+            A[j][k] += row[j] * row[k];
+          }
+        }
+      }
+
+      let improved = false;
+      while (!improved && lambda < 1e12) {
+        const damped = A.map((row, j) => row.map((value, k) => (j === k ? value + lambda * (1 + value) : value)));
+        const delta = this.solveLinear(damped, g.map(value => -value));
+        if (!delta) {
+          lambda *= 10;
+          continue;
+        }
+
+        const candidate = Float64Array.from(x, (value, j) => value + delta[j]);
+        const candidateResiduals = evaluate(candidate);
+        const candidateError = norm(candidateResiduals);
+        if (candidateError < error) {
+          x.set(candidate);
+          r = candidateResiduals;
+          error = candidateError;
+          lambda = Math.max(lambda / 3, 1e-12);
+          improved = true;
+        } else {
+          lambda *= 4;
+        }
+      }
+
+      if (!improved) break; // Stuck in a minimum that does not satisfy everything
+    }
+
+    return error;
+  }
+
+  private static jacobian(x: Float64Array, residuals: Residual[]): number[][] {
+    const probe = Float64Array.from(x);
+    const base = residuals.map(r => r(x));
+    const J: number[][] = residuals.map(() => new Array(x.length).fill(0));
+    for (let j = 0; j < x.length; j++) {
+      const h = JACOBIAN_STEP * Math.max(1, Math.abs(x[j]));
+      probe[j] = x[j] + h;
+      residuals.forEach((r, i) => {
+        J[i][j] = (r(probe) - base[i]) / h;
+      });
+      probe[j] = x[j];
+    }
+    return J;
+  }
+
+  // Gaussian elimination with partial pivoting; null if the system is singular
+  private static solveLinear(A: number[][], b: number[]): number[] | null {
+    const n = b.length;
+    const M = A.map((row, i) => [...row, b[i]]);
+    for (let col = 0; col < n; col++) {
+      let pivot = col;
+      for (let row = col + 1; row < n; row++) {
+        if (Math.abs(M[row][col]) > Math.abs(M[pivot][col])) pivot = row;
+      }
+      if (Math.abs(M[pivot][col]) < 1e-14) return null;
+      [M[col], M[pivot]] = [M[pivot], M[col]];
+      for (let row = col + 1; row < n; row++) {
+        const factor = M[row][col] / M[col][col];
+        if (factor === 0) continue;
+        for (let k = col; k <= n; k++) M[row][k] -= factor * M[col][k];
+      }
+    }
+    const result = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+      let sum = M[row][n];
+      for (let k = row + 1; k < n; k++) sum -= M[row][k] * result[k];
+      result[row] = sum / M[row][row];
+    }
+    return result;
+  }
+
+  private static rank(matrix: number[][]): number {
+    const M = matrix.map(row => row.slice());
+    const rows = M.length;
+    const cols = rows > 0 ? M[0].length : 0;
+    const scale = Math.max(1, ...M.map(row => Math.max(...row.map(Math.abs))));
+    let rank = 0;
+    for (let col = 0; col < cols && rank < rows; col++) {
+      let pivot = rank;
+      for (let row = rank + 1; row < rows; row++) {
+        if (Math.abs(M[row][col]) > Math.abs(M[pivot][col])) pivot = row;
+      }
+      if (Math.abs(M[pivot][col]) <= RANK_TOLERANCE * scale) continue;
+      [M[rank], M[pivot]] = [M[pivot], M[rank]];
+      for (let row = rank + 1; row < rows; row++) {
+        const factor = M[row][col] / M[rank][col];
+        for (let k = col; k < cols; k++) M[row][k] -= factor * M[rank][k];
+      }
+      rank++;
+    }
+    return rank;
+  }
+
+  /**
+   * Orthonormal basis of the sketch plane. Uses the shapes' workplane or normal and
+   * falls back to the horizontal plane SketchEngine3D creates, where u = +X and v = -Z.
+   */
+  private static getWorkplaneBasis(shapes: SketchShape3D[]): { u: THREE.Vector3; v: THREE.Vector3; n: THREE.Vector3 } {
+    const withPlane = shapes.find(s => s.workplane || s.normal);
+    const n = (withPlane?.workplane?.normal ?? withPlane?.normal ?? new THREE.Vector3(0, 1, 0)).clone().normalize();
+
+    const axes = [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)];
+    const reference = axes.reduce((best, axis) => (Math.abs(axis.dot(n)) < Math.abs(best.dot(n)) ? axis : best));
+    const u = reference.clone().sub(n.clone().multiplyScalar(reference.dot(n))).normalize();
+    const v = new THREE.Vector3().crossVectors(n, u).normalize();
+    return { u, v, n };
+  }
+
+  private static writeBack(
+    shapes: SketchShape3D[],
+    x: Float64Array,
+    pointIndex: Map<string, number[]>,
+    heights: Map<string, number[]>,
+    circles: Map<string, Circle2D>,
+    basis: { u: THREE.Vector3; v: THREE.Vector3; n: THREE.Vector3 }
+  ): SketchShape3D[] {
+    const toWorld = (px: number, py: number, h: number) =>
+      basis.u.clone().multiplyScalar(px)
+        .addScaledVector(basis.v, py)
+        .addScaledVector(basis.n, h);
+
+    return shapes.map(shape => {
+      const h = heights.get(shape.id)!;
+
+      // A circle's edge point only encodes the radius: keep its direction, use the solved radius
+      const circle = circles.get(shape.id);
+      if (circle) {
+        const center = shape.points[0].position;
+        const edge = shape.points[1].position;
+        const ex = edge.dot(basis.u) - center.dot(basis.u);
+        const ey = edge.dot(basis.v) - center.dot(basis.v);
+        const length = Math.hypot(ex, ey) || 1;
+        const radius = Math.abs(x[circle.radius]);
+        const cx = x[circle.center];
+        const cy = x[circle.center + 1];
+        return {
+          ...shape,
+          points: shape.points.map((p, i) => ({
+            ...p,
+            position: i === 0
+              ? toWorld(cx, cy, h[0])
+              : toWorld(cx + (ex / length) * radius, cy + (ey / length) * radius, h[i])
+          }))
+        };
+      }
+
+      const indices = pointIndex.get(shape.id)!;
+      return {
+        ...shape,
+        points: shape.points.map((p, i) => ({
+          ...p,
+          position: toWorld(x[indices[i]], x[indices[i] + 1], h[i])
+        }))
+      };
+    });
+  }
+}
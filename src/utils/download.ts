@@ -0,0 +1,29 @@
+/**
+ * Triggers a browser download for in-memory data.
+ * @param data The file contents (text, binary buffer or an existing Blob).
+ * @param filename The suggested filename for the download.
+ * @param mimeType The MIME type written to the Blob.
+ */
+export function downloadFile(data: BlobPart, filename: string, mimeType: string): void {
+  const blob = data instanceof Blob ? data : new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads a user-selected file as text.
+ */
+export function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(new Error('Failed to read file as text'));
+    reader.readAsText(file);
+  });
+}
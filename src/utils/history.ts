@@ -0,0 +1,157 @@
+import { RenderObject } from '../three/ThreeRenderer';
+
+export interface Command {
+  label: string;
+  execute(): void;
+  undo(): void;
+  /**
+   * Optionally absorbs a follow-up command (e.g. consecutive gizmo drags) into this one.
+   * @returns true if `next` was merged and should not be pushed separately.
+   */
+  merge?(next: Command): boolean;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[];
+  // Number of entries currently applied; entries at or after this index are redoable
+  position: number;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+interface StackItem {
+  entry: HistoryEntry;
+  command: Command;
+}
+
+// Commands executed within this window of the previous one may be merged into it
+const MERGE_WINDOW_MS = 1000;
+const DEFAULT_LIMIT = 100;
+
+export class CommandHistory {
+  private items: StackItem[] = [];
+  private position = 0;
+  private nextId = 1;
+  private listeners = new Set<() => void>();
+
+  constructor(private limit: number = DEFAULT_LIMIT) {}
+
+  execute(command: Command): void {
+    command.execute();
+
+    // A new edit discards anything that was undone
+    this.items = this.items.slice(0, this.position);
+
+    const now = Date.now();
+    const last = this.items[this.items.length - 1];
+    if (last && now - last.entry.timestamp < MERGE_WINDOW_MS && last.command.merge?.(command)) {
+      last.entry = { ...last.entry, timestamp: now };
+    } else {
+      this.items.push({
+        entry: { id: this.nextId++, label: command.label, timestamp: now },
+        command
+      });
+      if (this.items.length > this.limit) {
+        this.items.shift();
+      }
+    }
+
+    this.position = this.items.length;
+    this.notify();
+  }
+
+  undo(): boolean {
+    if (this.position === 0) return false;
+    this.position--;
+    this.items[this.position].command.undo();
+    this.notify();
+    return true;
+  }
+
+  redo(): boolean {
+    if (this.position >= this.items.length) return false;
+    this.items[this.position].command.execute();
+    this.position++;
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Undoes or redoes until exactly `position` entries are applied.
+   */
+  goTo(position: number): void {
+    const target = Math.max(0, Math.min(this.items.length, position));
+    while (this.position > target) {
+      this.position--;
+      this.items[this.position].command.undo();
+    }
+    while (this.position < target) {
+      this.items[this.position].command.execute();
+      this.position++;
+    }
+    this.notify();
+  }
+
+  clear(): void {
+    this.items = [];
+    this.position = 0;
+    this.notify();
+  }
+
+  getState(): HistoryState {
+    return {
+      entries: this.items.map(item => item.entry),
+      position: this.position,
+      canUndo: this.position > 0,
+      canRedo: this.position < this.items.length
+    };
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Records a change to the scene's object list as a before/after pair.
+ * Objects are immutable records holding mesh references, so keeping both arrays is
+ * cheap and also covers geometry edits (offsets etc.), which swap in a new mesh.
+ */
+export class SceneCommand implements Command {
+  constructor(
+    public label: string,
+    private before: RenderObject[],
+    private after: RenderObject[],
+    private apply: (objects: RenderObject[]) => void,
+    private mergeKey?: string
+  ) {}
+
+  execute(): void {
+    this.apply(this.after);
+  }
+
+  undo(): void {
+    this.apply(this.before);
+  }
+
+  merge(next: Command): boolean {
+    if (!this.mergeKey || !(next instanceof SceneCommand) || next.mergeKey !== this.mergeKey) {
+      return false;
+    }
+    this.after = next.after;
+    return true;
+  }
+}
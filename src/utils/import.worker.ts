@@ -0,0 +1,49 @@
+import { MeshFormat, TransferredFile, packImportedFile, parseMeshFile } from './meshParsers';
+import { RepairOptions, repairImportedFile } from './meshRepair';
+
+// Parses and checks one mesh file off the main thread. The page posts the File itself; progress
+// counts the bytes read (first half) and parsed (second half), so it reaches the file
+// size once the result is posted.
+
+export interface ImportJob {
+  file: File;
+  format: MeshFormat;
+  repair?: RepairOptions;
+}
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; bytes: number }
+  | { type: 'done'; file: TransferredFile }
+  | { type: 'error'; message: string };
+
+// The DOM lib types `self` as a window; only the worker-side postMessage is used here
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ImportJob>) => void) | null;
+  postMessage(message: ImportWorkerMessage, transfer?: Transferable[]): void;
+};
+
+async function read(file: File, onProgress: (bytes: number) => void): Promise<ArrayBuffer> {
+  const data = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let offset = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    data.set(value, offset);
+    offset += value.length;
+    onProgress(offset);
+  }
+  return data.buffer;
+}
+
+scope.onmessage = async ({ data: job }) => {
+  try {
+    const buffer = await read(job.file, bytes => scope.postMessage({ type: 'progress', bytes: bytes / 2 }));
+    const imported = parseMeshFile(job.format, buffer, job.file.name, bytes =>
+      scope.postMessage({ type: 'progress', bytes: (job.file.size + bytes) / 2 }));
+    const { data, transfer } = packImportedFile(repairImportedFile(imported, job.repair));
+    scope.postMessage({ type: 'done', file: data }, transfer);
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
@@ -0,0 +1,55 @@
+import * as THREE from 'three';
+import type { ImportedFile } from './FileLoader';
+import { LengthUnit, MM_PER_UNIT } from './units';
+
+// Plausible size range, in millimetres, of the largest side of an imported model
+const SMALLEST_LIKELY_PART = 5;
+const LARGEST_LIKELY_PART = 2000;
+// Units tried for files without declared units, from most to least likely; centimetres
+// come before inches as the default of many modelling tools
+const GUESSED_UNITS: LengthUnit[] = ['mm', 'cm', 'in', 'm'];
+
+/**
+ * Bounds of all meshes of an imported file, placed by their matrices, in file units.
+ */
+export function importedBounds(file: ImportedFile): THREE.Box3 {
+  const bounds = new THREE.Box3();
+  file.meshes.forEach(mesh => {
+    if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+    const box = mesh.geometry.boundingBox!.clone();
+    bounds.union(mesh.matrix ? box.applyMatrix4(mesh.matrix) : box);
+  });
+  return bounds;
+}
+
+/**
+ * Guesses the unit of a file without declared units from its size: the first of
+ * millimetres, centimetres, inches and metres that gives the model a plausible size.
+ * Files too large even as millimetres stay in millimetres, files too small even as
+ * metres are taken to be in metres.
+ * @param size Size of the file's bounds in file units.
+ */
+export function guessUnit(size: THREE.Vector3): LengthUnit {
+  const largest = Math.max(size.x, size.y, size.z);
+  if (!(largest > 0)) return 'mm';
+  const plausible = GUESSED_UNITS.find(unit => {
+    const millimetres = largest * MM_PER_UNIT[unit];
+    return millimetres >= SMALLEST_LIKELY_PART && millimetres <= LARGEST_LIKELY_PART;
+  });
+  return plausible ?? (largest > LARGEST_LIKELY_PART ? 'mm' : 'm');
+}
+
+/**
+ * Scales the geometry and placement of an imported file from its unit into scene millimetres, in place.
+ */
+export function scaleImportedFile(file: ImportedFile, unit: LengthUnit): ImportedFile {
+  const factor = MM_PER_UNIT[unit];
+  if (factor === 1) return file;
+
+  file.meshes.forEach(mesh => {
+    mesh.geometry.scale(factor, factor, factor);
+    // Only the translation changes: S * M * S^-1 keeps rotations and scales
+    mesh.matrix?.setPosition(new THREE.Vector3().setFromMatrixPosition(mesh.matrix).multiplyScalar(factor));
+  });
+  return file;
+}
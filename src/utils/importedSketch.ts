@@ -0,0 +1,111 @@
+import * as THREE from 'three';
+import { SketchShape3D } from './sketch3d';
+
+// Turns flat 2D drawings (DXF, SVG) into sketch shapes on one of the principal workplanes
+
+export type SketchPlane = 'xz' | 'xy' | 'yz';
+
+export const SKETCH_PLANES: Array<{ value: SketchPlane; label: string }> = [
+  { value: 'xz', label: 'Top (XZ)' },
+  { value: 'xy', label: 'Front (XY)' },
+  { value: 'yz', label: 'Right (YZ)' }
+];
+
+/**
+ * A 2D outline from a drawing. Full circles keep their centre and radius so they
+ * become exact circle shapes; everything else is a polyline.
+ */
+export interface DrawingPath {
+  points: THREE.Vector2[];
+  closed: boolean;
+  circle?: { center: THREE.Vector2; radius: number };
+  group?: string;
+}
+
+// Drawing x/y axes in world space, matching the sketch workplanes: the top plane is the
+// horizontal workplane of SketchEngine3D, viewed from above with drawing +y pointing to -z
+const PLANE_AXES: Record<SketchPlane, { u: THREE.Vector3; v: THREE.Vector3 }> = {
+  xz: { u: new THREE.Vector3(1, 0, 0), v: new THREE.Vector3(0, 0, -1) },
+  xy: { u: new THREE.Vector3(1, 0, 0), v: new THREE.Vector3(0, 1, 0) },
+  yz: { u: new THREE.Vector3(0, 0, -1), v: new THREE.Vector3(0, 1, 0) }
+};
+
+/**
+ * Joins open paths of the same group whose ends meet into longer chains; chains that
+ * come back to their start are closed, so outlines drawn as separate lines and arcs
+ * can be extruded.
+ * @param paths The paths to join; closed paths are passed through.
+ * @param tolerance Largest gap between two ends that still counts as connected.
+ */
+export function chainPaths(paths: DrawingPath[], tolerance: number): DrawingPath[] {
+  const result = paths.filter(path => path.closed);
+  const open = paths.filter(path => !path.closed && path.points.length >= 2).map(path => ({ ...path, points: [...path.points] }));
+
+  while (open.length > 0) {
+    const chain = open.shift()!;
+    let extended = true;
+    while (extended && chain.points[0].distanceTo(chain.points[chain.points.length - 1]) > tolerance) {
+      extended = false;
+      const start = chain.points[0];
+      const end = chain.points[chain.points.length - 1];
+      for (let i = 0; i < open.length; i++) {
+        const candidate = open[i];
+        if (candidate.group !== chain.group) continue;
+        const first = candidate.points[0];
+        const last = candidate.points[candidate.points.length - 1];
+
+        if (end.distanceTo(first) <= tolerance) {
+          chain.points.push(...candidate.points.slice(1));
+        } else if (end.distanceTo(last) <= tolerance) {
+          chain.points.push(...candidate.points.slice(0, -1).reverse());
+        } else if (start.distanceTo(last) <= tolerance) {
+          chain.points.unshift(...candidate.points.slice(0, -1));
+        } else if (start.distanceTo(first) <= tolerance) {
+          chain.points.unshift(...candidate.points.slice(1).reverse());
+        } else {
+          continue;
+        }
+        open.splice(i, 1);
+        extended = true;
+        break;
+      }
+    }
+
+    if (chain.points.length > 2 && chain.points[0].distanceTo(chain.points[chain.points.length - 1]) <= tolerance) {
+      chain.points.pop();
+      chain.closed = true;
+    }
+    result.push(chain);
+  }
+  return result;
+}
+
+/**
+ * Places drawing paths on a workplane as sketch shapes. Closed paths become polygons
+ * (or circles), open ones lines; each shape keeps its path's group.
+ * @param paths Paths in drawing coordinates, already scaled to millimetres.
+ * @param plane The workplane the drawing's XY plane is mapped onto.
+ * @param idPrefix Prefix of the generated shape and point ids.
+ */
+export function pathsToSketch(paths: DrawingPath[], plane: SketchPlane, idPrefix: string): SketchShape3D[] {
+  const { u, v } = PLANE_AXES[plane];
+  const normal = new THREE.Vector3().crossVectors(u, v);
+  const to3D = (p: THREE.Vector2) => u.clone().multiplyScalar(p.x).addScaledVector(v, p.y);
+  const stamp = Date.now();
+
+  return paths.map((path, i) => {
+    const id = `${idPrefix}-${stamp}-${i}`;
+    const positions = path.circle
+      ? [path.circle.center, path.circle.center.clone().add(new THREE.Vector2(path.circle.radius, 0))]
+      : path.points;
+    return {
+      type: path.circle ? 'circle' : path.closed ? 'polygon' : 'line',
+      points: positions.map((p, k) => ({ position: to3D(p), id: `${id}-point-${k}`, onSurface: true })),
+      id,
+      closed: path.closed,
+      workplane: new THREE.Plane(normal.clone(), 0),
+      normal: normal.clone(),
+      group: path.group
+    };
+  });
+}
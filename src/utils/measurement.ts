@@ -1,4 +1,5 @@
 import { Vec3 } from './math';
+import { DEFAULT_UNIT_SETTINGS, UnitSettings, formatArea, formatLength, toProjectUnit } from './units';
 
 export interface Measurement {
   id: string;
@@ -10,15 +11,20 @@ export interface Measurement {
   timestamp: number;
 }
 
-// You can also inject this from UI if needed
-const UNIT_SCALE = 1; // 1 Three.js unit = 1 mm
-const UNIT_LABEL = 'mm';
-const UNIT_AREA_LABEL = 'mm²';
-
 export class MeasurementEngine {
   private measurements: Measurement[] = [];
   private activeTool: string | null = null;
   private tempPoints: Vec3[] = [];
+  // Values and labels are in the project unit; scene coordinates are millimetres
+  private units: UnitSettings = DEFAULT_UNIT_SETTINGS;
+
+  /**
+   * Changes the unit measurements are given in and recomputes the existing ones from their points.
+   */
+  setUnits(units: UnitSettings): void {
+    this.units = units;
+    this.measurements = this.measurements.map(m => this.remeasure(m));
+  }
 
   setActiveTool(tool: string | null): void {
     this.activeTool = tool;
@@ -74,15 +80,13 @@ export class MeasurementEngine {
       Math.pow(p2.z - p1.z, 2)
     );
 
-    const scaledDistance = rawDistance * UNIT_SCALE;
-
     return {
       id: `distance-${Date.now()}`,
       type: 'distance',
       points: [...points],
-      value: scaledDistance,
-      unit: UNIT_LABEL,
-      label: `Distance: ${scaledDistance.toFixed(2)} ${UNIT_LABEL}`,
+      value: toProjectUnit(rawDistance, this.units),
+      unit: this.units.unit,
+      label: `Distance: ${formatLength(rawDistance, this.units)}`,
       timestamp: Date.now()
     };
   }
@@ -123,15 +127,14 @@ export class MeasurementEngine {
     }
 
     const rawArea = Math.abs(area) / 2;
-    const scaledArea = rawArea * UNIT_SCALE * UNIT_SCALE;
 
     return {
       id: `area-${Date.now()}`,
       type: 'area',
       points: [...points],
-      value: scaledArea,
-      unit: UNIT_AREA_LABEL,
-      label: `Area: ${scaledArea.toFixed(2)} ${UNIT_AREA_LABEL}`,
+      value: toProjectUnit(toProjectUnit(rawArea, this.units), this.units),
+      unit: `${this.units.unit}²`,
+      label: `Area: ${formatArea(rawArea, this.units)}`,
       timestamp: Date.now()
     };
   }
@@ -140,6 +143,21 @@ export class MeasurementEngine {
     return [...this.measurements];
   }
 
+  setMeasurements(measurements: Measurement[]): void {
+    this.measurements = measurements.map(m => this.remeasure(m));
+    this.tempPoints = [];
+  }
+
+  // The measurement recomputed in the current unit, keeping its id and time
+  private remeasure(measurement: Measurement): Measurement {
+    const create = {
+      distance: () => this.createDistanceMeasurement(measurement.points),
+      angle: () => this.createAngleMeasurement(measurement.points),
+      area: () => this.createAreaMeasurement(measurement.points)
+    }[measurement.type];
+    return { ...create(), id: measurement.id, timestamp: measurement.timestamp };
+  }
+
   deleteMeasurement(id: string): void {
     this.measurements = this.measurements.filter(m => m.id !== id);
   }
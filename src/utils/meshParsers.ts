@@ -0,0 +1,577 @@
+import * as THREE from 'three';
+import type { ImportedFile, ImportedMesh, ImportedNode } from './FileLoader';
+
+// Parsers for the mesh formats that need nothing but the file bytes (STL, OBJ, PLY).
+// They use no DOM APIs, so FileLoader runs them in a Web Worker; the helpers at the
+// bottom move the result across as transferable buffers.
+
+export type MeshFormat = 'stl' | 'obj' | 'ply';
+
+// Items (lines, triangles, vertices) between two progress reports
+const PROGRESS_INTERVAL = 65536;
+
+interface PLYProperty {
+  name: string;
+  type: string;
+  // Type of the item count for list properties
+  countType?: string;
+}
+
+interface PLYHeader {
+  format: 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+  elements: Array<{ name: string; count: number; properties: PLYProperty[] }>;
+  // Byte length of the header, where the data starts
+  length: number;
+}
+
+type PLYReader = { size: number; read: (view: DataView, offset: number, littleEndian: boolean) => number; max?: number };
+
+// PLY scalar types under both their old and sized names; max is the range of unsigned color channels
+const PLY_TYPES: Record<string, PLYReader> = (() => {
+  const types: Array<[string[], PLYReader]> = [
+    [['char', 'int8'], { size: 1, read: (view, offset) => view.getInt8(offset) }],
+    [['uchar', 'uint8'], { size: 1, read: (view, offset) => view.getUint8(offset), max: 255 }],
+    [['short', 'int16'], { size: 2, read: (view, offset, le) => view.getInt16(offset, le) }],
+    [['ushort', 'uint16'], { size: 2, read: (view, offset, le) => view.getUint16(offset, le), max: 65535 }],
+    [['int', 'int32'], { size: 4, read: (view, offset, le) => view.getInt32(offset, le) }],
+    [['uint', 'uint32'], { size: 4, read: (view, offset, le) => view.getUint32(offset, le) }],
+    [['float', 'float32'], { size: 4, read: (view, offset, le) => view.getFloat32(offset, le) }],
+    [['double', 'float64'], { size: 8, read: (view, offset, le) => view.getFloat64(offset, le) }]
+  ];
+  return Object.fromEntries(types.flatMap(([names, reader]) => names.map(name => [name, reader])));
+})();
+
+/**
+ * Parses a mesh file of one of the byte-only formats.
+ * @param format The file format.
+ * @param data The file contents.
+ * @param filename Name of the file, used for mesh names.
+ * @param onProgress Called now and then with the number of bytes parsed so far.
+ */
+export function parseMeshFile(
+  format: MeshFormat,
+  data: ArrayBuffer,
+  filename: string,
+  onProgress?: (bytes: number) => void
+): ImportedFile {
+  switch (format) {
+    case 'stl':
+      return parseSTL(filename, data, data.byteLength, onProgress);
+    case 'obj':
+      return parseOBJ(filename, new TextDecoder('utf-8').decode(data), data.byteLength, onProgress);
+    case 'ply':
+      return parsePLY(filename, data, data.byteLength, onProgress);
+  }
+}
+
+function centerGeometry(geometry: THREE.BufferGeometry): void {
+  geometry.computeBoundingBox();
+  if (geometry.boundingBox) {
+    const center = geometry.boundingBox.getCenter(new THREE.Vector3());
+    geometry.translate(-center.x, -center.y, -center.z);
+  }
+}
+
+/**
+ * Parses a Wavefront OBJ file into one mesh per object/group and material. Meshes keep
+ * the name of their material and the file lists its .mtl libraries; FileLoader resolves
+ * both once the mesh data is back. Parts keep their placement relative to each other.
+ */
+export function parseOBJ(filename: string, content: string, size: number, onProgress?: (bytes: number) => void): ImportedFile {
+  type Part = { group: string; material?: string; positions: number[]; normals: number[]; uvs: number[]; missingNormals: boolean; hasUVs: boolean };
+
+  const vertexPositions: THREE.Vector3[] = [];
+  const vertexNormals: THREE.Vector3[] = [];
+  const vertexUVs: THREE.Vector2[] = [];
+  const libraries: string[] = [];
+  const meshParts = new Map<string, Part>();
+
+  let group = filename.replace(/\.[^.]+$/, '');
+  let material: string | undefined;
+  const currentPart = () => {
+    const key = `${group}\u0000${material ?? ''}`;
+    if (!meshParts.has(key)) {
+      meshParts.set(key, { group, material, positions: [], normals: [], uvs: [], missingNormals: false, hasUVs: false });
+    }
+    return meshParts.get(key)!;
+  };
+  // OBJ indices are 1-based; negative ones count back from the latest element
+  const resolve = <T>(list: T[], index?: number) =>
+    index === undefined ? undefined : list[index < 0 ? list.length + index : index - 1];
+
+  const lines = content.split(/\r?\n/);
+  let characters = 0;
+
+  lines.forEach((line, lineIndex) => {
+    characters += line.length + 1;
+    if (onProgress && lineIndex % PROGRESS_INTERVAL === 0) onProgress(Math.min(characters, size));
+
+    const parts = line.trim().split(/\s+/);
+    if (!parts.length) return;
+    const rest = line.trim().slice(parts[0].length).trim();
+
+    switch (parts[0]) {
+      case 'v':
+        if (parts.length >= 4)
+          vertexPositions.push(new THREE.Vector3(+parts[1], +parts[2], +parts[3]));
+        break;
+      case 'vn':
+        if (parts.length >= 4)
+          vertexNormals.push(new THREE.Vector3(+parts[1], +parts[2], +parts[3]));
+        break;
+      case 'vt':
+        if (parts.length >= 3)
+          vertexUVs.push(new THREE.Vector2(+parts[1], +parts[2]));
+        break;
+      case 'o':
+      case 'g':
+        if (rest) group = rest;
+        break;
+      case 'usemtl':
+        material = rest || undefined;
+        break;
+      case 'mtllib':
+        if (rest) libraries.push(rest);
+        break;
+      case 'f': {
+        if (parts.length < 4) break; // faces need at least 3 vertices
+        const part = currentPart();
+
+        // Triangulate face (fan triangulation)
+        const faceVertices = parts.slice(1);
+        for (let i = 1; i < faceVertices.length - 1; i++) {
+          const triVerts = [faceVertices[0], faceVertices[i], faceVertices[i + 1]];
+          const corners = triVerts.map(v => parseOBJFaceVertex(v));
+          if (corners.some(({ vertex }) => !resolve(vertexPositions, vertex))) continue;
+
+          for (const { vertex, uv, normal } of corners) {
+            const pos = resolve(vertexPositions, vertex)!;
+            part.positions.push(pos.x, pos.y, pos.z);
+
+            const n = resolve(vertexNormals, normal);
+            if (n) {
+              part.normals.push(n.x, n.y, n.z);
+            } else {
+              part.normals.push(0, 0, 0);
+              part.missingNormals = true;
+            }
+
+            const uvCoord = resolve(vertexUVs, uv);
+            part.uvs.push(uvCoord?.x ?? 0, uvCoord?.y ?? 0);
+            part.hasUVs = part.hasUVs || !!uvCoord;
+          }
+        }
+        break;
+      }
+    }
+  });
+
+  const filled = Array.from(meshParts.values()).filter(part => part.positions.length > 0);
+  if (filled.length === 0) {
+    throw new Error('The file contains no faces');
+  }
+
+  // Parts are centred on themselves and placed relative to the centre of the whole file
+  const bounds = new THREE.Box3();
+  const geometries = filled.map(part => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(part.positions, 3));
+    if (part.missingNormals) {
+      geometry.computeVertexNormals();
+    } else {
+      geometry.setAttribute('normal', new THREE.Float32BufferAttribute(part.normals, 3));
+    }
+    if (part.hasUVs) {
+      geometry.setAttribute('uv', new THREE.Float32BufferAttribute(part.uvs, 2));
+    }
+    geometry.computeBoundingBox();
+    bounds.union(geometry.boundingBox!);
+    return geometry;
+  });
+  const fileCenter = bounds.getCenter(new THREE.Vector3());
+
+  const materialsPerGroup = new Map<string, number>();
+  filled.forEach(part => materialsPerGroup.set(part.group, (materialsPerGroup.get(part.group) || 0) + 1));
+  const fileNode: ImportedNode = { key: filename, name: filename };
+
+  const meshes = filled.map((part, i): ImportedMesh => {
+    const geometry = geometries[i];
+    const center = geometry.boundingBox!.getCenter(new THREE.Vector3());
+    geometry.translate(-center.x, -center.y, -center.z);
+    geometry.computeBoundingBox();
+
+    return {
+      name: materialsPerGroup.get(part.group)! > 1 && part.material ? `${part.group} (${part.material})` : part.group,
+      geometry,
+      materialName: part.material,
+      matrix: new THREE.Matrix4().makeTranslation(center.sub(fileCenter)),
+      path: filled.length > 1 ? [fileNode] : undefined
+    };
+  });
+
+  return {
+    name: filename,
+    meshes,
+    materialLibraries: libraries,
+    size,
+    format: 'OBJ',
+  };
+}
+
+function parseOBJFaceVertex(vertex: string): { vertex: number; uv?: number; normal?: number } {
+  const parts = vertex.split('/');
+  return {
+    vertex: parseInt(parts[0]) || 0,
+    uv: parts[1] ? parseInt(parts[1]) : undefined,
+    normal: parts[2] ? parseInt(parts[2]) : undefined,
+  };
+}
+
+export function parseSTL(filename: string, buffer: ArrayBuffer, size: number, onProgress?: (bytes: number) => void): ImportedFile {
+  // Detect ASCII or binary STL by checking header
+  if (isASCIISTL(buffer)) {
+    const decoder = new TextDecoder('utf-8');
+    const text = decoder.decode(buffer);
+    return parseASCIISTL(filename, text, size, onProgress);
+  }
+  return parseBinarySTL(filename, buffer, size, onProgress);
+}
+
+function isASCIISTL(buffer: ArrayBuffer): boolean {
+  // ASCII STL usually starts with "solid" and does not contain null bytes near the start
+  const decoder = new TextDecoder('utf-8');
+  const header = decoder.decode(buffer.slice(0, 80));
+  if (!header.toLowerCase().startsWith('solid')) return false;
+
+  // Check if buffer contains null bytes indicating binary STL
+  const uint8 = new Uint8Array(buffer);
+  for (let i = 0; i < Math.min(80, uint8.length); i++) {
+    if (uint8[i] === 0) return false;
+  }
+  return true;
+}
+
+function parseASCIISTL(filename: string, text: string, size: number, onProgress?: (bytes: number) => void): ImportedFile {
+  const geometry = new THREE.BufferGeometry();
+  const vertices: number[] = [];
+  const normals: number[] = [];
+
+  const lines = text.split(/\r?\n/);
+  const currentNormal = new THREE.Vector3();
+  let characters = 0;
+
+  lines.forEach((line, lineIndex) => {
+    characters += line.length + 1;
+    if (onProgress && lineIndex % PROGRESS_INTERVAL === 0) onProgress(Math.min(characters, size));
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith('facet normal')) {
+      const parts = trimmed.split(/\s+/);
+      currentNormal.set(+parts[2], +parts[3], +parts[4]);
+    } else if (trimmed.startsWith('vertex')) {
+      const parts = trimmed.split(/\s+/);
+      vertices.push(+parts[1], +parts[2], +parts[3]);
+      normals.push(currentNormal.x, currentNormal.y, currentNormal.z);
+    }
+  });
+
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+  if (normals.length === vertices.length) {
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+  } else {
+    geometry.computeVertexNormals();
+  }
+  centerGeometry(geometry);
+
+  return {
+    name: filename,
+    meshes: [{ name: filename, geometry }],
+    size,
+    format: 'STL (ASCII)',
+  };
+}
+
+function parseBinarySTL(filename: string, buffer: ArrayBuffer, size: number, onProgress?: (bytes: number) => void): ImportedFile {
+  const geometry = new THREE.BufferGeometry();
+
+  const dataView = new DataView(buffer);
+  if (dataView.byteLength < 84) {
+    throw new Error('Invalid STL file: too short');
+  }
+  const facesCount = dataView.getUint32(80, true);
+  if (84 + facesCount * 50 > dataView.byteLength) {
+    throw new Error(`Invalid STL file: ${facesCount} triangles declared but the file is truncated`);
+  }
+  // Typed arrays up front: large scans would not fit as plain number arrays
+  const vertices = new Float32Array(facesCount * 9);
+  const normals = new Float32Array(facesCount * 9);
+
+  let offset = 84;
+  for (let i = 0; i < facesCount; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(offset);
+
+    // Normal vector
+    const nx = dataView.getFloat32(offset, true);
+    const ny = dataView.getFloat32(offset + 4, true);
+    const nz = dataView.getFloat32(offset + 8, true);
+    offset += 12;
+
+    // 3 vertices
+    for (let v = 0; v < 3; v++) {
+      const k = i * 9 + v * 3;
+      vertices[k] = dataView.getFloat32(offset, true);
+      vertices[k + 1] = dataView.getFloat32(offset + 4, true);
+      vertices[k + 2] = dataView.getFloat32(offset + 8, true);
+      normals[k] = nx;
+      normals[k + 1] = ny;
+      normals[k + 2] = nz;
+      offset += 12;
+    }
+
+    // Skip attribute byte count
+    offset += 2;
+  }
+
+  geometry.setAttribute('position', new THREE.BufferAttribute(vertices, 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  centerGeometry(geometry);
+
+  return {
+    name: filename,
+    meshes: [{ name: filename, geometry }],
+    size,
+    format: 'STL (Binary)',
+  };
+}
+
+/**
+ * Loads a PLY file in any of its encodings (ASCII, binary little or big endian).
+ * Every element and property in the header is read; vertex positions, normals,
+ * colors and texture coordinates become attributes and polygon faces are triangulated.
+ */
+export function parsePLY(filename: string, buffer: ArrayBuffer, size: number, onProgress?: (bytes: number) => void): ImportedFile {
+  const header = parsePLYHeader(buffer);
+  const { elements } = header;
+
+  const vertexElement = elements.find(element => element.name === 'vertex');
+  if (!vertexElement) {
+    throw new Error('Invalid PLY file: no vertex element');
+  }
+
+  // One reader per encoding; both return the next value of the given type
+  let next: (type: string) => number;
+  if (header.format === 'ascii') {
+    const tokens = new TextDecoder().decode(new Uint8Array(buffer, header.length)).split(/\s+/).filter(Boolean);
+    let position = 0;
+    next = () => {
+      if (position >= tokens.length) throw new Error('Invalid PLY file: unexpected end of data');
+      return parseFloat(tokens[position++]);
+    };
+  } else {
+    const view = new DataView(buffer);
+    const littleEndian = header.format === 'binary_little_endian';
+    let offset = header.length;
+    next = (type: string) => {
+      const reader = PLY_TYPES[type];
+      if (offset + reader.size > view.byteLength) throw new Error('Invalid PLY file: unexpected end of data');
+      const value = reader.read(view, offset, littleEndian);
+      offset += reader.size;
+      return value;
+    };
+  }
+
+  // Progress is estimated from the share of element items read
+  const totalItems = elements.reduce((sum, element) => sum + element.count, 0);
+  let items = 0;
+
+  const vertexData: Record<string, Float32Array> = {};
+  const indices: number[] = [];
+  elements.forEach(element => {
+    const isVertex = element === vertexElement;
+    const isFace = element.name === 'face';
+    if (isVertex) {
+      element.properties.forEach(property => {
+        if (!property.countType) vertexData[property.name] = new Float32Array(element.count);
+      });
+    }
+
+    for (let i = 0; i < element.count; i++) {
+      if (onProgress && ++items % PROGRESS_INTERVAL === 0) {
+        onProgress(header.length + ((size - header.length) * items) / totalItems);
+      }
+      element.properties.forEach(property => {
+        if (!property.countType) {
+          const value = next(property.type);
+          if (isVertex) vertexData[property.name][i] = value;
+          return;
+        }
+
+        const count = next(property.countType);
+        const values: number[] = [];
+        for (let k = 0; k < count; k++) values.push(next(property.type));
+        // Polygons are triangulated as fans
+        if (isFace && (property.name === 'vertex_indices' || property.name === 'vertex_index')) {
+          for (let k = 1; k + 1 < values.length; k++) {
+            indices.push(values[0], values[k], values[k + 1]);
+          }
+        }
+      });
+    }
+  });
+
+  const property = (...names: string[]) => names.map(name => vertexData[name]).find(Boolean);
+  const interleave = (...channels: Float32Array[]) => {
+    const array = new Float32Array(vertexElement.count * channels.length);
+    for (let i = 0; i < vertexElement.count; i++) {
+      channels.forEach((channel, c) => { array[i * channels.length + c] = channel[i]; });
+    }
+    return array;
+  };
+
+  const x = property('x');
+  const y = property('y');
+  const z = property('z');
+  if (!x || !y || !z) {
+    throw new Error('Invalid PLY file: vertices have no x, y, z');
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(interleave(x, y, z), 3));
+
+  const nx = property('nx');
+  const ny = property('ny');
+  const nz = property('nz');
+  if (nx && ny && nz) {
+    geometry.setAttribute('normal', new THREE.BufferAttribute(interleave(nx, ny, nz), 3));
+  }
+
+  const red = property('red', 'diffuse_red', 'r');
+  const green = property('green', 'diffuse_green', 'g');
+  const blue = property('blue', 'diffuse_blue', 'b');
+  if (red && green && blue) {
+    // Integer channels are scaled by their range; PLY colors are sRGB
+    const redProperty = vertexElement.properties.find(p => vertexData[p.name] === red)!;
+    const max = PLY_TYPES[redProperty.type].max ?? 1;
+    const colors = interleave(red, green, blue);
+    const color = new THREE.Color();
+    for (let i = 0; i < colors.length; i += 3) {
+      color.setRGB(colors[i] / max, colors[i + 1] / max, colors[i + 2] / max, THREE.SRGBColorSpace);
+      color.toArray(colors, i);
+    }
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  }
+
+  const u = property('s', 'u', 'texture_u', 'texture_s');
+  const v = property('t', 'v', 'texture_v', 'texture_t');
+  if (u && v) {
+    geometry.setAttribute('uv', new THREE.BufferAttribute(interleave(u, v), 2));
+  }
+
+  if (indices.length > 0) {
+    geometry.setIndex(indices);
+  }
+
+  if (!geometry.getAttribute('normal') && indices.length > 0) {
+    geometry.computeVertexNormals();
+  }
+  centerGeometry(geometry);
+
+  return {
+    name: filename,
+    meshes: [{ name: filename, geometry }],
+    size,
+    format: header.format === 'ascii' ? 'PLY' : 'PLY (Binary)',
+  };
+}
+
+function parsePLYHeader(buffer: ArrayBuffer): PLYHeader {
+  // The header is ASCII; only look at the start of the file for it
+  const start = new TextDecoder('latin1').decode(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 65536)));
+  const end = /end_header[ \t]*\r?\n/.exec(start);
+  if (!start.startsWith('ply') || !end) {
+    throw new Error('Invalid PLY file: no end_header found');
+  }
+
+  const header: PLYHeader = { format: 'ascii', elements: [], length: end.index + end[0].length };
+  start.slice(0, end.index).split(/\r?\n/).forEach(line => {
+    const parts = line.trim().split(/\s+/);
+    switch (parts[0]) {
+      case 'format':
+        if (parts[1] !== 'ascii' && parts[1] !== 'binary_little_endian' && parts[1] !== 'binary_big_endian') {
+          throw new Error(`Unsupported PLY format: ${parts[1]}`);
+        }
+        header.format = parts[1];
+        break;
+      case 'element':
+        header.elements.push({ name: parts[1], count: parseInt(parts[2], 10), properties: [] });
+        break;
+      case 'property': {
+        const element = header.elements[header.elements.length - 1];
+        const types = parts[1] === 'list' ? [parts[2], parts[3]] : [parts[1]];
+        if (!element || types.some(type => !PLY_TYPES[type])) {
+          throw new Error(`Invalid PLY property: ${line.trim()}`);
+        }
+        element.properties.push(parts[1] === 'list'
+          ? { name: parts[4], countType: parts[2], type: parts[3] }
+          : { name: parts[2], type: parts[1] });
+        break;
+      }
+    }
+  });
+  return header;
+}
+
+// Mesh data as posted between the worker and the page; attribute arrays are transferred, not copied
+export interface TransferredMesh extends Omit<ImportedMesh, 'geometry' | 'material' | 'matrix'> {
+  attributes: Array<{ name: string; array: THREE.TypedArray; itemSize: number; normalized: boolean }>;
+  index?: THREE.TypedArray;
+  matrix?: number[];
+}
+
+export interface TransferredFile extends Omit<ImportedFile, 'meshes' | 'sketch'> {
+  meshes: TransferredMesh[];
+}
+
+/**
+ * Flattens an imported file into plain data plus the buffers to transfer with it.
+ */
+export function packImportedFile(file: ImportedFile): { data: TransferredFile; transfer: ArrayBuffer[] } {
+  const transfer = new Set<ArrayBuffer>();
+  const meshes = file.meshes.map((mesh): TransferredMesh => {
+    const attributes = Object.entries(mesh.geometry.attributes).map(([name, attribute]) => {
+      const { array, itemSize, normalized } = attribute as THREE.BufferAttribute;
+      transfer.add(array.buffer as ArrayBuffer);
+      return { name, array, itemSize, normalized };
+    });
+    const index = mesh.geometry.getIndex()?.array;
+    if (index) transfer.add(index.buffer as ArrayBuffer);
+    return {
+      name: mesh.name,
+      key: mesh.key,
+      path: mesh.path,
+      materialName: mesh.materialName,
+      report: mesh.report,
+      attributes,
+      index,
+      matrix: mesh.matrix?.toArray()
+    };
+  });
+  return {
+    data: { name: file.name, size: file.size, format: file.format, unit: file.unit, materialLibraries: file.materialLibraries, meshes },
+    transfer: Array.from(transfer)
+  };
+}
+
+export function unpackImportedFile(data: TransferredFile): ImportedFile {
+  return {
+    ...data,
+    meshes: data.meshes.map(({ attributes, index, matrix, ...mesh }): ImportedMesh => {
+      const geometry = new THREE.BufferGeometry();
+      attributes.forEach(({ name, array, itemSize, normalized }) =>
+        geometry.setAttribute(name, new THREE.BufferAttribute(array, itemSize, normalized)));
+      if (index) geometry.setIndex(new THREE.BufferAttribute(index, 1));
+      geometry.computeBoundingBox();
+      return { ...mesh, geometry, matrix: matrix ? new THREE.Matrix4().fromArray(matrix) : undefined };
+    })
+  };
+}
@@ -0,0 +1,372 @@
+import * as THREE from 'three';
+import type { ImportedFile } from './FileLoader';
+import { guessUnit, importedBounds } from './importScale';
+import { MM_PER_UNIT } from './units';
+
+// Analysis and repair of imported triangle meshes. Like the parsers it uses no DOM
+// APIs, so mesh files are checked in the import worker right after parsing.
+
+export interface RepairOptions {
+  // Merge vertices closer than `tolerance` millimetres; triangles with a doubled area below
+  // its square count as degenerate. Files are repaired before they are scaled into
+  // millimetres, so it is converted into their declared unit, or else the guessed one
+  weld: boolean;
+  tolerance: number;
+  // Drop triangles without area
+  removeDegenerates: boolean;
+  // Wind neighbouring triangles the same way, outward on closed parts
+  orientNormals: boolean;
+  // Close boundary loops of up to MAX_HOLE_EDGES edges. Off by default: the edge of a
+  // sheet that is meant to be open is a boundary loop like any hole
+  fillHoles: boolean;
+}
+
+export const DEFAULT_REPAIR_OPTIONS: RepairOptions = {
+  weld: true,
+  tolerance: 1e-4,
+  removeDegenerates: true,
+  orientNormals: true,
+  fillHoles: false
+};
+
+// Counts what was found; whether it was fixed depends on the options the mesh was repaired with
+export interface MeshReport {
+  triangles: number;
+  // Distinct positions within the tolerance of another one
+  weldableVertices: number;
+  degenerateTriangles: number;
+  // Triangles wound against their neighbours, or inward on a closed part
+  flippedTriangles: number;
+  // Boundary loops, and how many of them are small enough to fill
+  holes: number;
+  smallHoles: number;
+  // Edges shared by more than two triangles; reported, never repaired
+  nonManifoldEdges: number;
+  // True when the geometry was rebuilt
+  repaired: boolean;
+}
+
+// Holes with more edges than this are left open
+const MAX_HOLE_EDGES = 32;
+
+const ANALYSIS_ONLY: RepairOptions = {
+  ...DEFAULT_REPAIR_OPTIONS,
+  weld: false,
+  removeDegenerates: false,
+  orientNormals: false,
+  fillHoles: false
+};
+
+/**
+ * Checks every mesh of an imported file and repairs it with the given options, storing
+ * the findings in the mesh's report. Without options the meshes are only analysed.
+ */
+export function repairImportedFile(file: ImportedFile, options: RepairOptions = ANALYSIS_ONLY): ImportedFile {
+  const unit = file.unit ?? guessUnit(importedBounds(file).getSize(new THREE.Vector3()));
+  const inFileUnits = { ...options, tolerance: options.tolerance / MM_PER_UNIT[unit] };
+  file.meshes.forEach(mesh => {
+    const { geometry, report } = repairGeometry(mesh.geometry, inFileUnits);
+    mesh.geometry = geometry;
+    mesh.report = report;
+  });
+  return file;
+}
+
+/**
+ * Analyses a triangle mesh and returns it repaired. Vertices are welded on a grid of
+ * the tolerance, triangles are oriented by walking across manifold edges, and small
+ * boundary loops are triangulated in their best-fit plane. The result is non-indexed
+ * and keeps every vertex attribute; the source geometry is returned unchanged when
+ * nothing needed fixing.
+ */
+export function repairGeometry(
+  geometry: THREE.BufferGeometry,
+  options: RepairOptions
+): { geometry: THREE.BufferGeometry; report: MeshReport } {
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex();
+  const cornerCount = index ? index.count - (index.count % 3) : position.count - (position.count % 3);
+  const triangleCount = cornerCount / 3;
+  const sourceVertex = (corner: number) => (index ? index.getX(corner) : corner);
+  const tolerance = Math.max(options.tolerance, 1e-12);
+
+  // Distinct positions of the corners
+  const exactIds = new Int32Array(cornerCount);
+  const exactLookup = new Map<string, number>();
+  const coords: number[] = [];
+  for (let corner = 0; corner < cornerCount; corner++) {
+    const i = sourceVertex(corner);
+    const x = position.getX(i);
+    const y = position.getY(i);
+    const z = position.getZ(i);
+    const key = `${x},${y},${z}`;
+    let id = exactLookup.get(key);
+    if (id === undefined) {
+      id = coords.length / 3;
+      exactLookup.set(key, id);
+      coords.push(x, y, z);
+    }
+    exactIds[corner] = id;
+  }
+
+  // Positions within the tolerance of an earlier one join its cluster; the earlier one stays
+  const exactCount = coords.length / 3;
+  const clusterOf = new Int32Array(exactCount);
+  const cells = new Map<number, number[]>();
+  const cellKey = (cx: number, cy: number, cz: number) => (cx * 73856093) ^ (cy * 19349663) ^ (cz * 83492791);
+  let clusterCount = 0;
+  const representatives: number[] = [];
+  for (let id = 0; id < exactCount; id++) {
+    const [x, y, z] = [coords[id * 3], coords[id * 3 + 1], coords[id * 3 + 2]];
+    const [cx, cy, cz] = [Math.floor(x / tolerance), Math.floor(y / tolerance), Math.floor(z / tolerance)];
+    let found = -1;
+    for (let dx = -1; dx <= 1 && found < 0; dx++) {
+      for (let dy = -1; dy <= 1 && found < 0; dy++) {
+        for (let dz = -1; dz <= 1 && found < 0; dz++) {
+          const candidates = cells.get(cellKey(cx + dx, cy + dy, cz + dz));
+          found = candidates?.find(other =>
+            Math.hypot(coords[other * 3] - x, coords[other * 3 + 1] - y, coords[other * 3 + 2] - z) <= tolerance) ?? -1;
+        }
+      }
+    }
+    if (found >= 0) {
+      clusterOf[id] = clusterOf[found];
+      continue;
+    }
+    clusterOf[id] = clusterCount++;
+    representatives.push(id);
+    const key = cellKey(cx, cy, cz);
+    if (!cells.has(key)) cells.set(key, []);
+    cells.get(key)!.push(id);
+  }
+  const weldableVertices = exactCount - clusterCount;
+
+  // Topology works on welded vertices when welding, on distinct positions otherwise
+  const vertexOf = (corner: number) => (options.weld ? clusterOf[exactIds[corner]] : exactIds[corner]);
+  const vertexPosition = (vertex: number, target: THREE.Vector3) => {
+    const id = options.weld ? representatives[vertex] : vertex;
+    return target.set(coords[id * 3], coords[id * 3 + 1], coords[id * 3 + 2]);
+  };
+  const vertexCount = options.weld ? clusterCount : exactCount;
+  const triangles = new Int32Array(cornerCount);
+  const firstCorner = new Int32Array(vertexCount).fill(-1);
+  for (let corner = 0; corner < cornerCount; corner++) {
+    triangles[corner] = vertexOf(corner);
+    if (firstCorner[triangles[corner]] < 0) firstCorner[triangles[corner]] = corner;
+  }
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const degenerate = new Uint8Array(triangleCount);
+  let degenerateTriangles = 0;
+  for (let t = 0; t < triangleCount; t++) {
+    const [i, j, k] = [triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2]];
+    vertexPosition(i, a);
+    vertexPosition(j, b);
+    vertexPosition(k, c);
+    const doubleArea = b.sub(a).cross(c.sub(a)).length();
+    if (i === j || j === k || k === i || doubleArea < tolerance * tolerance) {
+      degenerate[t] = 1;
+      degenerateTriangles++;
+    }
+  }
+
+  // Undirected edge -> triangle edges (t * 3 + k) using it
+  const edgeKey = (i: number, j: number) => (i < j ? i * vertexCount + j : j * vertexCount + i);
+  const edges = new Map<number, number[]>();
+  for (let t = 0; t < triangleCount; t++) {
+    if (degenerate[t]) continue;
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(triangles[t * 3 + k], triangles[t * 3 + ((k + 1) % 3)]);
+      if (!edges.has(key)) edges.set(key, []);
+      edges.get(key)!.push(t * 3 + k);
+    }
+  }
+  let nonManifoldEdges = 0;
+  edges.forEach(uses => {
+    if (uses.length > 2) nonManifoldEdges++;
+  });
+
+  // Whether triangle edge t * 3 + k runs from its lower to its higher vertex, as wound in the file
+  const ascending = (edge: number) => {
+    const t = Math.floor(edge / 3);
+    const k = edge % 3;
+    return triangles[t * 3 + k] < triangles[t * 3 + ((k + 1) % 3)];
+  };
+
+  // Walk each connected part across manifold edges, flipping neighbours to match
+  const flip = new Uint8Array(triangleCount);
+  const visited = new Uint8Array(triangleCount);
+  for (let seed = 0; seed < triangleCount; seed++) {
+    if (visited[seed] || degenerate[seed]) continue;
+    const part = [seed];
+    visited[seed] = 1;
+    let closed = true;
+    for (let n = 0; n < part.length; n++) {
+      const t = part[n];
+      for (let k = 0; k < 3; k++) {
+        const uses = edges.get(edgeKey(triangles[t * 3 + k], triangles[t * 3 + ((k + 1) % 3)]))!;
+        if (uses.length !== 2) {
+          closed = false;
+          continue;
+        }
+        const other = uses[0] === t * 3 + k ? uses[1] : uses[0];
+        const u = Math.floor(other / 3);
+        if (visited[u]) continue;
+        visited[u] = 1;
+        // Consistent neighbours run the shared edge in opposite directions
+        flip[u] = (ascending(t * 3 + k) !== !!flip[t]) === ascending(other) ? 1 : 0;
+        part.push(u);
+      }
+    }
+
+    // Closed parts face outward; open ones keep the winding most of their triangles had
+    let invert: boolean;
+    if (closed) {
+      let volume = 0;
+      part.forEach(t => {
+        vertexPosition(triangles[t * 3], a);
+        vertexPosition(triangles[t * 3 + 1], b);
+        vertexPosition(triangles[t * 3 + 2], c);
+        volume += (flip[t] ? -1 : 1) * a.dot(b.cross(c));
+      });
+      invert = volume < 0;
+    } else {
+      invert = part.filter(t => flip[t]).length * 2 > part.length;
+    }
+    if (invert) part.forEach(t => (flip[t] = flip[t] ? 0 : 1));
+  }
+  const flippedTriangles = flip.reduce((sum, flipped) => sum + flipped, 0);
+
+  // Boundary edges of the oriented mesh, reversed, chain into the loops around holes
+  const next = new Map<number, number[]>();
+  edges.forEach(uses => {
+    if (uses.length !== 1) return;
+    const t = Math.floor(uses[0] / 3);
+    const k = uses[0] % 3;
+    let from = triangles[t * 3 + k];
+    let to = triangles[t * 3 + ((k + 1) % 3)];
+    if (flip[t]) [from, to] = [to, from];
+    if (!next.has(to)) next.set(to, []);
+    next.get(to)!.push(from);
+  });
+  const loops: number[][] = [];
+  next.forEach((_, start) => {
+    while (next.get(start)?.length) {
+      const loop = [start];
+      let vertex = next.get(start)!.pop()!;
+      while (vertex !== start && next.get(vertex)?.length && loop.length <= edges.size) {
+        loop.push(vertex);
+        vertex = next.get(vertex)!.pop()!;
+      }
+      if (vertex === start && loop.length >= 3) loops.push(loop);
+    }
+  });
+
+  const smallHoles = loops.filter(loop => loop.length <= MAX_HOLE_EDGES);
+  const fill = options.fillHoles
+    ? smallHoles.flatMap(loop => triangulateLoop(loop, vertex => vertexPosition(vertex, new THREE.Vector3())))
+    : [];
+
+  const report: MeshReport = {
+    triangles: triangleCount,
+    weldableVertices,
+    degenerateTriangles,
+    flippedTriangles,
+    holes: loops.length,
+    smallHoles: smallHoles.length,
+    nonManifoldEdges,
+    repaired: false
+  };
+
+  const changed = (options.weld && weldableVertices > 0)
+    || (options.removeDegenerates && degenerateTriangles > 0)
+    || (options.orientNormals && flippedTriangles > 0)
+    || fill.length > 0;
+  if (!changed) {
+    return { geometry, report };
+  }
+
+  // Rebuild without an index, copying every attribute per corner
+  const kept: number[] = [];
+  for (let t = 0; t < triangleCount; t++) {
+    if (options.removeDegenerates && degenerate[t]) continue;
+    const order = options.orientNormals && flip[t] ? [0, 2, 1] : [0, 1, 2];
+    order.forEach(k => kept.push(t * 3 + k));
+  }
+  const outCount = kept.length + fill.length;
+  const repaired = new THREE.BufferGeometry();
+  Object.entries(geometry.attributes).forEach(([name, attribute]) => {
+    const itemSize = attribute.itemSize;
+    const array = new Float32Array(outCount * itemSize);
+    const read = (vertex: number, component: number) => [attribute.getX, attribute.getY, attribute.getZ, attribute.getW][component].call(attribute, vertex);
+    const copy = (target: number, corner: number) => {
+      for (let component = 0; component < itemSize; component++) {
+        array[target * itemSize + component] = read(sourceVertex(corner), component);
+      }
+    };
+
+    kept.forEach((corner, target) => {
+      copy(target, corner);
+      if (name === 'position' && options.weld) {
+        vertexPosition(triangles[corner], a).toArray(array, target * itemSize);
+      } else if (name === 'normal' && options.orientNormals && flip[Math.floor(corner / 3)]) {
+        for (let component = 0; component < 3; component++) array[target * itemSize + component] *= -1;
+      }
+    });
+
+    // Fill triangles borrow attributes from a corner at the same vertex and get a flat normal
+    for (let f = 0; f < fill.length; f += 3) {
+      const normal = new THREE.Vector3().crossVectors(
+        vertexPosition(fill[f + 1], b).sub(vertexPosition(fill[f], a)),
+        vertexPosition(fill[f + 2], c).sub(a)
+      ).normalize();
+      for (let k = 0; k < 3; k++) {
+        const target = kept.length + f + k;
+        copy(target, firstCorner[fill[f + k]]);
+        if (name === 'position') vertexPosition(fill[f + k], a).toArray(array, target * itemSize);
+        if (name === 'normal') normal.toArray(array, target * itemSize);
+      }
+    }
+
+    repaired.setAttribute(name, new THREE.BufferAttribute(array, itemSize));
+  });
+  repaired.computeBoundingBox();
+
+  report.repaired = true;
+  return { geometry: repaired, report };
+}
+
+// Triangles closing a loop of vertices, wound in the loop's direction
+function triangulateLoop(loop: number[], positionOf: (vertex: number) => THREE.Vector3): number[] {
+  const points = loop.map(positionOf);
+  if (loop.length === 3) return loop;
+
+  // Newell normal of the loop, and a 2D frame in its plane
+  const normal = new THREE.Vector3();
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    normal.x += (p.y - q.y) * (p.z + q.z);
+    normal.y += (p.z - q.z) * (p.x + q.x);
+    normal.z += (p.x - q.x) * (p.y + q.y);
+  });
+  normal.normalize();
+  const u = new THREE.Vector3().crossVectors(normal, Math.abs(normal.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0)).normalize();
+  const v = new THREE.Vector3().crossVectors(normal, u);
+  const contour = points.map(p => new THREE.Vector2(p.dot(u), p.dot(v)));
+
+  let faces = THREE.ShapeUtils.triangulateShape(contour, []);
+  if (faces.length !== loop.length - 2) {
+    // Loops that fold over themselves in projection get a fan instead
+    faces = loop.slice(2).map((_, i) => [0, i + 1, i + 2]);
+  }
+
+  return faces.flatMap(([i, j, k]) => {
+    const facing = new THREE.Vector3().crossVectors(
+      points[j].clone().sub(points[i]),
+      points[k].clone().sub(points[i])
+    ).dot(normal);
+    return facing >= 0 ? [loop[i], loop[j], loop[k]] : [loop[i], loop[k], loop[j]];
+  });
+}
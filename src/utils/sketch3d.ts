@@ -14,6 +14,8 @@ export interface SketchShape3D {
   closed: boolean;
   workplane?: THREE.Plane;
   normal?: THREE.Vector3;
+  // Sketch group the shape belongs to, e.g. the layer of an imported drawing
+  group?: string;
 }
 
 export class SketchEngine3D {
@@ -516,6 +518,11 @@ export class SketchEngine3D {
 
     if (this.workplane) {
       circle.rotation.copy(this.workplane.rotation);
+    } else {
+      // No active workplane (e.g. shapes loaded from a file): orient by the shape normal,
+      // defaulting to the horizontal plane used by createWorkplane
+      const normal = shape.normal ? shape.normal.clone().normalize() : new THREE.Vector3(0, 1, 0);
+      circle.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal);
     }
 
     this.scene.add(circle);
@@ -687,16 +694,32 @@ export class SketchEngine3D {
     return [...this.shapes];
   }
 
-  clear(): void {
+  // Replaces the current sketch with previously saved shapes (e.g. from a project file)
+  loadShapes(shapes: SketchShape3D[]): void {
+    this.clear();
+    this.drawShapes(shapes);
+  }
+
+  // Swaps in moved versions of the current shapes (e.g. after constraint solving), keeping the workplane
+  replaceShapes(shapes: SketchShape3D[]): void {
+    this.clearShapeVisuals();
     this.shapes = [];
-    this.currentShape = null;
-    this.isDrawing = false;
-    this.isDragging = false;
-    this.startPoint = null;
-    this.isMultiLineMode = false;
-    this.multiLinePoints = [];
-    
-    // Remove all sketch elements
+    this.drawShapes(shapes);
+  }
+
+  private drawShapes(shapes: SketchShape3D[]): void {
+    shapes.forEach(shape => {
+      shape.points.forEach(p => this.addSketchPoint(p.position));
+      if (shape.type === 'circle' && shape.points.length >= 2) {
+        this.createSketchCircle(shape);
+      } else {
+        this.createSketchLine(shape);
+      }
+      this.shapes.push(shape);
+    });
+  }
+
+  private clearShapeVisuals(): void {
     this.sketchLines.forEach(line => {
       this.scene.remove(line);
       line.geometry.dispose();
@@ -717,7 +740,19 @@ export class SketchEngine3D {
       (point.material as THREE.Material).dispose();
     });
     this.sketchPoints = [];
+  }
+
+  clear(): void {
+    this.shapes = [];
+    this.currentShape = null;
+    this.isDrawing = false;
+    this.isDragging = false;
+    this.startPoint = null;
+    this.isMultiLineMode = false;
+    this.multiLinePoints = [];
     
+    // Remove all sketch elements
+    this.clearShapeVisuals();
     this.clearPreview();
     this.clearWorkplane();
     
@@ -0,0 +1,65 @@
+// Length units files and values can be in. The scene itself is always in millimetres;
+// the project unit only changes how lengths are shown, typed and exported.
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+export const LENGTH_UNITS: Array<{ value: LengthUnit; label: string }> = [
+  { value: 'mm', label: 'Millimetres (mm)' },
+  { value: 'cm', label: 'Centimetres (cm)' },
+  { value: 'm', label: 'Metres (m)' },
+  { value: 'in', label: 'Inches (in)' },
+  { value: 'ft', label: 'Feet (ft)' }
+];
+
+// Millimetres per unit
+export const MM_PER_UNIT: Record<LengthUnit, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+  ft: 304.8
+};
+
+export interface UnitSettings {
+  unit: LengthUnit;
+  // Decimal places lengths and areas are shown with
+  precision: number;
+}
+
+export const DEFAULT_UNIT_SETTINGS: UnitSettings = { unit: 'mm', precision: 2 };
+
+// Suffixes accepted when typing a length, besides the unit names themselves
+const SUFFIX_ALIASES: Record<string, LengthUnit> = { '"': 'in', "'": 'ft' };
+
+const LENGTH_PATTERN = /^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*(mm|cm|m|in|ft|"|')?\s*$/i;
+
+export function toProjectUnit(mm: number, units: UnitSettings): number {
+  return mm / MM_PER_UNIT[units.unit];
+}
+
+export function fromProjectUnit(value: number, units: UnitSettings): number {
+  return value * MM_PER_UNIT[units.unit];
+}
+
+/**
+ * Formats a scene length in the project unit, e.g. "25.40 mm".
+ */
+export function formatLength(mm: number, units: UnitSettings): string {
+  return `${toProjectUnit(mm, units).toFixed(units.precision)} ${units.unit}`;
+}
+
+export function formatArea(mm2: number, units: UnitSettings): string {
+  return `${(mm2 / MM_PER_UNIT[units.unit] ** 2).toFixed(units.precision)} ${units.unit}²`;
+}
+
+/**
+ * Reads a typed length such as "25.4mm", "1in", `2'` or "12.5" into scene millimetres.
+ * Numbers without a unit are in the project unit.
+ * @returns The length in millimetres, or null when the text is not a length.
+ */
+export function parseLength(text: string, units: UnitSettings): number | null {
+  const match = LENGTH_PATTERN.exec(text);
+  if (!match) return null;
+  const suffix = match[2]?.toLowerCase();
+  const unit = suffix ? SUFFIX_ALIASES[suffix] ?? (suffix as LengthUnit) : units.unit;
+  return parseFloat(match[1]) * MM_PER_UNIT[unit];
+}
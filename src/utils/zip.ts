@@ -0,0 +1,142 @@
+// Minimal ZIP archive reader and writer. Written entries are stored uncompressed,
+// which keeps the writer tiny; the archives only bundle files that are downloaded
+// together. Deflated entries are read with the browser's DecompressionStream.
+
+// 1980-01-01, the earliest date ZIP can store; entries carry no real timestamps
+const DOS_DATE = (1 << 5) | 1;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs files into a ZIP archive.
+ * @param entries File contents keyed by their path inside the archive.
+ * @returns The archive bytes.
+ */
+export function createZip(entries: Record<string, Uint8Array>): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = Object.entries(entries).map(([path, data]) => ({ name: encoder.encode(path), data, crc: crc32(data) }));
+
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+
+  let offset = 0;
+  const offsets: number[] = [];
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);  // local file header
+    view.setUint16(offset + 4, 20, true);       // version needed
+    view.setUint16(offset + 6, 0x0800, true);   // UTF-8 names
+    view.setUint16(offset + 8, 0, true);        // stored
+    view.setUint16(offset + 12, DOS_DATE, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    out.set(file.name, offset + 30);
+    out.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+  }
+
+  const centralStart = offset;
+  files.forEach((file, i) => {
+    view.setUint32(offset, 0x02014b50, true);   // central directory header
+    view.setUint16(offset + 4, 20, true);       // version made by
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 14, DOS_DATE, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    view.setUint32(offset + 42, offsets[i], true);
+    out.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);     // end of central directory
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return out;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Unpacks a ZIP archive. Only stored and deflated entries are supported, which covers
+ * the packages written by slicers and CAD tools (3MF, OPC); ZIP64 is not.
+ * @param buffer The archive bytes.
+ * @returns File contents keyed by their path inside the archive; folders are skipped.
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<Record<string, Uint8Array>> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record sits before an optional comment of up to 64 KiB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: Record<string, Uint8Array> = {};
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const method = view.getUint16(offset + 10, true);
+    // Sizes come from the central directory; local headers may defer them to a data descriptor
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries[name] = data.slice();
+    } else if (method === 8) {
+      entries[name] = await inflateRaw(data);
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+  }
+  return entries;
+}